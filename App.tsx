@@ -6,269 +6,1148 @@ import {
   Map as MapIcon, 
   Clock,
   LogOut,
-  Camera,
   ChevronDown,
   Monitor,
   User,
-  Wifi
+  Wifi,
+  PencilRuler,
+  Crosshair,
+  Stethoscope,
+  Gauge,
+  Route,
+  ChartLine,
+  ClipboardList,
+  Link2,
+  Search,
+  Server,
+  LayoutGrid,
+  Eye,
+  Shield,
+  Archive,
+  GitCompare
 } from 'lucide-react';
 import { 
-  STORES,
-  COLORS
+  COLORS,
+  ENGAGEMENT_CONFIG,
+  LAYOUTS,
+  BUNDLED_LAYOUTS,
+  LAYOUT_ERRORS,
+  DEVICES,
+  FUSION_CONFIG,
+  GRID_SIZE,
+  HEATMAP_SAVE_INTERVAL_MS,
+  DAY_SNAPSHOT_SAVE_INTERVAL_MS,
+  FLOW_CONFIG,
+  ALERT_EVAL_INTERVAL_MS,
+  KPI_CONFIG,
+  STITCH_CONFIG,
+  DEMOGRAPHICS_CONFIG,
+  MOTION_CONFIG,
+  ENTRANCE_COUNTER_CONFIG,
+  CONNECTION_CONFIG,
+  DEFAULT_WS_URL,
+  ATTENTION_CONFIG,
+  PRIVACY_DEFAULTS
 } from './constants';
-import { Customer, AgentState, Point, Gender, Hotspot, WebSocketResponse, PlanData, WebSocketMessage } from './types';
+import { Gender, Point, WebSocketResponse, PlanData, Alert, RecordingSession, ZoneEngagement, LayoutFile, StoreConfig, DemographicCell, TrackSnapshot, ConnectionHealth, ConnectionSettings, ZoneAttention, PrivacySettings, BusinessDay, DayArchive, DayTotals } from './types';
+import { SessionRecorder, loadFrames, pruneSessions } from './services/sessionRecorder';
+import { ReplayPlayer, ReplayStatus } from './services/replayPlayer';
+import { SessionControls } from './components/SessionControls';
+import { EngagementEngine, buildZones, engagementColor } from './services/engagement';
+import { RackPerformancePanel } from './components/RackPerformancePanel';
+import { LayoutEditorLayer, LayoutEditorPanel } from './components/LayoutEditor';
+import { ToolbarButton } from './components/ToolbarButton';
+import { LayoutSelection } from './services/layoutEditing';
+import { LayoutValidationError, clearSavedLayout, parseLayoutJson, saveLayouts, serializeLayout } from './services/layoutLoader';
+import { downloadBlob, downloadText } from './services/download';
+import { CalibrationTool } from './components/CalibrationTool';
+import { VideoPanel } from './components/VideoPanel';
+import { CameraFeed, VideoFeeds } from './services/videoFeeds';
+import { PrivacyPanel } from './components/PrivacyPanel';
+import { loadHashSalt, loadPrivacySettings, protectAlert, protectFrame, protectVisit, retentionCutoff, savePrivacySettings } from './services/privacy';
+import { CalibrationMap, loadCalibrations, removeCalibration, saveCalibration } from './services/calibrationStore';
+import { projectTrack } from './services/homography';
+import { ProjectedTrack, TrackFusion, routeDevice } from './services/trackFusion';
+import { validateFrame } from './services/frameValidator';
+import { ProtocolDiagnostics } from './services/protocolDiagnostics';
+import { DiagnosticsDrawer } from './components/DiagnosticsDrawer';
+import { HeatmapLayers, HeatmapView, autoHeatScale, pruneHeatmaps } from './services/heatmapStore';
+import { heatmapToCsv, heatmapToPng } from './services/heatmapExport';
+import { HeatmapControls } from './components/HeatmapControls';
+import { AgentSimulation } from './services/agentSimulation';
+import { FrameTiming, beginPlanFrame, drawAgents, drawAttention, drawHeatmap, drawMotionDebug, drawSelection, drawTrails, paintHeatmap } from './services/mapRenderer';
+import { PlanViewport } from './components/PlanViewport';
+import { PerfOverlay } from './components/PerfOverlay';
+import { MotionTuning } from './components/MotionTuning';
+import { TrackInspector } from './components/TrackInspector';
+import { VisitTracker } from './services/zoneFlow';
+import { FlowAnalytics } from './components/FlowAnalytics';
+import { AlertEngine, pruneAlerts, saveAlert } from './services/alertEngine';
+import { AlertRuleMap, loadAlertRules, resetStoreRules, rulesForStore, saveStoreRules } from './services/alertRules';
+import { playAlertTone } from './services/alertSound';
+import { AlertFeed } from './components/AlertFeed';
+import { AlertRulesEditor } from './components/AlertRulesEditor';
+import { KpiRecorder, pruneKpis, saveKpiMinute } from './services/kpiHistory';
+import { TrendsPanel } from './components/TrendsPanel';
+import { buildVisitRecord, pruneVisits, saveVisitRecord, visitZoneTimes } from './services/visitLog';
+import { VisitLog } from './components/VisitLog';
+import { TrackStitcher, loadStitchingEnabled, saveStitchingEnabled } from './services/trackStitcher';
+import { DemographicsTally, ageBandOf, bandLabels, liveDemographics, sumCells } from './services/demographics';
+import { DemographicBreakdown } from './components/DemographicBreakdown';
+import { BackendCounters, EMPTY_ENTRANCE_COUNTS, EntranceCounter, entranceLine } from './services/entranceCounter';
+import { EntranceReconciliation } from './components/EntranceReconciliation';
+import { ConnectionManager, clearConnectionSettings, loadConnectionSettings, saveConnectionSettings } from './services/connection';
+import { ConnectionSettingsPanel } from './components/ConnectionSettingsPanel';
+import { ConnectionFooter } from './components/ConnectionFooter';
+import { StoreMonitor } from './services/storeMonitor';
+import { OverviewWall } from './components/OverviewWall';
+import { AttentionEngine } from './services/attention';
+import { AttentionPanel } from './components/AttentionPanel';
+import { businessDayOf, isOpenAt, loadDaySnapshots, saveDaySnapshots, storeTimeZone, zonedHour } from './services/businessDay';
+import { listArchivedDays, loadDayArchive, pruneDayArchives, saveDayArchive } from './services/dayArchive';
+import { DayPicker } from './components/DayPicker';
+import { recordLayout } from './services/layoutHistory';
+import { LayoutComparison } from './components/LayoutComparison';
 
-const GRID_SIZE = 25;
-const WS_URL = 'ws://localhost:3000/ws?type=browser';
+
+const EMPTY_DAILY_STATS: DayTotals = {
+  totalCustomers: 0,
+  quickExits: 0,
+  totalDwellTimeMs: 0,
+  completedVisits: 0
+};
 
 const App: React.FC = () => {
+  const [layouts, setLayouts] = useState<LayoutFile[]>(LAYOUTS);
+  const stores = useMemo(() => layouts.map(l => l.store), [layouts]);
   const [currentStoreIdx, setCurrentStoreIdx] = useState(0);
-  const store = STORES[currentStoreIdx];
-
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [dailyStats, setDailyStats] = useState({
-    totalCustomers: 0,
-    quickExits: 0,
-    femaleCount: 0,
-    maleCount: 0,
-    totalDwellTimeMs: 0,
-    completedVisits: 0
-  });
+  const store = stores[currentStoreIdx];
+  // The socket handlers are bound once, so they read the selected store through a ref.
+  const storeRef = useRef(store);
+  storeRef.current = store;
+  const storesRef = useRef(stores);
+  storesRef.current = stores;
+  const storeIdsRef = useRef(stores.map(s => s.id));
+  storeIdsRef.current = stores.map(s => s.id);
+
+  // Overview wall: one monitor per store, independent of the store in the full view.
+  const monitorsRef = useRef(new Map<string, StoreMonitor>());
+  const [overview, setOverview] = useState(false);
+  // A day is saved again as soon as it is archived, so it is never archived twice.
+  const saveDays = () => saveDaySnapshots(Object.fromEntries([...monitorsRef.current].map(([id, monitor]) => [id, monitor.daySnapshot()])));
+  useEffect(() => {
+    const monitors = monitorsRef.current;
+    const savedDays = loadDaySnapshots();
+    let archived = false;
+    stores.forEach(s => {
+      const existing = monitors.get(s.id);
+      if (existing) {
+        existing.setStore(s);
+        return;
+      }
+      const monitor = new StoreMonitor(s, { devices: DEVICES, fusion: FUSION_CONFIG, motion: MOTION_CONFIG, entrance: ENTRANCE_COUNTER_CONFIG, demographics: DEMOGRAPHICS_CONFIG, gridSize: GRID_SIZE }, savedDays[s.id]);
+      monitors.set(s.id, monitor);
+      // A day that ended while the app was closed is archived before today's counting starts.
+      const unarchived = monitor.takeUnarchivedDay();
+      if (unarchived) {
+        archiveBusinessDay(unarchived);
+        archived = true;
+      }
+    });
+    if (archived) saveDays();
+    [...monitors.keys()].filter(id => !stores.some(s => s.id === id)).forEach(id => monitors.delete(id));
+  }, [stores]);
+
+  const [editMode, setEditMode] = useState(false);
+  const [editSelection, setEditSelection] = useState<LayoutSelection | null>(null);
+  const [layoutErrors, setLayoutErrors] = useState<string[]>(LAYOUT_ERRORS.flatMap(e => e.errors.map(msg => `${e.source}: ${msg}`)));
+  const [showComparison, setShowComparison] = useState(false);
+
+  // Every revision is kept with the day it took effect, for the layout comparison.
+  // Revisions are recorded once editing is done, not on every drag.
+  useEffect(() => {
+    if (editMode) return;
+    layouts.forEach(l => recordLayout(l, businessDayOf(Date.now(), l.store).key).catch(e => console.error('Failed to record layout history', e)));
+  }, [layouts, editMode]);
+
+  // Agents are filtered, predicted and drawn outside React; only the head count is state.
+  const simulationRef = useRef(new AgentSimulation(MOTION_CONFIG));
+  const [motionConfig, setMotionConfig] = useState(MOTION_CONFIG);
+  const [showMotionDebug, setShowMotionDebug] = useState(false);
+  const showMotionDebugRef = useRef(false);
+  const [activeCount, setActiveCount] = useState(0);
+  const [dailyStats, setDailyStats] = useState(EMPTY_DAILY_STATS);
+  // The store's current business day; see closeBusinessDay.
+  const [businessDay, setBusinessDay] = useState(() => ({ storeId: store.id, ...businessDayOf(Date.now(), store) }));
+  const businessDayRef = useRef(businessDay);
+
+  // Gender × age band of today's unique visitors and of who is inside now,
+  // published once a second.
+  const demographicsRef = useRef(new DemographicsTally(DEMOGRAPHICS_CONFIG));
+  const [demographics, setDemographics] = useState<{ live: DemographicCell[]; today: DemographicCell[] }>({ live: [], today: [] });
+  const ageBandLabels = useMemo(() => bandLabels(DEMOGRAPHICS_CONFIG.ageBands), []);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const agents = [...simulationRef.current.values()];
+      agents.forEach(c => demographicsRef.current.observe(c));
+      setDemographics({ live: liveDemographics(agents, DEMOGRAPHICS_CONFIG.ageBands), today: demographicsRef.current.cumulative() });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
 
   const [isConnected, setIsConnected] = useState(false);
-  const [liveImage, setLiveImage] = useState<string | null>(null);
+  // Endpoint/token/device filter; changing them replaces the connection manager.
+  const [connection, setConnection] = useState(() => loadConnectionSettings(DEFAULT_WS_URL));
+  const deviceFilterRef = useRef(connection.settings.deviceFilter);
+  deviceFilterRef.current = connection.settings.deviceFilter;
+  const connectionRef = useRef<ConnectionManager | null>(null);
+  const [connectionHealth, setConnectionHealth] = useState<ConnectionHealth | null>(null);
+  const [showConnection, setShowConnection] = useState(false);
+  // Latest picture of every camera, with the boxes of its frame for the video panel.
+  const videoFeedsRef = useRef(new VideoFeeds());
+  const [cameraFeeds, setCameraFeeds] = useState<CameraFeed[]>([]);
+  const [liveDeviceId, setLiveDeviceId] = useState<string | null>(null);
+
+  // Privacy mode: what the wall screen shows, what gets stored and for how long.
+  const [privacy, setPrivacy] = useState(() => loadPrivacySettings(PRIVACY_DEFAULTS));
+  const privacyRef = useRef(privacy);
+  privacyRef.current = privacy;
+  const [hashSalt] = useState(loadHashSalt);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [lastPurgeAt, setLastPurgeAt] = useState<number | null>(null);
+
+  // Camera calibration: latest frame per device for the calibration tool, and
+  // the stored homographies used to project tracks onto the plan.
+  const deviceFramesRef = useRef<Map<string, string>>(new Map());
+  const knownDevicesRef = useRef<Set<string>>(new Set());
+  const [knownDevices, setKnownDevices] = useState<string[]>([]);
+  const [calibrations, setCalibrations] = useState<CalibrationMap>(loadCalibrations);
+  const calibrationsRef = useRef(calibrations);
+  calibrationsRef.current = calibrations;
+  const [showCalibration, setShowCalibration] = useState(false);
+
+  // Multi-camera routing and fusion for the selected store. Per-device backend
+  // counters are summed for devices that count entries.
+  const createFusion = (storeId: string) =>
+    new TrackFusion(DEVICES, FUSION_CONFIG, DEVICES.filter(d => d.storeId === storeId).length > 1);
+  const fusionRef = useRef(createFusion(store.id));
+  const backendCountersRef = useRef(new BackendCounters());
+  // Entries/exits counted from tracks crossing the entrance, to check the devices' own counters against.
+  const entranceConfigRef = useRef(ENTRANCE_COUNTER_CONFIG);
+  const entranceCounterRef = useRef(new EntranceCounter(entranceLine(store, ENTRANCE_COUNTER_CONFIG.halfWidthPx), ENTRANCE_COUNTER_CONFIG));
+  const [entranceConfig, setEntranceConfig] = useState(ENTRANCE_COUNTER_CONFIG);
+  entranceConfigRef.current = entranceConfig;
+  const [entranceCounts, setEntranceCounts] = useState(EMPTY_ENTRANCE_COUNTS);
+  const countingLine = useMemo(() => entranceLine(store, entranceConfig.halfWidthPx), [store, entranceConfig.halfWidthPx]);
+  const [unroutedDevices, setUnroutedDevices] = useState<string[]>([]);
+
+  // Track stitching between fusion and the simulation, so a person the tracker
+  // re-identifies under a new track_id stays one visitor.
+  const stitcherRef = useRef(new TrackStitcher(STITCH_CONFIG));
+  const [stitching, setStitching] = useState(loadStitchingEnabled);
+  const stitchingRef = useRef(stitching);
+  stitchingRef.current = stitching;
+  const [mergedFragments, setMergedFragments] = useState(0);
+
+  const resetStitcher = () => {
+    stitcherRef.current = new TrackStitcher(STITCH_CONFIG);
+    setMergedFragments(0);
+  };
+
+  const toggleStitching = () => {
+    saveStitchingEnabled(!stitching);
+    setStitching(!stitching);
+    resetStitcher();
+  };
+
+  const resetEntranceCounter = (counts = EMPTY_ENTRANCE_COUNTS) => {
+    entranceCounterRef.current = new EntranceCounter(entranceLine(storeRef.current, entranceConfigRef.current.halfWidthPx), entranceConfigRef.current, counts);
+    setEntranceCounts(counts);
+  };
+
+  // The full view carries on from the day so far as the store's monitor counted
+  // it, so switching stores doesn't start the day's totals over. Replays start from zero.
+  const resumeDayTotals = (replaying: boolean) => {
+    const monitor = replaying ? undefined : monitorsRef.current.get(storeRef.current.id);
+    setDailyStats(monitor?.dayTotals() ?? EMPTY_DAILY_STATS);
+    demographicsRef.current = monitor?.dayDemographics() ?? new DemographicsTally(DEMOGRAPHICS_CONFIG);
+    resetEntranceCounter(monitor?.entranceTotals());
+  };
+
+  // Live device counts carry on from the store's day as its monitor counted
+  // it, which it keeps across reloads. Replays count from zero.
+  const resetBackendCounters = (replaying: boolean) => {
+    backendCountersRef.current.clear();
+    if (replaying) return;
+    const monitor = monitorsRef.current.get(storeRef.current.id);
+    if (monitor) backendCountersRef.current.resumeDay(monitor.backendDayState());
+    else backendCountersRef.current.startDay({});
+  };
+
+  // The entrance can be moved in the layout editor and the threshold changed from the panel.
+  useEffect(() => entranceCounterRef.current.setLine(countingLine), [countingLine]);
+  useEffect(() => entranceCounterRef.current.setConfig(entranceConfig), [entranceConfig]);
+
+  const storeDeviceAreas = useMemo(() => DEVICES.filter(d => d.storeId === store.id && d.area), [store.id]);
 
   const COLS = Math.ceil(store.width / GRID_SIZE);
   const ROWS = Math.ceil(store.height / GRID_SIZE);
   
-  const [heatmap, setHeatmap] = useState<Float32Array>(new Float32Array(COLS * ROWS));
-  const heatmapAccumulatorRef = useRef<Float32Array>(new Float32Array(COLS * ROWS));
+  // Heatmap layers accumulate in a ref from the animation loop; the selected view
+  // is copied into state once a second for rendering. Replays get throwaway layers
+  // so they never write into the live store's saved heatmap.
+  const heatmapLayersRef = useRef(new HeatmapLayers(store.id, COLS, ROWS, true, storeTimeZone(store), businessDayOf(Date.now(), store).key));
+  const [heatmapView, setHeatmapView] = useState<HeatmapView>('last15m');
+  const [heatmapHour, setHeatmapHour] = useState(() => zonedHour(Date.now(), storeTimeZone(store)));
+  const [heatScale, setHeatScale] = useState(() => autoHeatScale(new Float32Array(0)));
   const lastTimeRef = useRef<number>(performance.now());
   const requestRef = useRef<number | undefined>(undefined);
+
+  // Canvas layers: heatmap and trails under the SVG plan, agents above it. The
+  // heatmap is painted one pixel per cell into an offscreen canvas once a second.
+  const underlayRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const heatmapImageRef = useRef<HTMLCanvasElement>(document.createElement('canvas'));
+  const frameTimingRef = useRef(new FrameTiming());
+  const [showPerf, setShowPerf] = useState(false);
+  // The raw-vs-filtered view belongs to the perf overlay's motion panel.
+  showMotionDebugRef.current = showPerf && showMotionDebug;
   
   // Keep track of entry times for calculating dwell time locally if needed
   const entryTimesRef = useRef<Map<string, number>>(new Map());
 
-  const storeHotspots = useMemo(() => {
-    const hs: Hotspot[] = [];
-    store.racks.forEach((r, i) => hs.push({ id: `r-${i}`, pos: r.pos, label: r.label }));
-    store.islands.forEach((isl, i) => {
-      isl.grid.forEach((p, j) => hs.push({ id: `isl-${i}-${j}`, pos: p, label: isl.label }));
-    });
-    return hs;
-  }, [store]);
+  // Session recording / replay. While a replay is loaded, live frames are ignored
+  // and the recorded frames are fed through the same pipeline instead.
+  const recorderRef = useRef(new SessionRecorder());
+  const diagnosticsRef = useRef(new ProtocolDiagnostics());
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const [recording, setRecording] = useState<RecordingSession | null>(null);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const [replaySession, setReplaySession] = useState<RecordingSession | null>(null);
+  const [replayStatus, setReplayStatus] = useState<ReplayStatus | null>(null);
+
+  // Rack / island engagement. The engine lives in a ref and is stepped from the
+  // animation loop; the panel reads a snapshot once a second.
+  const storeZones = useMemo(() => buildZones(store), [store]);
+  const [engagementConfig, setEngagementConfig] = useState(ENGAGEMENT_CONFIG);
+  const engagementRef = useRef(new EngagementEngine(storeZones, engagementConfig));
+  const [zoneStats, setZoneStats] = useState<ZoneEngagement[]>([]);
+
+  // Shelf attention: what each shopper's vision cone is pointed at, stepped
+  // alongside engagement. The overlay reads the same once-a-second snapshot.
+  const [attentionConfig, setAttentionConfig] = useState(ATTENTION_CONFIG);
+  const attentionRef = useRef(new AttentionEngine(storeZones, attentionConfig));
+  const [attentionStats, setAttentionStats] = useState<ZoneAttention[]>([]);
+  const attentionStatsRef = useRef(attentionStats);
+  attentionStatsRef.current = attentionStats;
+  const [showAttention, setShowAttention] = useState(false);
+  const showAttentionRef = useRef(showAttention);
+  showAttentionRef.current = showAttention;
+
+  // Full trajectories of every visit, turned into zone routes when the shopper leaves.
+  const createVisitTracker = () => new VisitTracker(store.id, storeZones, ENGAGEMENT_CONFIG.zoneReachPx, FLOW_CONFIG);
+  const visitTrackerRef = useRef(createVisitTracker());
+  const [showFlows, setShowFlows] = useState(false);
+  const getCompletedVisits = useCallback(() => visitTrackerRef.current.completed(), []);
+
+  // Per-visit records for the visit log: the cameras that saw each open visit,
+  // and one stored record per live visit once the track leaves.
+  const visitDevicesRef = useRef<Map<string, string[]>>(new Map());
+  const [showVisitLog, setShowVisitLog] = useState(false);
+
+  // Track inspector: the selected agent is highlighted and followed on the map,
+  // and the inspector polls a snapshot of it assembled from the live refs.
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null);
+  const selectedTrackIdRef = useRef(selectedTrackId);
+  selectedTrackIdRef.current = selectedTrackId;
+  // The visitor under the pointer on the plan or in the video, highlighted in both.
+  const [hoveredTrackId, setHoveredTrackId] = useState<string | null>(null);
+  const hoveredTrackIdRef = useRef(hoveredTrackId);
+  hoveredTrackIdRef.current = hoveredTrackId;
+  const [trackQuery, setTrackQuery] = useState('');
+  const [trackQueryMissed, setTrackQueryMissed] = useState(false);
+
+  const getTrackSnapshot = useCallback((id: string): TrackSnapshot | null => {
+    const agent = simulationRef.current.get(id);
+    if (!agent) return null;
+    const now = Date.now();
+    const visit = visitTrackerRef.current.inProgress(id, now);
+    return {
+      id,
+      state: agent.state,
+      zoneId: agent.targetId === 'unknown' ? null : agent.targetId,
+      speed: agent.speed,
+      enteredAt: entryTimesRef.current.get(id) ?? null,
+      trajectory: visit ? [...visit.trajectory] : [],
+      zones: visit ? visitZoneTimes(visit, storeZonesRef.current) : [],
+      attributes: [...simulationRef.current.attributeHistory(id)],
+      fragments: [...stitcherRef.current.fragmentsOf(id)],
+      merges: [...stitcherRef.current.mergesOf(id)],
+      devices: visitDevicesRef.current.get(id) ?? [],
+    };
+  }, []);
+
+  // Exact visitor id first, then a stitched fragment's tracker id, then a partial match.
+  const findTrack = (query: string) => {
+    const q = query.trim();
+    if (!q) return;
+    const agents = [...simulationRef.current.values()];
+    const match =
+      agents.find(c => c.id === q) ??
+      agents.find(c => stitcherRef.current.fragmentsOf(c.id).includes(q)) ??
+      agents.find(c => c.id.toLowerCase().includes(q.toLowerCase()));
+    setTrackQueryMissed(!match);
+    if (match) setSelectedTrackId(match.id);
+  };
+
+  const selectAgentAt = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (editMode) return;
+    const ctm = e.currentTarget.getScreenCTM();
+    if (!ctm) return;
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    setSelectedTrackId(simulationRef.current.agentAt({ x: p.x, y: p.y }, 16)?.id ?? null);
+  };
+
+  const hoverAgentAt = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (editMode) return;
+    const ctm = e.currentTarget.getScreenCTM();
+    if (!ctm) return;
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    setHoveredTrackId(simulationRef.current.agentAt({ x: p.x, y: p.y }, 16)?.id ?? null);
+  };
 
-  // Reset heatmaps on store change
   useEffect(() => {
-    const newSize = Math.ceil(store.width / GRID_SIZE) * Math.ceil(store.height / GRID_SIZE);
-    heatmapAccumulatorRef.current = new Float32Array(newSize);
-    setHeatmap(new Float32Array(newSize));
-    setCustomers([]);
-  }, [currentStoreIdx, store.width, store.height]);
+    engagementRef.current = new EngagementEngine(storeZones, engagementConfig);
+    setZoneStats([]);
+    attentionRef.current = new AttentionEngine(storeZones, attentionConfig);
+    setAttentionStats([]);
+    visitTrackerRef.current.setZones(storeZones);
+  }, [storeZones, businessDay.key]);
 
-  // WebSocket Connection
   useEffect(() => {
-    let ws: WebSocket | null = null;
-    let reconnectTimeout: ReturnType<typeof setTimeout>;
+    attentionRef.current.setConfig(attentionConfig);
+  }, [attentionConfig]);
 
-    const connect = () => {
-      ws = new WebSocket(WS_URL);
+  useEffect(() => {
+    engagementRef.current.setConfig(engagementConfig);
+  }, [engagementConfig]);
 
-      ws.onopen = () => {
-        setIsConnected(true);
-        console.log('Connected to Retail Twin Stream');
-      };
+  useEffect(() => {
+    simulationRef.current.setConfig(motionConfig);
+  }, [motionConfig]);
 
-      ws.onmessage = (event) => {
-        try {
-          const message: WebSocketMessage = JSON.parse(event.data);
-          
-          // Check for the wrapper type and ensure data exists
-          if (message.type === 'device_data' && message.data) {
-            processWebSocketData(message.data);
-          }
-        } catch (e) {
-          console.error('Failed to parse WS message', e);
-        }
-      };
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setZoneStats(engagementRef.current.snapshot(performance.now()));
+      setAttentionStats(attentionRef.current.snapshot());
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
 
-      ws.onclose = () => {
-        setIsConnected(false);
-        reconnectTimeout = setTimeout(connect, 3000);
-      };
+  // Alerting. Rules are configured per store; the engine is evaluated once a
+  // second against live agents and device activity, and every raised, cleared
+  // or acknowledged alert is written to the alert history.
+  const [alertRules, setAlertRules] = useState<AlertRuleMap>(loadAlertRules);
+  const alertRulesRef = useRef(alertRules);
+  alertRulesRef.current = alertRules;
+  const storeAlertRules = useMemo(() => rulesForStore(alertRules, store.id), [alertRules, store.id]);
+  const storeAlertRulesRef = useRef(storeAlertRules);
+  storeAlertRulesRef.current = storeAlertRules;
+  const storeZonesRef = useRef(storeZones);
+  storeZonesRef.current = storeZones;
+  const alertEngineRef = useRef(new AlertEngine());
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [alertSound, setAlertSound] = useState(true);
+  const alertSoundRef = useRef(alertSound);
+  alertSoundRef.current = alertSound;
+  const [showAlertRules, setShowAlertRules] = useState(false);
+  const lastActivityRef = useRef(Date.now());
+  const deviceLastSeenRef = useRef<Map<string, number>>(new Map());
+  const watchingSinceRef = useRef(Date.now());
+  const flaggedTracksRef = useRef<Set<string>>(new Set());
 
-      ws.onerror = (err) => {
-        console.error('WS Error', err);
-        ws?.close();
-      };
-    };
+  const persistAlert = (alert: Alert) =>
+    saveAlert(privacyRef.current.hashTrackIds ? protectAlert(alert, hashSalt) : alert).catch(e => console.error('Failed to save alert', e));
 
-    connect();
+  const restartActivityWatch = () => {
+    const now = Date.now();
+    lastActivityRef.current = now;
+    watchingSinceRef.current = now;
+    deviceLastSeenRef.current.clear();
+  };
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      // Replayed frames aren't live; they must not raise alerts or reach the history.
+      if (playerRef.current) return;
+      const now = Date.now();
+      const perfNow = performance.now();
+      const s = storeRef.current;
+      const rules = storeAlertRulesRef.current;
+      const agents = [...simulationRef.current.values()];
+      const deviceIds = new Set([...DEVICES.filter(d => d.storeId === s.id).map(d => d.deviceId), ...deviceLastSeenRef.current.keys()]);
+
+      const { raised, updated } = alertEngineRef.current.evaluate(rules, {
+        storeId: s.id,
+        occupancy: agents.length,
+        tracks: agents.map(c => ({
+          id: c.id,
+          visitMs: now - (entryTimesRef.current.get(c.id) ?? now),
+          zoneId: c.targetId === 'unknown' ? null : c.targetId,
+          zoneMs: c.targetId === 'unknown' ? 0 : perfNow - c.dwellStartTime,
+        })),
+        idleMs: now - lastActivityRef.current,
+        open: isOpenAt(now, s),
+        devices: [...deviceIds].map(id => ({ deviceId: id, silentMs: now - (deviceLastSeenRef.current.get(id) ?? watchingSinceRef.current) })),
+      }, storeZonesRef.current, now);
+
+      [...raised, ...updated].forEach(persistAlert);
+      const audible = raised.filter(a => rules.find(r => r.id === a.ruleId)?.sound);
+      if (alertSoundRef.current && audible.length > 0) {
+        playAlertTone(audible.some(a => a.severity === 'critical') ? 'critical' : 'warning');
+      }
+      const feed = alertEngineRef.current.alerts();
+      setAlerts(prev => (prev.length === 0 && feed.length === 0 ? prev : feed));
+      monitorsRef.current.forEach((monitor, storeId) => monitor.evaluateAlerts(rulesForStore(alertRulesRef.current, storeId), now));
+    }, ALERT_EVAL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Active, unacknowledged alerts flash their track, zone, device area or the whole map.
+  const flagged = useMemo(() => {
+    const open = alerts.filter(a => !a.clearedAt && !a.acknowledgedAt);
+    const ids = (kind: Alert['subject']['kind']) => new Set(open.filter(a => a.subject.kind === kind).map(a => a.subject.id));
+    return { tracks: ids('track'), devices: ids('device'), store: open.some(a => a.subject.kind === 'store'), zones: new Set(open.map(a => a.zoneId).filter(Boolean)) };
+  }, [alerts]);
+  flaggedTracksRef.current = flagged.tracks;
+
+  const acknowledgeAlerts = (ids: string[]) => {
+    alertEngineRef.current.acknowledge(ids).forEach(persistAlert);
+    setAlerts(alertEngineRef.current.alerts());
+  };
 
+  // KPI history: live counters and samples go into 1-minute buckets that are
+  // persisted per store and rolled up into hourly buckets for the trends panel.
+  const kpiRecorderRef = useRef(new KpiRecorder(store.id));
+  const [showTrends, setShowTrends] = useState(false);
+
+  // Persists the partial minute and starts a recorder with a fresh counter baseline.
+  const restartKpiRecorder = () => {
+    kpiRecorderRef.current.flush().forEach(saveKpiMinute);
+    kpiRecorderRef.current = new KpiRecorder(storeRef.current.id);
+  };
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (playerRef.current) return;
+      const agents = [...simulationRef.current.values()];
+      const female = agents.filter(c => c.gender === Gender.FEMALE).length;
+      const male = agents.filter(c => c.gender === Gender.MALE).length;
+      kpiRecorderRef.current.sample(agents.length, female, male);
+      kpiRecorderRef.current.takeFinished().forEach(saveKpiMinute);
+    }, KPI_CONFIG.sampleMs);
+    const flush = () => kpiRecorderRef.current.flush().forEach(saveKpiMinute);
+    window.addEventListener('beforeunload', flush);
     return () => {
-      ws?.close();
-      clearTimeout(reconnectTimeout);
+      clearInterval(timer);
+      window.removeEventListener('beforeunload', flush);
+      flush();
     };
   }, []);
 
-  const processWebSocketData = (data: WebSocketResponse) => {
-    // 1. Process Video Image
-    if (data.video_image && data.video_image.length > 0) {
-      const imgObj = data.video_image[0];
-      const base64 = Object.values(imgObj)[0];
-      if (base64) setLiveImage(`data:image/jpeg;base64,${base64}`);
+  useEffect(() => {
+    const prune = () =>
+      storeIdsRef.current.forEach(id => pruneKpis(id, KPI_CONFIG).catch(e => console.error('Failed to prune KPI history', e)));
+    prune();
+    const timer = setInterval(prune, 60 * 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Per-visitor history is only kept for the configured retention windows.
+  // Heatmaps and day archives are keyed on the business day, so their cutoff
+  // is the store's business day at the start of the window.
+  const purgeExpired = (retention = privacyRef.current.retention) => {
+    const now = Date.now();
+    return Promise.all([
+      ...storeIdsRef.current.map(id => pruneVisits(id, retentionCutoff(retention.visitsDays, now))),
+      ...storesRef.current.flatMap(s => {
+        const cutoffDay = businessDayOf(retentionCutoff(retention.historyDays, now), s).key;
+        return [pruneHeatmaps(s.id, cutoffDay), pruneDayArchives(s.id, cutoffDay)];
+      }),
+      pruneAlerts(retentionCutoff(retention.alertsDays, now)),
+      pruneSessions(retentionCutoff(retention.recordingsDays, now), recorderRef.current.current?.id),
+    ])
+      .then(() => {
+        setLastPurgeAt(now);
+        void refreshArchivedDays(storeRef.current.id);
+      })
+      .catch(e => console.error('Failed to delete expired history', e));
+  };
+
+  useEffect(() => {
+    void purgeExpired();
+    const timer = setInterval(() => void purgeExpired(), 60 * 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const savePrivacy = (settings: PrivacySettings) => {
+    savePrivacySettings(settings);
+    setPrivacy(settings);
+    setShowPrivacy(false);
+    if (settings.frameDisplay !== 'raw') {
+      deviceFramesRef.current.clear();
+      setShowCalibration(false);
     }
+    void purgeExpired(settings.retention);
+  };
 
-    // 2. Process Statistics
-    // Note: entry_number and short_dwell_number seem to be cumulative from backend
-    setDailyStats(prev => {
-      // Calculate gender stats from current plan_data snapshot + accumulated history if backend doesn't provide it.
-      // Since backend doesn't provide gender breakdown in stats, we might just count current active for now
-      // or try to accumulate. For simplicity in this "Digital Twin" view, let's track active gender counts
-      // and update total/quick exits from backend.
-      
-      const currentFemales = data.plan_data.filter(p => p.gender.toLowerCase() === 'female').length;
-      const currentMales = data.plan_data.filter(p => p.gender.toLowerCase() === 'male').length;
-
-      return {
-        ...prev,
-        totalCustomers: data.entry_number > 0 ? data.entry_number : prev.totalCustomers, // Update if non-zero
-        quickExits: data.short_dwell_number > 0 ? data.short_dwell_number : prev.quickExits,
-        femaleCount: currentFemales, // Showing active breakdown
-        maleCount: currentMales
-      };
-    });
+  // Business days end at the store's closing time (or midnight) in its
+  // timezone. Every store's closing day is archived from its monitor, with the
+  // zone stats of the store in the full view, and can be reopened read-only
+  // from the day picker.
+  const [archivedDays, setArchivedDays] = useState<string[]>([]);
+  const [archive, setArchive] = useState<DayArchive | null>(null);
+  const archiveRef = useRef(archive);
+  archiveRef.current = archive;
 
-    // 3. Process Customers (Plan Data)
-    setCustomers(prevCustomers => {
-      const now = performance.now();
-      const nextCustomers: Customer[] = [];
-      const activeIds = new Set<string>();
-
-      data.plan_data.forEach(p => {
-        activeIds.add(p.track_id);
-        const existing = prevCustomers.find(c => c.id === p.track_id);
-        
-        // Parse position [x, y]
-        const targetPos = { x: p.position[0], y: p.position[1] };
-        
-        // Parse orientation [x, y] -> angle degrees
-        const angleRad = Math.atan2(p.orientation[1], p.orientation[0]);
-        const targetAngle = (angleRad * 180) / Math.PI;
-
-        // Determine gender/color
-        const gender = p.gender.toLowerCase() === 'female' ? Gender.FEMALE : Gender.MALE;
-        const color = gender === Gender.FEMALE ? '#ec4899' : '#06b6d4';
-
-        if (existing) {
-          // Update existing customer
-          nextCustomers.push({
-            ...existing,
-            target: targetPos, // Set target for interpolation
-            // We don't snap angle immediately to avoid jitter, we can interp it or just snap if simple
-            // For now let's just update target angle implicitly via the update loop if we wanted strict interp
-            // But here we might just snap for responsiveness if we don't implement complex rotation interp
-            angle: targetAngle, 
-            age: p.age,
-            state: AgentState.WALKING
-          });
-        } else {
-          // New customer
-          if (!entryTimesRef.current.has(p.track_id)) {
-            entryTimesRef.current.set(p.track_id, Date.now());
-          }
-
-          nextCustomers.push({
-            id: p.track_id,
-            pos: targetPos, // Start at reported position
-            target: targetPos,
-            targetId: 'unknown',
-            state: AgentState.WALKING,
-            angle: targetAngle,
-            speed: 0,
-            browsingTimer: 0,
-            dwellStartTime: now,
-            totalStartTime: now,
-            hasCountedForZone: false,
-            path: [targetPos],
-            color,
-            gender,
-            age: p.age
-          });
-        }
-      });
+  // The ref is set right away, so the rollover check never compares against the previous day.
+  const startBusinessDay = (day: BusinessDay) => {
+    const next = { storeId: storeRef.current.id, ...day };
+    businessDayRef.current = next;
+    setBusinessDay(next);
+  };
+
+  const refreshArchivedDays = (storeId: string) =>
+    listArchivedDays(storeId)
+      .then(days => { if (storeRef.current.id === storeId) setArchivedDays(days); })
+      .catch(e => console.error('Failed to list archived days', e));
 
-      // Handle Exits (customers in prev but not in data)
-      prevCustomers.forEach(c => {
-        if (!activeIds.has(c.id)) {
-           // Customer left.
-           const entryTime = entryTimesRef.current.get(c.id);
-           if (entryTime) {
-             const duration = Date.now() - entryTime;
-             setDailyStats(ds => ({
-               ...ds,
-               totalDwellTimeMs: ds.totalDwellTimeMs + duration,
-               completedVisits: ds.completedVisits + 1
-             }));
-             entryTimesRef.current.delete(c.id);
-           }
+  // Zone engagement and attention only run for the store in the full view.
+  const archiveBusinessDay = (record: DayArchive) => {
+    const shown = businessDayRef.current;
+    if (!playerRef.current && record.storeId === shown.storeId && record.key === shown.key) {
+      record.zones = engagementRef.current.snapshot(performance.now());
+      record.attention = attentionRef.current.snapshot();
+    }
+    saveDayArchive(record)
+      .then(() => refreshArchivedDays(record.storeId))
+      .catch(e => console.error('Failed to archive business day', e));
+  };
+
+  // Starts the full view's next day; its monitor has already archived the last one.
+  const closeBusinessDay = (next: BusinessDay) => {
+    heatmapLayersRef.current.rollover(next.key)?.catch(e => console.error('Failed to save heatmap', e));
+    backendCountersRef.current.startDay();
+    resumeDayTotals(false);
+    // Engagement and attention start over in the storeZones effect.
+    startBusinessDay(next);
+  };
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const now = Date.now();
+      let archived = false;
+      monitorsRef.current.forEach(monitor => {
+        const finished = monitor.rollover(now);
+        if (finished) {
+          archiveBusinessDay(finished);
+          archived = true;
         }
       });
+      if (archived) saveDays();
+      // Replayed frames don't belong to any business day; the full view catches up when the replay ends.
+      const current = businessDayRef.current;
+      const next = businessDayOf(now, storeRef.current);
+      if (!playerRef.current && current.storeId === storeRef.current.id && next.key !== current.key) closeBusinessDay(next);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(saveDays, DAY_SNAPSHOT_SAVE_INTERVAL_MS);
+    window.addEventListener('beforeunload', saveDays);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('beforeunload', saveDays);
+      saveDays();
+    };
+  }, []);
+
+  const openArchivedDay = (day: string | null) => {
+    if (!day) {
+      setArchive(null);
+      return;
+    }
+    loadDayArchive(store.id, day)
+      .then(record => setArchive(record ?? null))
+      .catch(e => console.error('Failed to load archived day', e));
+  };
+
+  // An archived day stands in for the live numbers; live processing carries on underneath.
+  const shownStats = archive?.totals ?? dailyStats;
+  const shownDemographics = archive ? { live: [], today: archive.demographics } : demographics;
+  const shownEntranceCounts = archive?.entrance ?? entranceCounts;
+  const shownZoneStats = archive?.zones ?? zoneStats;
+  const shownAttentionStats = archive?.attention ?? attentionStats;
+  const unknownGenderVisitors = sumCells(shownDemographics.today, c => c.gender === Gender.UNKNOWN).visitors;
+
+  const zoneScores = useMemo(() => {
+    const maxDwell = Math.max(1, ...shownZoneStats.map(z => z.dwellMs));
+    return new Map(shownZoneStats.map(z => [z.zoneId, z.dwellMs / maxDwell]));
+  }, [shownZoneStats]);
+
+  const saveHeatmap = (layers: HeatmapLayers) =>
+    layers.save().catch(e => console.error('Failed to save heatmap', e));
+
+  // Saves the outgoing layers and starts new ones, merging in whatever is stored for today.
+  const swapHeatmapLayers = (persistent: boolean) => {
+    void saveHeatmap(heatmapLayersRef.current);
+    const s = storeRef.current;
+    const layers = new HeatmapLayers(s.id, Math.ceil(s.width / GRID_SIZE), Math.ceil(s.height / GRID_SIZE), persistent, storeTimeZone(s), businessDayOf(Date.now(), s).key);
+    heatmapLayersRef.current = layers;
+    publishHeatmap(layers, heatmapView, heatmapHour);
+    layers.restore().catch(e => console.error('Failed to load saved heatmap', e));
+  };
+
+  const publishHeatmap = (layers: HeatmapLayers, view: HeatmapView, hour: number) => {
+    const grid = layers.view(view, hour);
+    const scale = autoHeatScale(grid);
+    paintHeatmap(heatmapImageRef.current, grid, layers.cols, layers.rows, scale);
+    setHeatScale(prev => (prev.max === scale.max ? prev : scale));
+  };
+
+  const clearAgents = () => {
+    simulationRef.current.clear();
+    setActiveCount(0);
+  };
+
+  useEffect(() => {
+    swapHeatmapLayers(!playerRef.current);
+    clearAgents();
+  }, [currentStoreIdx, store.width, store.height]);
+
+  useEffect(() => {
+    const publish = setInterval(() => {
+      if (archiveRef.current) return;
+      publishHeatmap(heatmapLayersRef.current, heatmapView, heatmapHour);
+    }, 1000);
+    return () => clearInterval(publish);
+  }, [heatmapView, heatmapHour]);
+
+  // The archived day's heatmap replaces the live view until the picker goes back to live.
+  useEffect(() => {
+    if (!archive) {
+      publishHeatmap(heatmapLayersRef.current, heatmapView, heatmapHour);
+      return;
+    }
+    const { grid, cols, rows } = archive.heatmap;
+    const scale = autoHeatScale(grid);
+    paintHeatmap(heatmapImageRef.current, grid, cols, rows, scale);
+    setHeatScale(scale);
+  }, [archive]);
+
+  useEffect(() => {
+    const timer = setInterval(() => void saveHeatmap(heatmapLayersRef.current), HEATMAP_SAVE_INTERVAL_MS);
+    const flush = () => void saveHeatmap(heatmapLayersRef.current);
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('beforeunload', flush);
+      flush();
+    };
+  }, []);
+
+  const selectHeatmapView = (view: HeatmapView) => {
+    setHeatmapView(view);
+    publishHeatmap(heatmapLayersRef.current, view, heatmapHour);
+  };
+
+  const exportHeatmap = async (format: 'png' | 'csv') => {
+    const grid = heatmapLayersRef.current.view(heatmapView, heatmapHour);
+    const suffix = heatmapView === 'hourly' ? `hour${heatmapHour.toString().padStart(2, '0')}` : heatmapView;
+    const name = `heatmap-${store.id}-${heatmapLayersRef.current.day}-${suffix}`;
+    if (format === 'csv') {
+      downloadText(heatmapToCsv(grid, COLS), `${name}.csv`, 'text/csv');
+    } else {
+      downloadBlob(await heatmapToPng(grid, COLS, GRID_SIZE, store, autoHeatScale(grid)), `${name}.png`);
+    }
+  };
+
+  useEffect(() => {
+    fusionRef.current = createFusion(store.id);
+    resetStitcher();
+    visitTrackerRef.current = createVisitTracker();
+    alertEngineRef.current = new AlertEngine();
+    setAlerts([]);
+    restartActivityWatch();
+    restartKpiRecorder();
+    resetBackendCounters(!!playerRef.current);
+    resumeDayTotals(!!playerRef.current);
+    entryTimesRef.current.clear();
+    visitDevicesRef.current.clear();
+    videoFeedsRef.current.clear();
+    setCameraFeeds([]);
+    setSelectedTrackId(null);
+    setHoveredTrackId(null);
+    startBusinessDay(businessDayOf(Date.now(), store));
+    setArchive(null);
+    void refreshArchivedDays(store.id);
+  }, [store.id]);
+
+  // Clears everything derived from the stream, e.g. when switching between live and replay.
+  const resetLiveState = (replaying: boolean) => {
+    entryTimesRef.current.clear();
+    visitDevicesRef.current.clear();
+    swapHeatmapLayers(!replaying);
+    clearAgents();
+    videoFeedsRef.current.clear();
+    setCameraFeeds([]);
+    engagementRef.current = new EngagementEngine(storeZones, engagementConfig);
+    setZoneStats([]);
+    attentionRef.current = new AttentionEngine(storeZones, attentionConfig);
+    setAttentionStats([]);
+    fusionRef.current = createFusion(store.id);
+    resetStitcher();
+    visitTrackerRef.current = createVisitTracker();
+    restartActivityWatch();
+    restartKpiRecorder();
+    resetBackendCounters(replaying);
+    resumeDayTotals(replaying);
+    startBusinessDay(businessDayOf(Date.now(), storeRef.current));
+  };
+
+  const handleRawMessage = (raw: string, source: 'live' | 'replay') => {
+    const result = validateFrame(raw);
+    if (source === 'live') {
+      // Filtered here too, in case the gateway ignores ?devices=.
+      const deviceId = result.ok ? result.message.deviceId : result.deviceId;
+      const filter = deviceFilterRef.current;
+      if (deviceId && filter.length > 0 && !filter.includes(deviceId)) return;
+      // The stream's health is tracked during a replay too; its frames are just not shown.
+      if (result.ok) connectionRef.current?.frameReceived(result.message.sentAt);
+      if (playerRef.current) return;
+    }
+    diagnosticsRef.current.record(raw, result);
+
+    // Bad device frames are recorded too, so a recording reproduces what the backend really sent
+    // (short of the privacy settings: hashed ids, and no pictures unless frames are shown raw).
+    if (source === 'live' && (result.ok || result.reason !== 'unsupported_type') && recorderRef.current.active) {
+      const stored = protectFrame(raw, privacyRef.current, hashSalt);
+      if (stored) recorderRef.current.append(stored);
+    }
+    if (!result.ok) {
+      if (result.reason !== 'unsupported_type') console.warn(`Rejected frame: ${result.reason} (${result.detail})`);
+      return;
+    }
+    processWebSocketData(result.message.data, result.message.deviceId);
+  };
+
+  // Mirror the recorder's frame count into state while recording.
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => {
+      const current = recorderRef.current.current;
+      if (current) setRecording({ ...current });
+      setRecordingError(recorderRef.current.error);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [recording?.id]);
+
+  useEffect(() => () => {
+    playerRef.current?.dispose();
+    void recorderRef.current.stop();
+  }, []);
 
-      return nextCustomers;
+  const startRecording = async () => {
+    setRecording(await recorderRef.current.start(store.id));
+  };
+
+  const stopRecording = async () => {
+    await recorderRef.current.stop();
+    setRecording(null);
+  };
+
+  const loadReplay = async (session: RecordingSession) => {
+    const frames = await loadFrames(session.id);
+    playerRef.current?.dispose();
+    resetLiveState(true);
+    setArchive(null);
+    playerRef.current = new ReplayPlayer(frames, {
+      onFrame: raw => handleRawMessage(raw, 'replay'),
+      onSeek: () => resetLiveState(true),
+      onStatus: setReplayStatus,
     });
+    setReplaySession(session);
+    const storeIdx = stores.findIndex(s => s.id === session.storeId);
+    if (storeIdx >= 0) setCurrentStoreIdx(storeIdx);
   };
 
-  const updateSimulation = useCallback((time: number) => {
-    const dt = (time - lastTimeRef.current) / 16.67; 
-    lastTimeRef.current = time;
+  const exitReplay = () => {
+    playerRef.current?.dispose();
+    playerRef.current = null;
+    setReplaySession(null);
+    setReplayStatus(null);
+    resetLiveState(false);
+  };
 
-    setCustomers(prev => {
-      return prev.map(c => {
-        let { pos, target, path } = c;
+  // Layout editing. Every edit bumps the layout one revision past what was loaded
+  // and is kept in localStorage until the exported JSON is committed.
+  const persistEditedLayouts = (next: LayoutFile[]) => {
+    saveLayouts(next.filter(l => !BUNDLED_LAYOUTS.includes(l)));
+  };
 
-        // Simple Linear Interpolation (LERP) for smooth movement
-        // Move 10% of the way to target per frame
-        const lerpFactor = 0.15; 
-        const dx = target.x - pos.x;
-        const dy = target.y - pos.y;
-        
-        // If distance is significant, move
-        if (Math.abs(dx) > 0.5 || Math.abs(dy) > 0.5) {
-          pos = {
-            x: pos.x + dx * lerpFactor,
-            y: pos.y + dy * lerpFactor
-          };
-          
-          // Update Path occasionally
-          if (path.length === 0 || Math.sqrt(Math.pow(pos.x - path[path.length-1].x, 2) + Math.pow(pos.y - path[path.length-1].y, 2)) > 30) {
-            path = [...path.slice(-15), { ...pos }];
-          }
-        }
+  const replaceLayout = (layout: LayoutFile) => {
+    setLayouts(prev => {
+      const exists = prev.some(l => l.store.id === layout.store.id);
+      const next = exists ? prev.map(l => (l.store.id === layout.store.id ? layout : l)) : [...prev, layout];
+      persistEditedLayouts(next);
+      return next;
+    });
+  };
 
-        // Update Heatmap
-        const gridX = Math.floor(pos.x / GRID_SIZE);
-        const gridY = Math.floor(pos.y / GRID_SIZE);
-        const COLS_INT = Math.ceil(store.width / GRID_SIZE);
-        const ROWS_INT = Math.ceil(store.height / GRID_SIZE);
-
-        if (gridX >= 0 && gridX < COLS_INT && gridY >= 0 && gridY < ROWS_INT) {
-          const idx = gridY * COLS_INT + gridX;
-          if (heatmapAccumulatorRef.current[idx] !== undefined) {
-            heatmapAccumulatorRef.current[idx] += 0.02 * dt;
-          }
-        }
+  // The edited revision takes effect today unless another day has been set for it.
+  const updateStoreLayout = (next: StoreConfig, effectiveFrom?: string) => {
+    const loaded = LAYOUTS.find(l => l.store.id === next.id);
+    const current = layouts[currentStoreIdx];
+    const revision = (loaded?.revision ?? 0) + 1;
+    const keptFrom = current.revision === revision ? current.effectiveFrom : undefined;
+    replaceLayout({ ...current, revision, effectiveFrom: effectiveFrom ?? keptFrom ?? businessDayOf(Date.now(), next).key, store: next });
+  };
 
-        return { ...c, pos, path };
-      });
+  const exportLayout = () => {
+    const layout = layouts[currentStoreIdx];
+    downloadText(serializeLayout(layout), `${layout.store.id}.json`, 'application/json');
+  };
+
+  const importLayout = async (file: File) => {
+    try {
+      const layout = parseLayoutJson(await file.text(), file.name);
+      replaceLayout(layout);
+      setLayoutErrors([]);
+      setEditSelection(null);
+      const idx = layouts.findIndex(l => l.store.id === layout.store.id);
+      setCurrentStoreIdx(idx >= 0 ? idx : layouts.length);
+    } catch (e) {
+      if (e instanceof LayoutValidationError) setLayoutErrors(e.errors.map(msg => `${e.source}: ${msg}`));
+      else setLayoutErrors([String(e)]);
+    }
+  };
+
+  const revertLayout = () => {
+    const bundledLayout = BUNDLED_LAYOUTS.find(l => l.store.id === store.id);
+    clearSavedLayout(store.id);
+    if (bundledLayout) setLayouts(prev => prev.map(l => (l.store.id === store.id ? bundledLayout : l)));
+    setEditSelection(null);
+  };
+
+  // WebSocket Connection
+  useEffect(() => {
+    const manager = new ConnectionManager(connection.settings, CONNECTION_CONFIG, {
+      onMessage: raw => handleRawMessage(raw, 'live'),
+      onStateChange: state => setIsConnected(state === 'open' || state === 'stale'),
+    });
+    connectionRef.current = manager;
+    manager.start();
+    setConnectionHealth(manager.health());
+    const timer = setInterval(() => setConnectionHealth(manager.health()), 1000);
+
+    return () => {
+      clearInterval(timer);
+      manager.stop();
+      connectionRef.current = null;
+    };
+  }, [connection]);
+
+  const saveConnection = (settings: ConnectionSettings) => {
+    saveConnectionSettings(settings);
+    // Applies straight away, even if the page URL overrides saved settings on the next load.
+    setConnection({ settings, source: 'saved' });
+    setShowConnection(false);
+  };
+
+  const resetConnection = () => {
+    clearConnectionSettings();
+    setConnection(loadConnectionSettings(DEFAULT_WS_URL));
+    setShowConnection(false);
+  };
+
+  const processWebSocketData = (data: WebSocketResponse, deviceId: string) => {
+    if (!knownDevicesRef.current.has(deviceId)) {
+      knownDevicesRef.current.add(deviceId);
+      setKnownDevices([...knownDevicesRef.current]);
+    }
+    const currentStore = storeRef.current;
+    const storeId = routeDevice(deviceId, data.area, DEVICES, storeIdsRef.current);
+    if (!storeId) {
+      setUnroutedDevices(prev => (prev.includes(deviceId) ? prev : [...prev, deviceId]));
+      return;
+    }
+    // Every store keeps a light live state for the overview wall; replays stay out of it.
+    if (!playerRef.current) monitorsRef.current.get(storeId)?.ingest(deviceId, data, calibrationsRef.current[deviceId], Date.now(), performance.now());
+    // Otherwise frames only ever touch the store they are routed to.
+    if (storeId !== currentStore.id) return;
+    deviceLastSeenRef.current.set(deviceId, Date.now());
+
+    const calibration = calibrationsRef.current[deviceId];
+    const projected: ProjectedTrack[] = [];
+    // Tracks we can't place this frame are held where they were rather than treated as exits.
+    const heldIds = new Set<string>();
+    data.plan_data.forEach(p => {
+      // Resolve plan position [x, y], through the device's homography if calibrated
+      const pos = projectTrack(p, calibration);
+      if (pos) {
+        projected.push({ plan: p, pos });
+      } else {
+        heldIds.add(p.track_id);
+        heldIds.add(`${deviceId}:${p.track_id}`);
+      }
+    });
+    const ingested = fusionRef.current.ingest(deviceId, projected, Date.now());
+    const stitched = stitchingRef.current
+      ? stitcherRef.current.apply(ingested, heldIds, Date.now())
+      : { tracks: ingested, held: heldIds, expired: new Map<string, number>(), merged: [] };
+    if (stitched.merged.length > 0) setMergedFragments(n => n + stitched.merged.length);
+    const fused = stitched.tracks;
+    if (fused.length > 0) lastActivityRef.current = Date.now();
+    fused.forEach(t => {
+      const seenBy = visitDevicesRef.current.get(t.id) ?? [];
+      t.devices.forEach(d => { if (!seenBy.includes(d)) seenBy.push(d); });
+      visitDevicesRef.current.set(t.id, seenBy);
+    });
+
+    const deviceConfig = DEVICES.find(d => d.deviceId === deviceId);
+    if (deviceConfig?.countsEntries !== false) {
+      backendCountersRef.current.observe(deviceId, data.entry_number, data.short_dwell_number);
+    }
+    const { entries: entryTotal, quickExits: shortDwellTotal } = backendCountersRef.current.totals();
+    if (!playerRef.current) kpiRecorderRef.current.observeCounters(entryTotal, shortDwellTotal);
+
+    // 1. Process Video Images
+    if (videoFeedsRef.current.ingest(deviceId, data, fused, Date.now())) {
+      const base64 = Object.values(data.video_image[0])[0];
+      // The calibration tool shows the picture as is, so it is only kept while frames are shown raw.
+      if (base64 && privacyRef.current.frameDisplay === 'raw') deviceFramesRef.current.set(deviceId, `data:image/jpeg;base64,${base64}`);
+      setCameraFeeds(videoFeedsRef.current.list());
+      setLiveDeviceId(deviceId);
+    }
+
+    // 2. Process Statistics
+    // entry_number and short_dwell_number are cumulative per device, see BackendCounters.
+    // Gender and age come from the visitors themselves, see demographicsRef.
+    setDailyStats(prev => ({
+      ...prev,
+      totalCustomers: entryTotal,
+      quickExits: shortDwellTotal,
+    }));
+
+    // 3. Process Customers (Plan Data)
+    const now = performance.now();
+    const { entered, exited } = simulationRef.current.sync(fused, stitched.held, now);
+    let crossed = false;
+    fused.forEach(t => {
+      if (entranceCounterRef.current.observe(t.id, t.pos, Date.now())) crossed = true;
+    });
+    entered.forEach(c => {
+      if (!entryTimesRef.current.has(c.id)) entryTimesRef.current.set(c.id, Date.now());
+      demographicsRef.current.observe(c);
     });
 
-    if (Math.floor(time) % 60 === 0) {
-      setHeatmap(new Float32Array(heatmapAccumulatorRef.current));
+    let exitedDwellMs = 0;
+    let exitedVisits = 0;
+    exited.forEach(c => {
+      // A visitor held for stitching really left when it was last seen.
+      const exitedAt = stitched.expired.get(c.id) ?? Date.now();
+      const fragments = stitcherRef.current.release(c.id);
+      if (entranceCounterRef.current.vanish(c.id, exitedAt)) crossed = true;
+      engagementRef.current.remove(c.id, now);
+      attentionRef.current.remove(c.id);
+      const visit = visitTrackerRef.current.finish(c.id, exitedAt);
+      const entryTime = entryTimesRef.current.get(c.id);
+      demographicsRef.current.exit(c, exitedAt - (entryTime ?? exitedAt));
+      if (visit && !playerRef.current) {
+        const meta = {
+          deviceIds: visitDevicesRef.current.get(c.id) ?? [],
+          fragments,
+          enteredAt: entryTime ?? visit.enteredAt,
+          ageBand: ageBandOf(c.age, DEMOGRAPHICS_CONFIG.ageBands),
+        };
+        const record = buildVisitRecord(visit, c, meta, storeZonesRef.current);
+        saveVisitRecord(privacyRef.current.hashTrackIds ? protectVisit(record, hashSalt) : record).catch(e => console.error('Failed to save visit record', e));
+      }
+      visitDevicesRef.current.delete(c.id);
+      if (entryTime) {
+        exitedDwellMs += exitedAt - entryTime;
+        exitedVisits++;
+        if (!playerRef.current) kpiRecorderRef.current.addVisit(exitedAt - entryTime);
+        entryTimesRef.current.delete(c.id);
+      }
+    });
+    if (crossed) setEntranceCounts(entranceCounterRef.current.totals());
+    if (exitedVisits > 0) {
+      setDailyStats(ds => ({
+        ...ds,
+        totalDwellTimeMs: ds.totalDwellTimeMs + exitedDwellMs,
+        completedVisits: ds.completedVisits + exitedVisits
+      }));
     }
+    setActiveCount(simulationRef.current.size);
+  };
+
+  // Frame loop: advances interpolation by real elapsed time, so motion, heat and
+  // dwell timing don't depend on the display's refresh rate.
+  const updateSimulation = useCallback((time: number) => {
+    // A backgrounded tab can hand us a multi-second gap; don't teleport or over-count heat.
+    const dtMs = Math.min(Math.max(time - lastTimeRef.current, 0), 250);
+    lastTimeRef.current = time;
+    const workStart = performance.now();
 
+    const simulation = simulationRef.current;
+    const heatmapLayers = heatmapLayersRef.current;
+    const wallNow = Date.now();
+    heatmapLayers.decay(dtMs);
+    simulation.step(dtMs, time);
+
+    for (const c of simulation.values()) {
+      // Update Heatmap: person-seconds spent in each cell
+      const gridX = Math.floor(c.pos.x / GRID_SIZE);
+      const gridY = Math.floor(c.pos.y / GRID_SIZE);
+      if (gridX >= 0 && gridX < heatmapLayers.cols && gridY >= 0 && gridY < heatmapLayers.rows) {
+        heatmapLayers.deposit(gridY * heatmapLayers.cols + gridX, dtMs / 1000, wallNow);
+      }
+
+      visitTrackerRef.current.sample(c.id, c.pos, wallNow);
+      const engagement = engagementRef.current.step(c.id, c.pos, time);
+      c.targetId = engagement.zoneId ?? 'unknown';
+      c.state = engagement.state;
+      c.browsingTimer = engagement.stillMs;
+      c.dwellStartTime = engagement.zoneEnteredAt;
+      c.hasCountedForZone = engagement.stopped;
+      attentionRef.current.step(c.id, c.pos, c.angle, dtMs, time);
+    }
+
+    const plan = storeRef.current;
+    const underlay = underlayRef.current && beginPlanFrame(underlayRef.current, plan.width, plan.height);
+    // An archived day shows its heatmap only; there are no visitors to draw.
+    const archived = archiveRef.current;
+    if (underlay) {
+      const heat = archived?.heatmap ?? heatmapLayers;
+      drawHeatmap(underlay, heatmapImageRef.current, heat.cols, heat.rows, GRID_SIZE);
+      if (!archived) drawTrails(underlay, simulation.values(), selectedTrackIdRef.current);
+    }
+    const overlay = overlayRef.current && beginPlanFrame(overlayRef.current, plan.width, plan.height);
+    if (overlay && !archived) {
+      const selected = selectedTrackIdRef.current ? simulation.get(selectedTrackIdRef.current) : undefined;
+      if (showAttentionRef.current) drawAttention(overlay, storeZonesRef.current, attentionStatsRef.current, attentionRef.current.gazes());
+      if (selected) drawSelection(overlay, selected, visitTrackerRef.current.trajectoryOf(selected.id), plan.width, plan.height);
+      drawAgents(overlay, simulation.values(), flaggedTracksRef.current, time, selected?.id, hoveredTrackIdRef.current, privacyRef.current.hideDemographics);
+      if (showMotionDebugRef.current) drawMotionDebug(overlay, simulation.values());
+    }
+
+    frameTimingRef.current.record(time, performance.now() - workStart, simulation.size);
     requestRef.current = requestAnimationFrame(updateSimulation);
-  }, [store.width, store.height]);
+  }, []);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(updateSimulation);
@@ -276,9 +1155,10 @@ const App: React.FC = () => {
   }, [updateSimulation]);
 
   const avgDwell = useMemo(() => {
-    if (dailyStats.completedVisits === 0) return 0;
-    return Math.floor(dailyStats.totalDwellTimeMs / dailyStats.completedVisits / 1000);
-  }, [dailyStats.totalDwellTimeMs, dailyStats.completedVisits]);
+    if (shownStats.completedVisits === 0) return 0;
+    return Math.floor(shownStats.totalDwellTimeMs / shownStats.completedVisits / 1000);
+  }, [shownStats.totalDwellTimeMs, shownStats.completedVisits]);
+  const storeOpen = isOpenAt(Date.now(), store);
 
   return (
     <div className="flex flex-col h-screen text-cyan-100 p-4 select-none bg-[#080810] font-mono">
@@ -289,73 +1169,185 @@ const App: React.FC = () => {
             <h1 className="text-2xl font-black tracking-[0.1em] text-cyan-400 uppercase">Retail Intelligent Command</h1>
             {!isConnected && <span className="text-red-500 text-xs font-bold animate-pulse px-2 py-0.5 border border-red-900/50 bg-red-950/30">OFFLINE</span>}
             {isConnected && <span className="text-emerald-500 text-xs font-bold px-2 py-0.5 border border-emerald-900/50 bg-emerald-950/30 flex items-center gap-1"><Wifi className="w-3 h-3"/> LIVE</span>}
+            {store.openingHours && (
+              <span className={`text-[10px] font-bold px-2 py-0.5 border ${storeOpen ? 'text-emerald-500 border-emerald-900/50 bg-emerald-950/30' : 'text-cyan-700 border-cyan-900/50 bg-cyan-950/30'}`}>
+                {storeOpen ? 'OPEN' : 'CLOSED'} {store.openingHours.open}–{store.openingHours.close}
+              </span>
+            )}
+            {unroutedDevices.length > 0 && (
+              <span
+                className="text-amber-500 text-[10px] font-bold px-2 py-0.5 border border-amber-900/50 bg-amber-950/30"
+                title={`No store configured for: ${unroutedDevices.join(', ')}`}
+              >
+                UNROUTED DEVICES: {unroutedDevices.length}
+              </span>
+            )}
           </div>
           
-          <div className="flex items-center gap-2 bg-cyan-950/30 border border-cyan-900/50 p-1.5 rounded-sm shadow-inner">
-            <MapIcon className="w-4 h-4 text-cyan-500" />
-            <select 
-              value={currentStoreIdx}
-              onChange={(e) => setCurrentStoreIdx(parseInt(e.target.value))}
-              className="bg-transparent text-cyan-300 text-[11px] font-black outline-none cursor-pointer appearance-none uppercase tracking-widest px-2"
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-2 bg-cyan-950/30 border border-cyan-900/50 p-1.5 rounded-sm shadow-inner">
+              <MapIcon className="w-4 h-4 text-cyan-500" />
+              <select 
+                value={currentStoreIdx}
+                onChange={(e) => { setCurrentStoreIdx(parseInt(e.target.value)); setEditSelection(null); }}
+                className="bg-transparent text-cyan-300 text-[11px] font-black outline-none cursor-pointer appearance-none uppercase tracking-widest px-2"
+              >
+                {stores.map((s, idx) => (
+                  <option key={s.id} value={idx} className="bg-[#080810]">{s.name}</option>
+                ))}
+              </select>
+              <ChevronDown className="w-3 h-3 text-cyan-700" />
+            </div>
+            <DayPicker days={archivedDays} selected={archive?.key ?? null} onSelect={openArchivedDay} />
+            <form
+              className={`flex items-center gap-1.5 bg-cyan-950/30 border p-1.5 rounded-sm ${trackQueryMissed ? 'border-red-500/60' : 'border-cyan-900/50'}`}
+              onSubmit={e => { e.preventDefault(); findTrack(trackQuery); }}
             >
-              {STORES.map((s, idx) => (
-                <option key={s.id} value={idx} className="bg-[#080810]">{s.name}</option>
-              ))}
-            </select>
-            <ChevronDown className="w-3 h-3 text-cyan-700" />
+              <Search className="w-3.5 h-3.5 text-cyan-600" />
+              <input
+                value={trackQuery}
+                onChange={e => { setTrackQuery(e.target.value); setTrackQueryMissed(false); }}
+                placeholder="Track id"
+                title={trackQueryMissed ? 'No live track matches' : 'Find a live track'}
+                className="bg-transparent text-cyan-300 text-[10px] font-black outline-none tracking-widest w-24 placeholder:text-cyan-900"
+              />
+            </form>
+            <ToolbarButton
+              icon={<LayoutGrid className="w-3.5 h-3.5" />}
+              label="Overview"
+              active={overview}
+              onClick={() => setOverview(v => !v)}
+            />
+            <ToolbarButton
+              icon={<PencilRuler className="w-3.5 h-3.5" />}
+              label="Edit Layout"
+              active={editMode}
+              badge={layoutErrors.length}
+              onClick={() => { setEditMode(m => !m); setEditSelection(null); }}
+            />
+            <ToolbarButton
+              icon={<Crosshair className="w-3.5 h-3.5" />}
+              label="Calibrate"
+              active={showCalibration}
+              disabled={privacy.frameDisplay !== 'raw'}
+              title={privacy.frameDisplay !== 'raw' ? 'Calibration needs camera frames shown raw (privacy settings)' : undefined}
+              onClick={() => setShowCalibration(true)}
+            />
+            <ToolbarButton
+              icon={<Stethoscope className="w-3.5 h-3.5" />}
+              label="Diagnostics"
+              active={showDiagnostics}
+              onClick={() => setShowDiagnostics(v => !v)}
+            />
+            <ToolbarButton
+              icon={<Server className="w-3.5 h-3.5" />}
+              label="Uplink"
+              active={showConnection}
+              badge={connectionHealth?.reconnects}
+              onClick={() => setShowConnection(true)}
+            />
+            <ToolbarButton
+              icon={<Link2 className="w-3.5 h-3.5" />}
+              label={stitching ? 'Stitch On' : 'Stitch Off'}
+              active={stitching}
+              badge={stitching ? mergedFragments : undefined}
+              onClick={toggleStitching}
+            />
+            <ToolbarButton
+              icon={<Eye className="w-3.5 h-3.5" />}
+              label="Attention"
+              active={showAttention}
+              onClick={() => setShowAttention(v => !v)}
+            />
+            <ToolbarButton
+              icon={<Route className="w-3.5 h-3.5" />}
+              label="Flows"
+              active={showFlows}
+              onClick={() => setShowFlows(true)}
+            />
+            <ToolbarButton
+              icon={<ClipboardList className="w-3.5 h-3.5" />}
+              label="Visits"
+              active={showVisitLog}
+              onClick={() => setShowVisitLog(true)}
+            />
+            <ToolbarButton
+              icon={<ChartLine className="w-3.5 h-3.5" />}
+              label="Trends"
+              active={showTrends}
+              onClick={() => setShowTrends(true)}
+            />
+            <ToolbarButton
+              icon={<GitCompare className="w-3.5 h-3.5" />}
+              label="Compare"
+              active={showComparison}
+              onClick={() => setShowComparison(true)}
+            />
+            <ToolbarButton
+              icon={<Shield className="w-3.5 h-3.5" />}
+              label="Privacy"
+              active={privacy.frameDisplay !== 'raw' || privacy.hideDemographics}
+              onClick={() => setShowPrivacy(true)}
+            />
+            <ToolbarButton
+              icon={<Gauge className="w-3.5 h-3.5" />}
+              label="Perf"
+              active={showPerf}
+              onClick={() => setShowPerf(v => !v)}
+            />
           </div>
         </div>
         
         <div className="flex gap-12 bg-cyan-950/10 p-4 rounded-sm border border-cyan-900/20">
-          <StatBox icon={<Users className="w-4 h-4" />} label="ACTIVE NOW" value={customers.length.toString()} color="text-cyan-400" />
-          <StatBox icon={<Activity className="w-4 h-4" />} label="TOTAL VISITS" value={dailyStats.totalCustomers.toString()} color="text-emerald-400" />
-          <StatBox icon={<LogOut className="w-4 h-4" />} label="QUICK EXITS" value={dailyStats.quickExits.toString()} color="text-red-400" />
+          <StatBox icon={<Users className="w-4 h-4" />} label="ACTIVE NOW" value={archive ? '—' : activeCount.toString()} color="text-cyan-400" />
+          <StatBox icon={<Activity className="w-4 h-4" />} label="TOTAL VISITS" value={shownStats.totalCustomers.toString()} color="text-emerald-400" />
+          <StatBox icon={<LogOut className="w-4 h-4" />} label="QUICK EXITS" value={shownStats.quickExits.toString()} color="text-red-400" />
         </div>
       </header>
 
-      <main className="flex-1 flex gap-6 overflow-hidden">
-        <aside className="w-80 flex flex-col gap-4">
-          <div className="bg-black border border-cyan-900/60 rounded-sm overflow-hidden relative flex-[0.5] min-h-[300px]">
-            <div className="absolute top-3 left-3 flex items-center gap-2 text-[10px] font-bold text-red-500 animate-pulse z-20">
-              <Camera className="w-3.5 h-3.5" /> LIVE STREAMING
-            </div>
-            <div className="absolute top-3 right-3 text-[9px] text-cyan-700 z-20 font-mono bg-black/80 px-2 py-0.5 border border-cyan-900/30">
-              {store.id.toUpperCase()}_SURVEILLANCE
-            </div>
-            
-            <div className="w-full h-full flex items-center justify-center bg-[#05050c] relative overflow-hidden">
-              {liveImage ? (
-                <img src={liveImage} alt="Live Feed" className="w-full h-full object-cover opacity-80" />
-              ) : (
-                <>
-                  <div className="absolute inset-0 opacity-10 pointer-events-none" 
-                      style={{ backgroundImage: 'linear-gradient(rgba(18, 16, 16, 0) 50%, rgba(0, 0, 0, 0.4) 50%), linear-gradient(90deg, rgba(255, 0, 0, 0.05), rgba(0, 255, 0, 0.02), rgba(0, 0, 255, 0.05))', backgroundSize: '100% 4px, 4px 100%' }} />
-                  
-                  <div className="relative flex flex-col items-center gap-4 opacity-20">
-                    <Users className="w-20 h-20 text-cyan-900" />
-                    <div className="text-[10px] text-cyan-900 uppercase tracking-[0.4em] font-black">Waiting for Visual Node...</div>
-                  </div>
-
-                  <div className="absolute bottom-0 w-full h-[1px] bg-cyan-400 shadow-[0_0_15px_#06b6d4] animate-[scan_5s_linear_infinite]" />
-                </>
-              )}
+      {overview && (
+        <OverviewWall
+          stores={stores}
+          monitors={monitorsRef.current}
+          currentStoreId={store.id}
+          currentAlerts={alerts}
+          onOpen={storeId => {
+            setCurrentStoreIdx(stores.findIndex(s => s.id === storeId));
+            setEditSelection(null);
+            setOverview(false);
+          }}
+        />
+      )}
 
-              {/* Overlay graphics */}
-              <div className="absolute top-4 left-4 w-6 h-6 border-t-2 border-l-2 border-cyan-500/30" />
-              <div className="absolute top-4 right-4 w-6 h-6 border-t-2 border-r-2 border-cyan-500/30" />
-              <div className="absolute bottom-4 left-4 w-6 h-6 border-b-2 border-l-2 border-cyan-500/30" />
-              <div className="absolute bottom-4 right-4 w-6 h-6 border-b-2 border-r-2 border-cyan-500/30" />
-            </div>
-          </div>
+      {/* Kept mounted under the wall so the full view's live state carries on. */}
+      <main className={`flex-1 flex gap-6 overflow-hidden ${overview ? 'hidden' : ''}`}>
+        <aside className="w-80 flex flex-col gap-4">
+          <VideoPanel
+            storeId={store.id}
+            feeds={cameraFeeds}
+            display={privacy.frameDisplay}
+            hideDemographics={privacy.hideDemographics}
+            calibrations={calibrations}
+            getAgent={id => simulationRef.current.get(id)}
+            selectedId={selectedTrackId}
+            hoveredId={hoveredTrackId}
+            onHover={setHoveredTrackId}
+            onSelect={setSelectedTrackId}
+          />
 
-          <div className="flex-1 bg-cyan-950/10 border border-cyan-900/30 p-6 rounded-sm backdrop-blur-md flex flex-col">
-            <h3 className="text-[11px] font-black text-cyan-500 mb-8 flex items-center gap-2 uppercase tracking-[0.2em] border-l-4 border-cyan-600 pl-3">
+          <div className="flex-1 bg-cyan-950/10 border border-cyan-900/30 p-6 rounded-sm backdrop-blur-md flex flex-col overflow-y-auto">
+            <h3 className="text-[11px] font-black text-cyan-500 mb-6 flex items-center gap-2 uppercase tracking-[0.2em] border-l-4 border-cyan-600 pl-3">
               Visitor Demographics
             </h3>
             
-            <div className="space-y-10">
-              <DemographicRow icon={<User className="w-6 h-6 text-pink-500" />} label="Female Visitors" value={dailyStats.femaleCount} color="text-pink-400" />
-              <DemographicRow icon={<User className="w-6 h-6 text-cyan-500" />} label="Male Visitors" value={dailyStats.maleCount} color="text-cyan-400" />
+            <div className="space-y-6">
+              <DemographicRow icon={<User className="w-6 h-6 text-pink-500" />} label={`Female Visitors ${archive ? 'That Day' : 'Today'}`} value={sumCells(shownDemographics.today, c => c.gender === Gender.FEMALE).visitors} color="text-pink-400" />
+              <DemographicRow icon={<User className="w-6 h-6 text-cyan-500" />} label={`Male Visitors ${archive ? 'That Day' : 'Today'}`} value={sumCells(shownDemographics.today, c => c.gender === Gender.MALE).visitors} color="text-cyan-400" />
+              {unknownGenderVisitors > 0 && (
+                <DemographicRow icon={<User className="w-6 h-6 text-slate-400" />} label={`Gender Unknown ${archive ? 'That Day' : 'Today'}`} value={unknownGenderVisitors} color="text-slate-400" />
+              )}
+
+              <DemographicBreakdown bands={ageBandLabels} live={shownDemographics.live} today={shownDemographics.today} />
               
               <div className="pt-6 border-t border-cyan-900/20">
                 <div className="flex items-center justify-between">
@@ -377,118 +1369,346 @@ const App: React.FC = () => {
         </aside>
 
         <section className="flex-1 relative bg-[#020205] border border-cyan-900/50 rounded-sm overflow-hidden flex items-center justify-center shadow-inner">
+          {flagged.store && <div className="absolute inset-0 border-4 border-red-500/70 animate-pulse pointer-events-none z-10" />}
           <div className="absolute inset-0 pointer-events-none opacity-5">
              <div className="h-full w-full" style={{ backgroundImage: 'radial-gradient(circle, #06b6d4 1.2px, transparent 1.2px)', backgroundSize: '40px 40px' }} />
           </div>
 
-          <svg 
-            viewBox={`0 0 ${store.width} ${store.height}`} 
-            className="w-full h-full max-h-[95%]"
-            preserveAspectRatio="xMidYMid meet"
-          >
-            <g opacity="0.6">
-              {Array.from({ length: Math.ceil(store.height / GRID_SIZE) }).map((_, r) => 
-                Array.from({ length: Math.ceil(store.width / GRID_SIZE) }).map((_, c) => {
-                  const idx = r * Math.ceil(store.width / GRID_SIZE) + c;
-                  const val = heatmap[idx];
-                  if (val < 0.1 || isNaN(val)) return null;
-                  const opacity = Math.min(val / 15, 0.9);
-                  let color = '#06b6d4';
-                  if (val > 25) color = '#ef4444';
-                  else if (val > 12) color = '#f59e0b';
-                  
-                  return (
+          <PlanViewport width={store.width} height={store.height}>
+            <canvas ref={underlayRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+            <svg 
+              viewBox={`0 0 ${store.width} ${store.height}`} 
+              className="absolute inset-0 w-full h-full"
+              preserveAspectRatio="xMidYMid meet"
+              onClick={selectAgentAt}
+              onMouseMove={hoverAgentAt}
+              onMouseLeave={() => setHoveredTrackId(null)}
+            >
+              <g>
+                <rect 
+                  x="2" y="2" width={store.width-4} height={store.height-4} 
+                  fill="none" stroke="#06b6d4" strokeWidth="2.5"
+                  className="neon-glow opacity-80"
+                />
+                <rect 
+                  x="12" y="12" width={store.width-24} height={store.height-24} 
+                  fill="none" stroke="#06b6d4" strokeWidth="1"
+                  className="opacity-30"
+                />
+                <path d={`M 2 50 L 2 2 L 50 2`} fill="none" stroke="#06b6d4" strokeWidth="5" className="neon-glow" />
+                <path d={`M ${store.width-50} 2 L ${store.width-2} 2 L ${store.width-2} 50`} fill="none" stroke="#06b6d4" strokeWidth="5" className="neon-glow" />
+                <path d={`M 2 ${store.height-50} L 2 ${store.height-2} L 50 ${store.height-2}`} fill="none" stroke="#06b6d4" strokeWidth="5" className="neon-glow" />
+                <path d={`M ${store.width-50} ${store.height-2} L ${store.width-2} ${store.height-2} L ${store.width-2} ${store.height-50}`} fill="none" stroke="#06b6d4" strokeWidth="5" className="neon-glow" />
+              </g>
+  
+              <path 
+                d={`M ${countingLine.a.x} ${countingLine.a.y} L ${countingLine.b.x} ${countingLine.b.y}`} 
+                stroke="#06b6d4" strokeWidth="8" className="neon-glow shadow-[0_0_15px_#06b6d4]"
+              />
+              <text x={store.entrance.x} y={store.entrance.y + 28} textAnchor="middle" fill="#06b6d4" fontSize="11" fontWeight="bold" className="opacity-50 tracking-[0.5em]">COOLER_ACCESS</text>
+              {/* Counting direction: "in" points into the store */}
+              <path
+                d={`M ${store.entrance.x} ${store.entrance.y + countingLine.inward * 12} l 0 ${countingLine.inward * 30} m -8 ${-countingLine.inward * 10} l 8 ${countingLine.inward * 10} l 8 ${-countingLine.inward * 10}`}
+                stroke="#34d399" strokeWidth="2" fill="none" className="opacity-70"
+              />
+              <text x={countingLine.b.x + 12} y={store.entrance.y + countingLine.inward * 30} fill="#34d399" fontSize="11" fontWeight="bold" className="tabular-nums">IN {shownEntranceCounts.entries}</text>
+              <text x={countingLine.b.x + 12} y={store.entrance.y + countingLine.inward * 14} fill="#f87171" fontSize="11" fontWeight="bold" className="tabular-nums">OUT {shownEntranceCounts.exits}</text>
+  
+              <text x={store.width/2} y={store.height/2 + 20} textAnchor="middle" fill="#06b6d4" fontSize="24" fontWeight="black" className="opacity-5 tracking-[0.2em] font-sans">DAIRY WALK-IN COOLER</text>
+              <text x={store.width/2} y={store.height/2 + 50} textAnchor="middle" fill="#06b6d4" fontSize="14" fontWeight="bold" className="opacity-5 tracking-[0.3em]">127 m²</text>
+  
+              {store.racks.map(r => {
+                const score = zoneScores.get(r.id) ?? 0;
+                const engagedColor = engagementColor(score);
+                return (
+                  <g key={r.id}>
                     <rect 
-                      key={`${r}-${c}`}
-                      x={c * GRID_SIZE} 
-                      y={r * GRID_SIZE} 
-                      width={GRID_SIZE} 
-                      height={GRID_SIZE} 
-                      fill={color}
-                      opacity={opacity}
-                      className="transition-all duration-1000"
+                      x={r.pos.x - r.w/2} y={r.pos.y - r.h/2} 
+                      width={r.w} height={r.h} 
+                      fill="#06b6d408" stroke="#06b6d4" strokeWidth="1.2"
+                      className="opacity-40"
                     />
-                  );
-                })
+                    {score > 0 && (
+                      <rect 
+                        x={r.pos.x - r.w/2} y={r.pos.y - r.h/2} 
+                        width={r.w} height={r.h} 
+                        fill={engagedColor} fillOpacity={0.1 + score * 0.4} stroke={engagedColor} strokeWidth="1.5"
+                        className="transition-all duration-1000"
+                      />
+                    )}
+                    {flagged.zones.has(r.id) && (
+                      <rect
+                        x={r.pos.x - r.w/2 - 3} y={r.pos.y - r.h/2 - 3}
+                        width={r.w + 6} height={r.h + 6}
+                        fill="none" stroke="#ef4444" strokeWidth="2.5"
+                        className="animate-pulse"
+                      />
+                    )}
+                    <text x={r.pos.x} y={r.pos.y + 3} textAnchor="middle" fill="#06b6d4" fontSize="7" fontWeight="bold" className="opacity-50 font-sans tracking-tighter uppercase">{r.label}</text>
+                  </g>
+                );
+              })}
+  
+              {store.islands.map(isl => {
+                const score = zoneScores.get(isl.id) ?? 0;
+                return (
+                  <g key={isl.id}>
+                    {isl.label.includes('PENTAGON') ? (
+                      <polygon 
+                        points={`${isl.rect.x + isl.rect.w / 2},${isl.rect.y} ${isl.rect.x + isl.rect.w},${isl.rect.y + isl.rect.h * 0.4} ${isl.rect.x + isl.rect.w * 0.8},${isl.rect.y + isl.rect.h} ${isl.rect.x + isl.rect.w * 0.2},${isl.rect.y + isl.rect.h} ${isl.rect.x},${isl.rect.y + isl.rect.h * 0.4}`}
+                        fill="#10b98110" stroke="#10b981" strokeWidth="2"
+                        className="neon-glow-emerald opacity-60"
+                      />
+                    ) : (
+                      <rect 
+                        x={isl.rect.x} y={isl.rect.y} width={isl.rect.w} height={isl.rect.h} 
+                        fill="#10b98105" stroke="#10b981" strokeWidth="1.5" strokeDasharray="6 3"
+                        className="opacity-30"
+                      />
+                    )}
+                    {score > 0 && (
+                      <rect 
+                        x={isl.rect.x} y={isl.rect.y} width={isl.rect.w} height={isl.rect.h} 
+                        fill={engagementColor(score)} fillOpacity={0.08 + score * 0.3}
+                        className="transition-all duration-1000"
+                      />
+                    )}
+                    {flagged.zones.has(isl.id) && (
+                      <rect
+                        x={isl.rect.x - 3} y={isl.rect.y - 3} width={isl.rect.w + 6} height={isl.rect.h + 6}
+                        fill="none" stroke="#ef4444" strokeWidth="2.5"
+                        className="animate-pulse"
+                      />
+                    )}
+                    <text x={isl.rect.x + isl.rect.w/2} y={isl.rect.y + isl.rect.h + 15} textAnchor="middle" fill="#10b981" fontSize="10" fontWeight="black" className="opacity-40 tracking-[0.2em] uppercase">{isl.label}</text>
+                  </g>
+                );
+              })}
+  
+              {storeDeviceAreas.map(d => (
+                <g key={`area-${d.deviceId}`} className={flagged.devices.has(d.deviceId) ? 'animate-pulse' : 'opacity-30'}>
+                  <rect x={d.area!.x} y={d.area!.y} width={d.area!.w} height={d.area!.h} fill="none" stroke={flagged.devices.has(d.deviceId) ? '#ef4444' : '#8b5cf6'} strokeWidth="1.5" strokeDasharray="10 6" />
+                  <text x={d.area!.x + 8} y={d.area!.y + 18} fill="#8b5cf6" fontSize="11" fontWeight="bold" className="tracking-widest uppercase">{d.deviceId}</text>
+                </g>
+              ))}
+  
+              {editMode && (
+                <LayoutEditorLayer store={store} selection={editSelection} onSelect={setEditSelection} onChange={updateStoreLayout} />
               )}
-            </g>
+            </svg>
+            <canvas ref={overlayRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+          </PlanViewport>
 
-            <g>
-              <rect 
-                x="2" y="2" width={store.width-4} height={store.height-4} 
-                fill="none" stroke="#06b6d4" strokeWidth="2.5"
-                className="neon-glow opacity-80"
+          {showPerf && (
+            <div className="absolute top-3 right-3 z-20 flex flex-col items-end gap-2">
+              <PerfOverlay timing={frameTimingRef.current} />
+              <MotionTuning
+                config={motionConfig}
+                showDebug={showMotionDebug}
+                onChange={setMotionConfig}
+                onToggleDebug={() => setShowMotionDebug(v => !v)}
+                onReset={() => setMotionConfig(MOTION_CONFIG)}
               />
-              <rect 
-                x="12" y="12" width={store.width-24} height={store.height-24} 
-                fill="none" stroke="#06b6d4" strokeWidth="1"
-                className="opacity-30"
-              />
-              <path d={`M 2 50 L 2 2 L 50 2`} fill="none" stroke="#06b6d4" strokeWidth="5" className="neon-glow" />
-              <path d={`M ${store.width-50} 2 L ${store.width-2} 2 L ${store.width-2} 50`} fill="none" stroke="#06b6d4" strokeWidth="5" className="neon-glow" />
-              <path d={`M 2 ${store.height-50} L 2 ${store.height-2} L 50 ${store.height-2}`} fill="none" stroke="#06b6d4" strokeWidth="5" className="neon-glow" />
-              <path d={`M ${store.width-50} ${store.height-2} L ${store.width-2} ${store.height-2} L ${store.width-2} ${store.height-50}`} fill="none" stroke="#06b6d4" strokeWidth="5" className="neon-glow" />
-            </g>
-
-            <path 
-              d={`M ${store.entrance.x - 70} ${store.entrance.y} L ${store.entrance.x + 70} ${store.entrance.y}`} 
-              stroke="#06b6d4" strokeWidth="8" className="neon-glow shadow-[0_0_15px_#06b6d4]"
+            </div>
+          )}
+
+          {archive ? (
+            <div className="absolute top-3 left-3 z-20 flex items-center gap-2 bg-black/80 border border-amber-500/60 p-2 text-[10px] font-black uppercase tracking-widest text-amber-400">
+              <Archive className="w-3.5 h-3.5" /> Archive · {archive.key} · Read-only
+              <button className="ml-2 px-2 py-1 border border-cyan-900/50 text-cyan-300 hover:border-cyan-500/60" onClick={() => setArchive(null)}>
+                Back to live
+              </button>
+            </div>
+          ) : (
+            <HeatmapControls
+              view={heatmapView}
+              hour={heatmapHour}
+              scale={heatScale}
+              persistent={!replaySession}
+              onViewChange={selectHeatmapView}
+              onHourChange={setHeatmapHour}
+              onExportPng={() => void exportHeatmap('png')}
+              onExportCsv={() => void exportHeatmap('csv')}
             />
-            <text x={store.entrance.x} y={store.entrance.y + 28} textAnchor="middle" fill="#06b6d4" fontSize="11" fontWeight="bold" className="opacity-50 tracking-[0.5em]">COOLER_ACCESS</text>
+          )}
 
-            <text x={store.width/2} y={store.height/2 + 20} textAnchor="middle" fill="#06b6d4" fontSize="24" fontWeight="black" className="opacity-5 tracking-[0.2em] font-sans">DAIRY WALK-IN COOLER</text>
-            <text x={store.width/2} y={store.height/2 + 50} textAnchor="middle" fill="#06b6d4" fontSize="14" fontWeight="bold" className="opacity-5 tracking-[0.3em]">127 m²</text>
+          <SessionControls
+            recording={recording}
+            recordingError={recordingError}
+            onStartRecording={startRecording}
+            onStopRecording={stopRecording}
+            replaySession={replaySession}
+            replayStatus={replayStatus}
+            onLoadReplay={loadReplay}
+            onExitReplay={exitReplay}
+            onPlay={() => playerRef.current?.play()}
+            onPause={() => playerRef.current?.pause()}
+            onSpeed={speed => playerRef.current?.setSpeed(speed)}
+            onSeek={ms => playerRef.current?.seek(ms)}
+            stripDemographics={privacy.minGroupSize > 1}
+          />
+        </section>
 
-            {store.racks.map((r, i) => (
-              <g key={`rack-${i}`}>
-                <rect 
-                  x={r.pos.x - r.w/2} y={r.pos.y - r.h/2} 
-                  width={r.w} height={r.h} 
-                  fill="#06b6d408" stroke="#06b6d4" strokeWidth="1.2"
-                  className="opacity-40"
+        <aside className="w-72 flex flex-col gap-4">
+          {editMode ? (
+            <LayoutEditorPanel
+              store={store}
+              revision={layouts[currentStoreIdx].revision}
+              effectiveFrom={layouts[currentStoreIdx].effectiveFrom}
+              onEffectiveFromChange={day => updateStoreLayout(store, day)}
+              selection={editSelection}
+              errors={layoutErrors}
+              onSelect={setEditSelection}
+              onChange={updateStoreLayout}
+              onExport={exportLayout}
+              onImport={importLayout}
+              onRevert={revertLayout}
+              onDone={() => { setEditMode(false); setEditSelection(null); }}
+            />
+          ) : (
+            <>
+              {selectedTrackId && (
+                <TrackInspector
+                  trackId={selectedTrackId}
+                  zones={storeZones}
+                  getSnapshot={getTrackSnapshot}
+                  hideDemographics={privacy.hideDemographics}
+                  onClose={() => setSelectedTrackId(null)}
                 />
-                <text x={r.pos.x} y={r.pos.y + 3} textAnchor="middle" fill="#06b6d4" fontSize="7" fontWeight="bold" className="opacity-50 font-sans tracking-tighter uppercase">{r.label}</text>
-              </g>
-            ))}
-
-            {store.islands.map((isl, i) => (
-              <g key={`isl-${i}`}>
-                {isl.label.includes('PENTAGON') ? (
-                  <polygon 
-                    points={`${isl.rect.x + isl.rect.w / 2},${isl.rect.y} ${isl.rect.x + isl.rect.w},${isl.rect.y + isl.rect.h * 0.4} ${isl.rect.x + isl.rect.w * 0.8},${isl.rect.y + isl.rect.h} ${isl.rect.x + isl.rect.w * 0.2},${isl.rect.y + isl.rect.h} ${isl.rect.x},${isl.rect.y + isl.rect.h * 0.4}`}
-                    fill="#10b98110" stroke="#10b981" strokeWidth="2"
-                    className="neon-glow-emerald opacity-60"
-                  />
-                ) : (
-                  <rect 
-                    x={isl.rect.x} y={isl.rect.y} width={isl.rect.w} height={isl.rect.h} 
-                    fill="#10b98105" stroke="#10b981" strokeWidth="1.5" strokeDasharray="6 3"
-                    className="opacity-30"
-                  />
-                )}
-                <text x={isl.rect.x + isl.rect.w/2} y={isl.rect.y + isl.rect.h + 15} textAnchor="middle" fill="#10b981" fontSize="10" fontWeight="black" className="opacity-40 tracking-[0.2em] uppercase">{isl.label}</text>
-              </g>
-            ))}
-
-            {customers.map(c => (
-              <CustomerAgent key={c.id} customer={c} />
-            ))}
-          </svg>
-        </section>
+              )}
+              <AlertFeed
+                storeId={store.id}
+                alerts={alerts}
+                paused={!!replaySession}
+                soundOn={alertSound}
+                onToggleSound={() => setAlertSound(v => !v)}
+                onAcknowledge={acknowledgeAlerts}
+                onEditRules={() => setShowAlertRules(true)}
+              />
+              <EntranceReconciliation
+                backend={{ entries: shownStats.totalCustomers, quickExits: shownStats.quickExits }}
+                local={shownEntranceCounts}
+                quickExitMs={entranceConfig.quickExitMs}
+                toleranceRatio={entranceConfig.toleranceRatio}
+                onQuickExitChange={ms => setEntranceConfig(cfg => ({ ...cfg, quickExitMs: ms }))}
+              />
+              {showAttention ? (
+                <AttentionPanel
+                  stats={shownAttentionStats}
+                  dwell={shownZoneStats}
+                  mode={attentionConfig.mode}
+                  onModeChange={mode => setAttentionConfig(cfg => ({ ...cfg, mode }))}
+                />
+              ) : (
+                <RackPerformancePanel
+                  stats={shownZoneStats}
+                  browseThresholdMs={engagementConfig.browseThresholdMs}
+                  onBrowseThresholdChange={ms => setEngagementConfig(cfg => ({ ...cfg, browseThresholdMs: ms }))}
+                />
+              )}
+            </>
+          )}
+        </aside>
       </main>
 
       <footer className="h-10 flex justify-between items-center mt-4 border-t border-cyan-900/20 opacity-40">
          <div className="text-[10px] font-black tracking-[0.4em] text-cyan-800 uppercase">System: Makro_Coldroom_Monitoring_v6.1</div>
-         <div className="flex items-center gap-8 text-[9px] text-cyan-800 font-mono">
-            <span>UPLINK_STABLE</span>
-            <span>DATA_FLOW_OPTIMIZED</span>
-            <div className="flex items-center gap-2">
-               <div className={`w-2.5 h-2.5 rounded-full animate-pulse shadow-[0_0_10px_currentColor] ${isConnected ? 'bg-emerald-500 text-emerald-500' : 'bg-red-500 text-red-500'}`} />
-               <span className="uppercase font-black">{isConnected ? 'Sync Verified' : 'Sync Disconnected'}</span>
-            </div>
-         </div>
+         <ConnectionFooter health={connectionHealth} onOpenSettings={() => setShowConnection(true)} />
       </footer>
 
+      {showConnection && (
+        <ConnectionSettingsPanel
+          settings={connection.settings}
+          source={connection.source}
+          health={connectionHealth}
+          devices={[...new Set([...DEVICES.map(d => d.deviceId), ...knownDevices])]}
+          onSave={saveConnection}
+          onReset={resetConnection}
+          onClose={() => setShowConnection(false)}
+        />
+      )}
+
+      {showPrivacy && (
+        <PrivacyPanel
+          settings={privacy}
+          lastPurgeAt={lastPurgeAt}
+          onSave={savePrivacy}
+          onPurgeNow={retention => void purgeExpired(retention)}
+          onClose={() => setShowPrivacy(false)}
+        />
+      )}
+
+      {showDiagnostics && (
+        <DiagnosticsDrawer diagnostics={diagnosticsRef.current} onClose={() => setShowDiagnostics(false)} />
+      )}
+
+      {showAlertRules && (
+        <AlertRulesEditor
+          storeId={store.id}
+          storeName={store.name}
+          rules={storeAlertRules}
+          zones={storeZones}
+          devices={[...new Set([...DEVICES.filter(d => d.storeId === store.id).map(d => d.deviceId), ...knownDevices])]}
+          onSave={rules => { setAlertRules(saveStoreRules(store.id, rules)); setShowAlertRules(false); }}
+          onReset={() => { setAlertRules(resetStoreRules(store.id)); setShowAlertRules(false); }}
+          onClose={() => setShowAlertRules(false)}
+        />
+      )}
+
+      {showFlows && (
+        <FlowAnalytics
+          storeName={store.name}
+          zones={storeZones}
+          minZoneMs={FLOW_CONFIG.minZoneMs}
+          getVisits={getCompletedVisits}
+          onClose={() => setShowFlows(false)}
+        />
+      )}
+
+      {showVisitLog && (
+        <VisitLog
+          storeId={store.id}
+          storeName={store.name}
+          timeZone={storeTimeZone(store)}
+          zones={storeZones}
+          minGroupSize={privacy.minGroupSize}
+          hashSalt={privacy.hashTrackIds ? hashSalt : null}
+          onClose={() => setShowVisitLog(false)}
+        />
+      )}
+
+      {showTrends && (
+        <TrendsPanel
+          storeId={store.id}
+          storeName={store.name}
+          timeZone={storeTimeZone(store)}
+          onClose={() => setShowTrends(false)}
+        />
+      )}
+
+      {showComparison && (
+        <LayoutComparison
+          storeId={store.id}
+          storeName={store.name}
+          store={store}
+          today={businessDay.key}
+          onClose={() => setShowComparison(false)}
+        />
+      )}
+
+      {showCalibration && privacy.frameDisplay === 'raw' && (
+        <CalibrationTool
+          store={store}
+          devices={knownDevices}
+          initialDeviceId={liveDeviceId ?? undefined}
+          calibrations={calibrations}
+          getFrame={id => deviceFramesRef.current.get(id)}
+          onSave={cal => setCalibrations(saveCalibration(cal))}
+          onRemove={id => setCalibrations(removeCalibration(id))}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
+
       <style>{`
         @keyframes scan { 0% { top: 0; } 100% { top: 100%; } }
       `}</style>
@@ -517,50 +1737,4 @@ const DemographicRow: React.FC<{ icon: React.ReactNode, label: string, value: nu
   </div>
 );
 
-const CustomerAgent: React.FC<{ customer: Customer }> = ({ customer }) => {
-  const coneLength = 90;
-  const coneAngle = 35;
-  const angleRad = (customer.angle * Math.PI) / 180;
-  
-  const p1x = customer.pos.x + coneLength * Math.cos(angleRad - (coneAngle * Math.PI) / 180);
-  const p1y = customer.pos.y + coneLength * Math.sin(angleRad - (coneAngle * Math.PI) / 180);
-  const p2x = customer.pos.x + coneLength * Math.cos(angleRad + (coneAngle * Math.PI) / 180);
-  const p2y = customer.pos.y + coneLength * Math.sin(angleRad + (coneAngle * Math.PI) / 180);
-
-  return (
-    <g>
-      {/* Short trail for history */}
-      <polyline 
-        points={customer.path.map(p => `${p.x},${p.y}`).join(' ')} 
-        fill="none" 
-        stroke={customer.color} 
-        strokeWidth="0.8" 
-        strokeOpacity="0.12" 
-        strokeDasharray="4,4"
-      />
-      {/* Vision Cone */}
-      <path 
-        d={`M ${customer.pos.x} ${customer.pos.y} L ${p1x} ${p1y} A ${coneLength} ${coneLength} 0 0 1 ${p2x} ${p2y} Z`}
-        fill={`url(#grad-${customer.id})`}
-        fillOpacity="0.5"
-      />
-      <defs>
-        <radialGradient id={`grad-${customer.id}`} cx="0" cy="0" r="1" gradientUnits="userSpaceOnUse" gradientTransform={`translate(${customer.pos.x} ${customer.pos.y}) rotate(${customer.angle}) scale(${coneLength})`}>
-          <stop stopColor={customer.color} stopOpacity="0.5" />
-          <stop offset="1" stopColor={customer.color} stopOpacity="0" />
-        </radialGradient>
-      </defs>
-      {/* Agent Dot */}
-      <circle cx={customer.pos.x} cy={customer.pos.y} r="5.5" fill="#000" stroke={customer.color} strokeWidth="2.5" className="neon-glow shadow-lg" />
-      {/* Label Tag */}
-      <g transform={`translate(${customer.pos.x + 10}, ${customer.pos.y - 15})`}>
-        <rect width="65" height="14" fill="black" opacity="0.85" stroke={customer.color} strokeWidth="0.5" />
-        <text x="4" y="10" fill={customer.color} fontSize="9" fontWeight="black" className="font-mono">
-          {customer.gender === Gender.FEMALE ? 'F' : 'M'}_{customer.age || 'Unk'}_{customer.id.slice(-4)}
-        </text>
-      </g>
-    </g>
-  );
-};
-
 export default App;
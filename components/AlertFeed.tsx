@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { BellRing, Check, CheckCheck, Settings2, Volume2, VolumeX } from 'lucide-react';
+import { Alert } from '../types';
+import { listAlertHistory } from '../services/alertEngine';
+import { ALERT_RULE_TYPES } from '../services/alertRules';
+
+interface AlertFeedProps {
+  storeId: string;
+  alerts: Alert[];
+  paused: boolean;
+  soundOn: boolean;
+  onToggleSound: () => void;
+  onAcknowledge: (ids: string[]) => void;
+  onEditRules: () => void;
+}
+
+const SEVERITY_CLASS: Record<Alert['severity'], string> = {
+  critical: 'border-red-500/60 bg-red-950/30 text-red-400',
+  warning: 'border-amber-500/50 bg-amber-950/20 text-amber-400',
+};
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const iconButton = 'p-1 border border-cyan-900/50 hover:border-cyan-500/60';
+
+const AlertRow: React.FC<{ alert: Alert; onAcknowledge?: () => void }> = ({ alert, onAcknowledge }) => {
+  const live = !alert.clearedAt;
+  return (
+    <div className={`border px-2 py-1.5 text-[10px] ${SEVERITY_CLASS[alert.severity]} ${live && !alert.acknowledgedAt ? 'animate-pulse' : 'opacity-70'}`}>
+      <div className="flex items-center gap-2">
+        <span className="font-black uppercase tracking-widest">{ALERT_RULE_TYPES[alert.type].label}</span>
+        <span className="ml-auto text-cyan-700 tabular-nums">{formatTime(alert.raisedAt)}</span>
+        {onAcknowledge && !alert.acknowledgedAt && (
+          <button className={iconButton} title="Acknowledge" onClick={onAcknowledge}>
+            <Check className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      <div className="text-cyan-200 mt-0.5">{alert.message}</div>
+      <div className="text-[9px] text-cyan-800 uppercase tracking-widest mt-0.5">
+        {live ? 'active' : `cleared ${formatTime(alert.clearedAt!)}`}
+        {alert.acknowledgedAt && ` · ack ${formatTime(alert.acknowledgedAt)}`}
+      </div>
+    </div>
+  );
+};
+
+export const AlertFeed: React.FC<AlertFeedProps> = ({ storeId, alerts, paused, soundOn, onToggleSound, onAcknowledge, onEditRules }) => {
+  const [tab, setTab] = useState<'feed' | 'history'>('feed');
+  const [history, setHistory] = useState<Alert[]>([]);
+  const unacked = alerts.filter(a => !a.acknowledgedAt);
+
+  useEffect(() => {
+    if (tab !== 'history') return;
+    const load = () => listAlertHistory(storeId).then(setHistory).catch(e => console.error('Failed to load alert history', e));
+    load();
+    const timer = setInterval(load, 5000);
+    return () => clearInterval(timer);
+  }, [tab, storeId]);
+
+  const list = tab === 'feed' ? alerts : history;
+
+  return (
+    <div className="bg-cyan-950/10 border border-cyan-900/30 p-4 rounded-sm flex flex-col max-h-[45%] min-h-[140px]">
+      <div className="flex items-center gap-2 mb-3">
+        <h3 className="text-[11px] font-black text-cyan-500 flex items-center gap-2 uppercase tracking-[0.2em] border-l-4 border-cyan-600 pl-3">
+          <BellRing className={`w-3.5 h-3.5 ${unacked.length > 0 ? 'text-red-400' : ''}`} /> Alerts
+        </h3>
+        {unacked.length > 0 && <span className="px-1 bg-red-500/80 text-white text-[9px] rounded-sm tabular-nums">{unacked.length}</span>}
+        <div className="ml-auto flex items-center gap-1">
+          {unacked.length > 0 && tab === 'feed' && (
+            <button className={iconButton} title="Acknowledge all" onClick={() => onAcknowledge(unacked.map(a => a.id))}>
+              <CheckCheck className="w-3 h-3" />
+            </button>
+          )}
+          <button className={iconButton} title={soundOn ? 'Mute' : 'Unmute'} onClick={onToggleSound}>
+            {soundOn ? <Volume2 className="w-3 h-3" /> : <VolumeX className="w-3 h-3" />}
+          </button>
+          <button className={iconButton} title="Alert rules" onClick={onEditRules}>
+            <Settings2 className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-3 mb-2 text-[9px] font-black uppercase tracking-widest">
+        {(['feed', 'history'] as const).map(t => (
+          <button key={t} className={tab === t ? 'text-cyan-300 border-b border-cyan-400' : 'text-cyan-800 hover:text-cyan-500'} onClick={() => setTab(t)}>
+            {t === 'feed' ? 'Live' : 'History'}
+          </button>
+        ))}
+        {paused && <span className="ml-auto text-amber-500">Paused during replay</span>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex flex-col gap-1.5">
+        {list.length === 0 && (
+          <div className="text-[10px] text-cyan-900 uppercase tracking-widest">{tab === 'feed' ? 'All clear' : 'No alerts recorded'}</div>
+        )}
+        {list.map(a => (
+          <AlertRow key={a.id} alert={a} onAcknowledge={tab === 'feed' ? () => onAcknowledge([a.id]) : undefined} />
+        ))}
+      </div>
+    </div>
+  );
+};
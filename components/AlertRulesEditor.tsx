@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { BellRing, Plus, RotateCcw, Save, Trash2, X } from 'lucide-react';
+import { AlertRule, AlertRuleType, Zone } from '../types';
+import { ALERT_RULE_TYPES } from '../services/alertRules';
+
+interface AlertRulesEditorProps {
+  storeId: string;
+  storeName: string;
+  rules: AlertRule[];
+  zones: Zone[];
+  devices: string[];
+  onSave: (rules: AlertRule[]) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1.5 border border-cyan-900/50 bg-cyan-950/30 hover:border-cyan-500/60 text-[10px] font-black uppercase tracking-widest disabled:opacity-30';
+const inputClass = 'bg-black/60 border border-cyan-900/50 px-1.5 py-0.5 text-[10px] text-cyan-300 outline-none focus:border-cyan-500';
+
+const newRule = (storeId: string, type: AlertRuleType): AlertRule => ({
+  id: `${storeId}-${type}-${Date.now()}`,
+  storeId,
+  type,
+  label: ALERT_RULE_TYPES[type].label,
+  enabled: true,
+  severity: 'warning',
+  threshold: type === 'max_occupancy' ? 10 : 300,
+  sound: false,
+});
+
+export const AlertRulesEditor: React.FC<AlertRulesEditorProps> = ({ storeId, storeName, rules, zones, devices, onSave, onReset, onClose }) => {
+  const [draft, setDraft] = useState<AlertRule[]>(rules);
+  const [addType, setAddType] = useState<AlertRuleType>('max_occupancy');
+
+  const update = (id: string, patch: Partial<AlertRule>) => setDraft(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center p-6 text-cyan-300">
+      <div className="w-full max-w-5xl max-h-full bg-[#05050c] border border-cyan-900/60 p-5 flex flex-col gap-4">
+        <div className="flex items-center gap-2">
+          <BellRing className="w-4 h-4 text-cyan-400" />
+          <h3 className="text-sm font-black tracking-[0.2em] text-cyan-400 uppercase">Alert Rules · {storeName}</h3>
+          <button className="ml-auto p-1 border border-cyan-900/50 hover:border-cyan-500/60" onClick={onClose}>
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-[auto_1fr_8rem_7rem_1fr_auto_auto_auto] gap-x-3 gap-y-2 items-center text-[10px] overflow-y-auto">
+          {['On', 'Rule', 'Type', 'Threshold', 'Scope', 'Severity', 'Sound', ''].map(h => (
+            <span key={h} className="text-[9px] text-cyan-900 font-black uppercase tracking-widest">{h}</span>
+          ))}
+          {draft.map(r => (
+            <React.Fragment key={r.id}>
+              <input type="checkbox" checked={r.enabled} onChange={e => update(r.id, { enabled: e.target.checked })} />
+              <input className={inputClass} value={r.label} onChange={e => update(r.id, { label: e.target.value })} />
+              <span className="text-cyan-600 uppercase tracking-widest">{ALERT_RULE_TYPES[r.type].label}</span>
+              <span className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  className={`${inputClass} w-16`}
+                  value={r.threshold}
+                  onChange={e => update(r.id, { threshold: Math.max(0, Number(e.target.value)) })}
+                />
+                <span className="text-cyan-800">{ALERT_RULE_TYPES[r.type].unit}</span>
+              </span>
+              <span className="flex items-center gap-2">
+                {r.type === 'dwell_limit' && (
+                  <label className="flex items-center gap-1 text-cyan-600">
+                    <input type="checkbox" checked={!!r.aloneOnly} onChange={e => update(r.id, { aloneOnly: e.target.checked })} /> only when alone
+                  </label>
+                )}
+                {r.type === 'zone_loitering' && (
+                  <select className={inputClass} value={r.zoneId ?? ''} onChange={e => update(r.id, { zoneId: e.target.value || undefined })}>
+                    <option value="">Any zone</option>
+                    {zones.map(z => <option key={z.id} value={z.id}>{z.label}</option>)}
+                  </select>
+                )}
+                {r.type === 'device_offline' && (
+                  <select className={inputClass} value={r.deviceId ?? ''} onChange={e => update(r.id, { deviceId: e.target.value || undefined })}>
+                    <option value="">Any device</option>
+                    {devices.map(d => <option key={d} value={d}>{d}</option>)}
+                  </select>
+                )}
+                {r.type === 'no_activity' && <span className="text-cyan-800">while the store is open</span>}
+              </span>
+              <select className={inputClass} value={r.severity} onChange={e => update(r.id, { severity: e.target.value as AlertRule['severity'] })}>
+                <option value="warning">Warning</option>
+                <option value="critical">Critical</option>
+              </select>
+              <input type="checkbox" checked={r.sound} onChange={e => update(r.id, { sound: e.target.checked })} />
+              <button className="p-1 border border-cyan-900/50 hover:border-red-500/60 hover:text-red-400" onClick={() => setDraft(prev => prev.filter(x => x.id !== r.id))}>
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+        {draft.length === 0 && <div className="text-[10px] text-cyan-900 uppercase tracking-widest">No rules for this store</div>}
+
+        <div className="flex items-center gap-2 pt-3 border-t border-cyan-900/30">
+          <select className={inputClass} value={addType} onChange={e => setAddType(e.target.value as AlertRuleType)}>
+            {(Object.keys(ALERT_RULE_TYPES) as AlertRuleType[]).map(t => <option key={t} value={t}>{ALERT_RULE_TYPES[t].label}</option>)}
+          </select>
+          <button className={buttonClass} onClick={() => setDraft(prev => [...prev, newRule(storeId, addType)])}>
+            <Plus className="w-3 h-3" /> Add rule
+          </button>
+          <button className={`${buttonClass} ml-auto`} onClick={onReset}>
+            <RotateCcw className="w-3 h-3" /> Defaults
+          </button>
+          <button className={buttonClass} onClick={() => onSave(draft)}>
+            <Save className="w-3 h-3" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { GazeMode, ZoneAttention, ZoneEngagement } from '../types';
+import { rankAttention } from '../services/attention';
+
+interface AttentionPanelProps {
+  stats: ZoneAttention[];
+  dwell: ZoneEngagement[]; // physical dwell next to each zone, for comparison
+  mode: GazeMode;
+  onModeChange: (mode: GazeMode) => void;
+  limit?: number;
+}
+
+const seconds = (ms: number) => `${Math.round(ms / 1000)}s`;
+
+export const AttentionPanel: React.FC<AttentionPanelProps> = ({ stats, dwell, mode, onModeChange, limit = 12 }) => {
+  const ranked = rankAttention(stats).filter(z => z.facingMs > 0).slice(0, limit);
+  const maxShare = Math.max(0.01, ...ranked.map(z => z.share));
+
+  return (
+    <div className="flex-1 bg-cyan-950/10 border border-cyan-900/30 p-4 rounded-sm flex flex-col overflow-hidden">
+      <h3 className="text-[11px] font-black text-purple-400 mb-3 flex items-center gap-2 uppercase tracking-[0.2em] border-l-4 border-purple-600 pl-3">
+        <Eye className="w-3.5 h-3.5" /> Shelf Attention
+      </h3>
+
+      <div className="flex items-center justify-between mb-3 text-[9px] text-cyan-800 uppercase tracking-widest">
+        <span>Count from</span>
+        <select
+          value={mode}
+          onChange={e => onModeChange(e.target.value as GazeMode)}
+          className="bg-transparent text-purple-300 font-black outline-none"
+        >
+          <option value="cone" className="bg-[#080810]">Vision cone</option>
+          <option value="ray" className="bg-[#080810]">Center ray</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_auto_auto_auto] gap-x-3 text-[9px] text-cyan-900 font-black uppercase tracking-widest pb-1 border-b border-cyan-900/30">
+        <span>Zone</span>
+        <span className="text-right" title="Facing time">Look</span>
+        <span className="text-right" title="Share of all facing time">Share</span>
+        <span className="text-right" title="Physical dwell next to the zone">Dwell</span>
+        <span className="text-right" title="Average time from appearing to first glance">1st</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {ranked.length === 0 && (
+          <div className="text-[10px] text-cyan-900 uppercase tracking-widest pt-4">Nobody has faced a shelf yet</div>
+        )}
+        {ranked.map((z, i) => (
+          <div key={z.zoneId} className="py-1.5 border-b border-cyan-900/10">
+            <div className="grid grid-cols-[1fr_auto_auto_auto_auto] gap-x-3 items-baseline text-[10px] tabular-nums">
+              <span className="font-black text-cyan-300 truncate" title={`${z.viewers} viewers · ${z.glances} glances`}>
+                <span className="text-cyan-800 mr-1">{i + 1}.</span>{z.label}
+                {z.lookers > 0 && <span className="ml-1 text-purple-400">◉{z.lookers}</span>}
+              </span>
+              <span className="text-right text-purple-300">{seconds(z.facingMs)}</span>
+              <span className="text-right text-purple-400">{Math.round(z.share * 100)}%</span>
+              <span className="text-right text-cyan-600">{seconds(dwell.find(d => d.zoneId === z.zoneId)?.dwellMs ?? 0)}</span>
+              <span className="text-right text-cyan-700">{z.avgFirstGlanceMs === null ? '—' : seconds(z.avgFirstGlanceMs)}</span>
+            </div>
+            <div className="h-1 mt-1 bg-cyan-950/40">
+              <div className="h-full bg-purple-500/70" style={{ width: `${(z.share / maxShare) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
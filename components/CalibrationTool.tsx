@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Crosshair, RefreshCw, Save, Trash2, X, Undo2 } from 'lucide-react';
+import { CameraCalibration, Point, StoreConfig } from '../types';
+import { CalibrationMap } from '../services/calibrationStore';
+import {
+  MIN_CALIBRATION_POINTS,
+  applyHomography,
+  calibrationQuality,
+  computeHomography,
+  reprojectionErrors,
+  rmsError,
+} from '../services/homography';
+
+interface PointPair {
+  image: Point;
+  plan?: Point;
+}
+
+interface CalibrationToolProps {
+  store: StoreConfig;
+  devices: string[];
+  initialDeviceId?: string;
+  calibrations: CalibrationMap;
+  getFrame: (deviceId: string) => string | undefined;
+  onSave: (calibration: CameraCalibration) => void;
+  onRemove: (deviceId: string) => void;
+  onClose: () => void;
+}
+
+const toSvgPoint = (e: React.MouseEvent<SVGSVGElement>): Point | null => {
+  const ctm = e.currentTarget.getScreenCTM();
+  if (!ctm) return null;
+  const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+  return { x: Math.round(p.x), y: Math.round(p.y) };
+};
+
+const QUALITY_COLOR: Record<string, string> = {
+  GOOD: 'text-emerald-400',
+  FAIR: 'text-amber-400',
+  POOR: 'text-red-400',
+};
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1.5 border border-cyan-900/50 bg-cyan-950/30 hover:border-cyan-500/60 text-[10px] font-black uppercase tracking-widest disabled:opacity-30';
+
+export const CalibrationTool: React.FC<CalibrationToolProps> = ({
+  store,
+  devices,
+  initialDeviceId,
+  calibrations,
+  getFrame,
+  onSave,
+  onRemove,
+  onClose,
+}) => {
+  const [deviceId, setDeviceId] = useState(initialDeviceId ?? devices[0] ?? '');
+  const [frame, setFrame] = useState<string | undefined>(() => (deviceId ? getFrame(deviceId) : undefined));
+  const [frameSize, setFrameSize] = useState({ w: 640, h: 360 });
+  const [pairs, setPairs] = useState<PointPair[]>([]);
+  const [source, setSource] = useState<CameraCalibration['source']>('bbox');
+
+  // Load the stored calibration (if any) whenever the device changes.
+  useEffect(() => {
+    const existing = calibrations[deviceId];
+    setPairs(existing ? existing.imagePoints.map((image, i) => ({ image, plan: existing.planPoints[i] })) : []);
+    setSource(existing?.source ?? 'bbox');
+    setFrame(deviceId ? getFrame(deviceId) : undefined);
+  }, [deviceId]);
+
+  const complete = pairs.filter((p): p is Required<PointPair> => !!p.plan);
+  const pending = pairs.length > 0 && !pairs[pairs.length - 1].plan;
+
+  const result = useMemo(() => {
+    const src = complete.map(p => p.image);
+    const dst = complete.map(p => p.plan);
+    const H = computeHomography(src, dst);
+    if (!H) return null;
+    const errors = reprojectionErrors(H, src, dst);
+    return { H, errors, rms: rmsError(errors) };
+  }, [pairs]);
+
+  const handleImageClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const p = toSvgPoint(e);
+    if (!p) return;
+    setPairs(prev => (pending ? [...prev.slice(0, -1), { image: p }] : [...prev, { image: p }]));
+  };
+
+  const handlePlanClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const p = toSvgPoint(e);
+    if (!p || !pending) return;
+    setPairs(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1], plan: p }]);
+  };
+
+  const save = () => {
+    if (!result) return;
+    onSave({
+      deviceId,
+      storeId: store.id,
+      source,
+      imagePoints: complete.map(p => p.image),
+      planPoints: complete.map(p => p.plan),
+      homography: result.H,
+      rmsError: result.rms,
+      createdAt: Date.now(),
+    });
+  };
+
+  const quality = result ? calibrationQuality(result.rms) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col p-6 gap-4 text-cyan-300">
+      <div className="flex items-center gap-4 border-b border-cyan-900/40 pb-3">
+        <Crosshair className="w-5 h-5 text-cyan-400" />
+        <h2 className="text-lg font-black tracking-[0.2em] text-cyan-400 uppercase">Camera Calibration</h2>
+        <select
+          value={deviceId}
+          onChange={e => setDeviceId(e.target.value)}
+          className="bg-cyan-950/40 border border-cyan-900/50 text-cyan-300 text-[11px] font-black outline-none px-2 py-1 uppercase tracking-widest"
+        >
+          {devices.length === 0 && <option value="">No devices seen yet</option>}
+          {devices.map(d => (
+            <option key={d} value={d} className="bg-[#080810]">{d}{calibrations[d] ? ' ✓' : ''}</option>
+          ))}
+        </select>
+        <select
+          value={source}
+          onChange={e => setSource(e.target.value as CameraCalibration['source'])}
+          className="bg-cyan-950/40 border border-cyan-900/50 text-cyan-300 text-[11px] font-black outline-none px-2 py-1 uppercase tracking-widest"
+        >
+          <option value="bbox" className="bg-[#080810]">Project bbox foot point</option>
+          <option value="position" className="bg-[#080810]">Project raw position</option>
+        </select>
+        <button className={buttonClass} onClick={() => setFrame(getFrame(deviceId))} disabled={!deviceId}>
+          <RefreshCw className="w-3 h-3" /> Grab Frame
+        </button>
+        <button className={`${buttonClass} ml-auto`} onClick={onClose}><X className="w-3 h-3" /> Close</button>
+      </div>
+
+      <div className="text-[10px] text-cyan-700 uppercase tracking-widest">
+        Click a floor point on the camera frame, then the same point on the plan. Repeat for at least {MIN_CALIBRATION_POINTS} points spread across the floor.
+      </div>
+
+      <div className="flex-1 grid grid-cols-2 gap-4 min-h-0">
+        <div className="relative border border-cyan-900/50 bg-[#05050c] flex items-center justify-center overflow-hidden">
+          {frame ? (
+            <div className="relative w-full">
+              <img
+                src={frame}
+                alt="Calibration frame"
+                className="w-full h-auto block"
+                onLoad={e => setFrameSize({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+              />
+              <svg
+                viewBox={`0 0 ${frameSize.w} ${frameSize.h}`}
+                className="absolute inset-0 w-full h-full cursor-crosshair"
+                onClick={handleImageClick}
+              >
+                {pairs.map((p, i) => (
+                  <g key={i}>
+                    <circle cx={p.image.x} cy={p.image.y} r={frameSize.w / 120} fill="none" stroke={p.plan ? '#06b6d4' : '#f59e0b'} strokeWidth={frameSize.w / 400} />
+                    <text x={p.image.x + frameSize.w / 80} y={p.image.y} fill="#f59e0b" fontSize={frameSize.w / 50} fontWeight="bold">{i + 1}</text>
+                  </g>
+                ))}
+              </svg>
+            </div>
+          ) : (
+            <div className="text-[10px] text-cyan-900 uppercase tracking-[0.3em]">No frame from this device yet</div>
+          )}
+        </div>
+
+        <div className="border border-cyan-900/50 bg-[#020205] flex items-center justify-center">
+          <svg
+            viewBox={`0 0 ${store.width} ${store.height}`}
+            className={`w-full h-full ${pending ? 'cursor-crosshair' : 'cursor-not-allowed'}`}
+            preserveAspectRatio="xMidYMid meet"
+            onClick={handlePlanClick}
+          >
+            <rect x="2" y="2" width={store.width - 4} height={store.height - 4} fill="none" stroke="#06b6d4" strokeWidth="2" opacity="0.6" />
+            {store.racks.map((r, i) => (
+              <rect key={i} x={r.pos.x - r.w / 2} y={r.pos.y - r.h / 2} width={r.w} height={r.h} fill="none" stroke="#06b6d4" opacity="0.35" />
+            ))}
+            {store.islands.map((isl, i) => (
+              <rect key={i} x={isl.rect.x} y={isl.rect.y} width={isl.rect.w} height={isl.rect.h} fill="none" stroke="#10b981" opacity="0.35" />
+            ))}
+            {complete.map((p, i) => {
+              const projected = result ? applyHomography(result.H, p.image) : null;
+              return (
+                <g key={i}>
+                  {projected && (
+                    <>
+                      <line x1={p.plan.x} y1={p.plan.y} x2={projected.x} y2={projected.y} stroke="#ef4444" strokeWidth="2" />
+                      <circle cx={projected.x} cy={projected.y} r="6" fill="none" stroke="#ef4444" strokeWidth="2" />
+                    </>
+                  )}
+                  <circle cx={p.plan.x} cy={p.plan.y} r="8" fill="#06b6d4" opacity="0.8" />
+                  <text x={p.plan.x + 12} y={p.plan.y + 4} fill="#f59e0b" fontSize="20" fontWeight="bold">{i + 1}</text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-6 border-t border-cyan-900/40 pt-3">
+        <div className="text-[10px] uppercase tracking-widest text-cyan-700">
+          Pairs <span className="text-cyan-300 font-black">{complete.length}</span>
+        </div>
+        <div className="text-[10px] uppercase tracking-widest text-cyan-700">
+          Reprojection RMS{' '}
+          {result ? (
+            <span className={`font-black ${QUALITY_COLOR[quality!]}`}>{result.rms.toFixed(1)} px · {quality}</span>
+          ) : (
+            <span className="text-cyan-900">needs {MIN_CALIBRATION_POINTS}+ pairs</span>
+          )}
+        </div>
+        {result && (
+          <div className="flex gap-2 text-[9px] tabular-nums text-cyan-800">
+            {result.errors.map((err, i) => <span key={i}>#{i + 1}:{err.toFixed(1)}</span>)}
+          </div>
+        )}
+        <div className="ml-auto flex gap-2">
+          <button className={buttonClass} onClick={() => setPairs(prev => prev.slice(0, -1))} disabled={pairs.length === 0}>
+            <Undo2 className="w-3 h-3" /> Undo
+          </button>
+          <button className={buttonClass} onClick={() => { onRemove(deviceId); setPairs([]); }} disabled={!calibrations[deviceId]}>
+            <Trash2 className="w-3 h-3" /> Clear
+          </button>
+          <button className={`${buttonClass} text-emerald-400`} onClick={save} disabled={!result}>
+            <Save className="w-3 h-3" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
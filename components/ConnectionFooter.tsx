@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { ConnectionHealth, ConnectionState } from '../types';
+
+interface ConnectionFooterProps {
+  health: ConnectionHealth | null;
+  onOpenSettings: () => void;
+}
+
+const STATE_LABEL: Record<ConnectionState, string> = {
+  connecting: 'Connecting',
+  open: 'Sync Verified',
+  stale: 'Stream Stale',
+  reconnecting: 'Sync Disconnected',
+  closed: 'Offline',
+};
+
+const STATE_DOT: Record<ConnectionState, string> = {
+  connecting: 'bg-amber-500 text-amber-500',
+  open: 'bg-emerald-500 text-emerald-500',
+  stale: 'bg-amber-500 text-amber-500',
+  reconnecting: 'bg-red-500 text-red-500',
+  closed: 'bg-red-500 text-red-500',
+};
+
+const seconds = (ms: number) => `${(Math.max(0, ms) / 1000).toFixed(ms < 10_000 ? 1 : 0)}s`;
+
+/** Live link health: rate, frame age, reconnects and latency, from the connection manager. */
+export const ConnectionFooter: React.FC<ConnectionFooterProps> = ({ health, onOpenSettings }) => {
+  // Ticks on its own so "last frame" and the retry countdown move between health updates.
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const state = health?.state ?? 'connecting';
+  return (
+    <button className="flex items-center gap-8 text-[9px] text-cyan-800 font-mono tabular-nums hover:text-cyan-500" onClick={onOpenSettings}>
+      <span>{health ? health.messagesPerSec.toFixed(1) : '—'} MSG/S</span>
+      <span>LAST_FRAME {health?.lastFrameAt ? seconds(now - health.lastFrameAt) : '—'}</span>
+      <span>RECONNECTS {health?.reconnects ?? 0}</span>
+      <span>LATENCY {health?.latencyMs != null ? `${health.latencyMs}ms` : '—'}</span>
+      <div className="flex items-center gap-2">
+        <div className={`w-2.5 h-2.5 rounded-full animate-pulse shadow-[0_0_10px_currentColor] ${STATE_DOT[state]}`} />
+        <span className="uppercase font-black">
+          {STATE_LABEL[state]}
+          {state === 'reconnecting' && health?.nextRetryAt && ` · retry in ${seconds(health.nextRetryAt - now)}`}
+        </span>
+      </div>
+    </button>
+  );
+};
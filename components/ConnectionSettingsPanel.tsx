@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { RotateCcw, Save, Server, X } from 'lucide-react';
+import { ConnectionHealth, ConnectionSettings } from '../types';
+import { SettingsSource, buildSocketUrl } from '../services/connection';
+
+interface ConnectionSettingsPanelProps {
+  settings: ConnectionSettings;
+  source: SettingsSource;
+  health: ConnectionHealth | null;
+  devices: string[];
+  onSave: (settings: ConnectionSettings) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1.5 border border-cyan-900/50 bg-cyan-950/30 hover:border-cyan-500/60 text-[10px] font-black uppercase tracking-widest disabled:opacity-30';
+const inputClass = 'bg-black/60 border border-cyan-900/50 px-1.5 py-1 text-[10px] text-cyan-300 outline-none focus:border-cyan-500';
+
+const parseDevices = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+
+const SOURCE_LABEL: Record<SettingsSource, string> = {
+  query: 'from the page URL (overrides saved settings)',
+  saved: 'saved in this browser',
+  env: 'from VITE_WS_* environment variables',
+  default: 'built-in default',
+};
+
+export const ConnectionSettingsPanel: React.FC<ConnectionSettingsPanelProps> = ({ settings, source, health, devices, onSave, onReset, onClose }) => {
+  const [draft, setDraft] = useState(settings);
+  // Kept as typed so a trailing comma survives until the next id is entered.
+  const [devicesText, setDevicesText] = useState(settings.deviceFilter.join(', '));
+  const deviceFilter = parseDevices(devicesText);
+  let urlError: string | null = null;
+  try {
+    buildSocketUrl(draft);
+  } catch (e) {
+    urlError = (e as Error).message;
+  }
+
+  const toggleDevice = (deviceId: string) =>
+    setDevicesText((deviceFilter.includes(deviceId) ? deviceFilter.filter(id => id !== deviceId) : [...deviceFilter, deviceId]).join(', '));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center p-6 text-cyan-300">
+      <div className="w-full max-w-lg bg-[#05050c] border border-cyan-900/60 p-5 flex flex-col gap-4 text-[10px]">
+        <div className="flex items-center gap-2">
+          <Server className="w-4 h-4 text-cyan-400" />
+          <h3 className="text-sm font-black tracking-[0.2em] text-cyan-400 uppercase">Stream Connection</h3>
+          <button className="ml-auto p-1 border border-cyan-900/50 hover:border-cyan-500/60" onClick={onClose}>
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <div className="text-cyan-800 uppercase tracking-widest">Current settings are {SOURCE_LABEL[source]}</div>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-[9px] text-cyan-700 font-black uppercase tracking-widest">Endpoint</span>
+          <input className={inputClass} value={draft.url} onChange={e => setDraft(d => ({ ...d, url: e.target.value }))} />
+          {urlError && <span className="text-red-400">{urlError}</span>}
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-[9px] text-cyan-700 font-black uppercase tracking-widest">Auth token (optional)</span>
+          <input type="password" className={inputClass} value={draft.token} onChange={e => setDraft(d => ({ ...d, token: e.target.value }))} />
+        </label>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-[9px] text-cyan-700 font-black uppercase tracking-widest">
+            Devices {deviceFilter.length === 0 && <span className="text-cyan-900">· all</span>}
+          </span>
+          <input
+            className={inputClass}
+            placeholder="all devices"
+            value={devicesText}
+            onChange={e => setDevicesText(e.target.value)}
+          />
+          <div className="flex flex-wrap gap-x-3 gap-y-1 pt-1">
+            {devices.map(id => (
+              <label key={id} className="flex items-center gap-1 text-cyan-600">
+                <input type="checkbox" checked={deviceFilter.includes(id)} onChange={() => toggleDevice(id)} /> {id}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {health?.lastError && <div className="text-amber-400 uppercase tracking-widest">Last error: {health.lastError}</div>}
+
+        <div className="flex items-center gap-2 pt-3 border-t border-cyan-900/30">
+          <button className={buttonClass} onClick={onReset}>
+            <RotateCcw className="w-3 h-3" /> Defaults
+          </button>
+          <button className={`${buttonClass} ml-auto`} disabled={!!urlError} onClick={() => onSave({ ...draft, deviceFilter })}>
+            <Save className="w-3 h-3" /> Save &amp; reconnect
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { CalendarDays, ChevronDown } from 'lucide-react';
+
+interface DayPickerProps {
+  days: string[]; // archived business days, newest first
+  selected: string | null; // null while showing the live day
+  onSelect: (day: string | null) => void;
+}
+
+/** Switches the dashboard between the live business day and an archived one. */
+export const DayPicker: React.FC<DayPickerProps> = ({ days, selected, onSelect }) => (
+  <div className={`flex items-center gap-2 bg-cyan-950/30 border p-1.5 rounded-sm ${selected ? 'border-amber-500/60' : 'border-cyan-900/50'}`}>
+    <CalendarDays className={`w-4 h-4 ${selected ? 'text-amber-500' : 'text-cyan-500'}`} />
+    <select
+      value={selected ?? ''}
+      onChange={e => onSelect(e.target.value || null)}
+      className="bg-transparent text-cyan-300 text-[11px] font-black outline-none cursor-pointer appearance-none uppercase tracking-widest px-2"
+    >
+      <option value="" className="bg-[#080810]">Live</option>
+      {days.map(day => (
+        <option key={day} value={day} className="bg-[#080810]">{day}</option>
+      ))}
+    </select>
+    <ChevronDown className="w-3 h-3 text-cyan-700" />
+  </div>
+);
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { DemographicCell, Gender } from '../types';
+import { sumCells } from '../services/demographics';
+
+interface DemographicBreakdownProps {
+  bands: string[]; // display order, including 'unknown'
+  live: DemographicCell[];
+  today: DemographicCell[];
+}
+
+type Scope = 'today' | 'live';
+type Measure = 'visitors' | 'quickExits' | 'avgDwell';
+
+const MEASURES: { id: Measure; label: string }[] = [
+  { id: 'visitors', label: 'Visitors' },
+  { id: 'quickExits', label: 'Quick exit %' },
+  { id: 'avgDwell', label: 'Avg dwell' },
+];
+
+const tabClass = (active: boolean) =>
+  `px-1.5 py-0.5 border text-[9px] font-black uppercase tracking-widest ${active ? 'border-cyan-400 bg-cyan-500/20 text-cyan-300' : 'border-cyan-900/50 text-cyan-700 hover:border-cyan-500/60'}`;
+
+const format = (cell: { visitors: number; completed: number; dwellTotalMs: number; quickExits: number }, measure: Measure) => {
+  if (measure === 'visitors') return cell.visitors.toString();
+  if (cell.completed === 0) return '—';
+  return measure === 'quickExits'
+    ? `${Math.round((cell.quickExits / cell.completed) * 100)}%`
+    : `${Math.round(cell.dwellTotalMs / cell.completed / 1000)}s`;
+};
+
+/** Gender (with '?' for visitors the tracker couldn't tell) × age band table; quick exits and dwell only exist for completed visits, so only for today. */
+export const DemographicBreakdown: React.FC<DemographicBreakdownProps> = ({ bands, live, today }) => {
+  const [scope, setScope] = useState<Scope>('today');
+  const [measure, setMeasure] = useState<Measure>('visitors');
+  const cells = scope === 'live' ? live : today;
+  const shownMeasure = scope === 'live' ? 'visitors' : measure;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-1">
+        <button className={tabClass(scope === 'today')} onClick={() => setScope('today')}>Today</button>
+        <button className={tabClass(scope === 'live')} onClick={() => setScope('live')}>Live</button>
+        <div className="ml-auto flex gap-1">
+          {MEASURES.map(m => (
+            <button key={m.id} className={tabClass(shownMeasure === m.id)} disabled={scope === 'live'} onClick={() => setMeasure(m.id)}>
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-[1fr_3rem_3rem_3rem_3rem] gap-x-2 text-[10px] tabular-nums">
+        {['Age', 'F', 'M', '?', 'All'].map(h => (
+          <span key={h} className={`text-[9px] text-cyan-900 font-black uppercase tracking-widest ${h === 'Age' ? '' : 'text-right'}`}>{h}</span>
+        ))}
+        {bands.map(band => {
+          const inBand = (c: DemographicCell) => c.band === band;
+          return (
+            <React.Fragment key={band}>
+              <span className="text-cyan-700 uppercase tracking-widest py-0.5 border-b border-cyan-900/10">{band}</span>
+              <span className="text-right text-pink-400 py-0.5 border-b border-cyan-900/10">
+                {format(sumCells(cells, c => inBand(c) && c.gender === Gender.FEMALE), shownMeasure)}
+              </span>
+              <span className="text-right text-cyan-400 py-0.5 border-b border-cyan-900/10">
+                {format(sumCells(cells, c => inBand(c) && c.gender === Gender.MALE), shownMeasure)}
+              </span>
+              <span className="text-right text-cyan-800 py-0.5 border-b border-cyan-900/10">
+                {format(sumCells(cells, c => inBand(c) && c.gender === Gender.UNKNOWN), shownMeasure)}
+              </span>
+              <span className="text-right text-cyan-200 py-0.5 border-b border-cyan-900/10">{format(sumCells(cells, inBand), shownMeasure)}</span>
+            </React.Fragment>
+          );
+        })}
+        <span className="text-cyan-500 font-black uppercase tracking-widest pt-1">Total</span>
+        <span className="text-right text-pink-400 font-black pt-1">{format(sumCells(cells, c => c.gender === Gender.FEMALE), shownMeasure)}</span>
+        <span className="text-right text-cyan-400 font-black pt-1">{format(sumCells(cells, c => c.gender === Gender.MALE), shownMeasure)}</span>
+        <span className="text-right text-cyan-800 font-black pt-1">{format(sumCells(cells, c => c.gender === Gender.UNKNOWN), shownMeasure)}</span>
+        <span className="text-right text-cyan-200 font-black pt-1">{format(sumCells(cells, () => true), shownMeasure)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Stethoscope, X, RotateCcw } from 'lucide-react';
+import { DiagnosticsSnapshot, ProtocolDiagnostics } from '../services/protocolDiagnostics';
+
+interface DiagnosticsDrawerProps {
+  diagnostics: ProtocolDiagnostics;
+  onClose: () => void;
+}
+
+const formatBytes = (b: number) => (b > 1024 * 1024 ? `${(b / 1024 / 1024).toFixed(1)} MB` : b > 1024 ? `${(b / 1024).toFixed(1)} KB` : `${Math.round(b)} B`);
+
+const formatAgo = (ms: number) => (ms < 1000 ? 'just now' : ms < 60_000 ? `${Math.floor(ms / 1000)}s ago` : `${Math.floor(ms / 60_000)}m ago`);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="flex flex-col gap-2">
+    <h4 className="text-[10px] font-black text-cyan-600 uppercase tracking-[0.2em] border-l-2 border-cyan-700 pl-2">{title}</h4>
+    {children}
+  </div>
+);
+
+const CountTable: React.FC<{ counts: Record<string, number>; color: string; empty: string }> = ({ counts, color, empty }) => {
+  const rows = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  if (rows.length === 0) return <div className="text-[10px] text-cyan-900 uppercase tracking-widest">{empty}</div>;
+  return (
+    <div className="flex flex-col gap-0.5">
+      {rows.map(([reason, n]) => (
+        <div key={reason} className="flex justify-between text-[10px] tabular-nums">
+          <span className="text-cyan-400">{reason}</span>
+          <span className={`font-black ${color}`}>{n}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const DiagnosticsDrawer: React.FC<DiagnosticsDrawerProps> = ({ diagnostics, onClose }) => {
+  const [snap, setSnap] = useState<DiagnosticsSnapshot>(() => diagnostics.snapshot());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setSnap(diagnostics.snapshot());
+      setNow(Date.now());
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [diagnostics]);
+
+  return (
+    <div className="fixed top-0 right-0 bottom-0 w-[420px] z-40 bg-[#05050c]/95 border-l border-cyan-900/60 p-5 flex flex-col gap-5 overflow-y-auto text-cyan-300 shadow-2xl">
+      <div className="flex items-center gap-2">
+        <Stethoscope className="w-4 h-4 text-cyan-400" />
+        <h3 className="text-sm font-black tracking-[0.2em] text-cyan-400 uppercase">Protocol Diagnostics</h3>
+        <button
+          className="ml-auto p-1 border border-cyan-900/50 hover:border-cyan-500/60"
+          title="Reset counters"
+          onClick={() => { diagnostics.reset(); setSnap(diagnostics.snapshot()); }}
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+        <button className="p-1 border border-cyan-900/50 hover:border-cyan-500/60" onClick={onClose}>
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {[
+          ['Msg / s', snap.messagesPerSec.toFixed(1)],
+          ['Avg frame', formatBytes(snap.avgFrameBytes)],
+          ['Max frame', formatBytes(snap.maxFrameBytes)],
+        ].map(([label, value]) => (
+          <div key={label} className="bg-cyan-950/20 border border-cyan-900/30 p-2">
+            <div className="text-[9px] text-cyan-800 uppercase tracking-widest">{label}</div>
+            <div className="text-lg font-black text-cyan-300 tabular-nums">{value}</div>
+          </div>
+        ))}
+      </div>
+      <div className="text-[10px] text-cyan-800 uppercase tracking-widest -mt-3">{snap.totalMessages} messages total</div>
+
+      <Section title="Rejected frames">
+        <CountTable counts={snap.rejected} color="text-red-400" empty="None rejected" />
+      </Section>
+
+      <Section title="Repaired frames">
+        <CountTable counts={snap.repaired} color="text-amber-400" empty="Nothing repaired" />
+      </Section>
+
+      <Section title="Devices">
+        {snap.devices.length === 0 && <div className="text-[10px] text-cyan-900 uppercase tracking-widest">No device has sent a frame</div>}
+        {snap.devices.map(d => {
+          const age = now - d.lastSeen;
+          return (
+            <div key={d.deviceId} className="flex items-center justify-between text-[10px] tabular-nums">
+              <span className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${age < 5000 ? 'bg-emerald-500' : age < 30_000 ? 'bg-amber-500' : 'bg-red-500'}`} />
+                <span className="text-cyan-300 font-black">{d.deviceId}</span>
+              </span>
+              <span className="text-cyan-700">{d.frames} frames · {d.rejected} bad · {formatAgo(age)}</span>
+            </div>
+          );
+        })}
+      </Section>
+
+      <Section title="Last bad payload">
+        {snap.lastBad ? (
+          <>
+            <div className="text-[10px] text-red-400 font-black">
+              {snap.lastBad.reason} <span className="text-cyan-800 font-normal">· {formatAgo(now - snap.lastBad.at)}</span>
+            </div>
+            {snap.lastBad.detail && <div className="text-[10px] text-cyan-600">{snap.lastBad.detail}</div>}
+            <pre className="text-[9px] text-cyan-500 bg-black/60 border border-cyan-900/40 p-2 whitespace-pre-wrap break-all max-h-64 overflow-y-auto">
+              {snap.lastBad.payload}
+            </pre>
+          </>
+        ) : (
+          <div className="text-[10px] text-cyan-900 uppercase tracking-widest">All frames clean</div>
+        )}
+      </Section>
+    </div>
+  );
+};
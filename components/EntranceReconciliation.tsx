@@ -0,0 +1,63 @@
+import React from 'react';
+import { DoorOpen } from 'lucide-react';
+import { EntranceCounts } from '../types';
+import { QUICK_EXIT_OPTIONS_MS } from '../constants';
+
+interface EntranceReconciliationProps {
+  backend: { entries: number; quickExits: number };
+  local: EntranceCounts;
+  quickExitMs: number;
+  toleranceRatio: number;
+  onQuickExitChange: (ms: number) => void;
+}
+
+// Off by one or two is normal while someone is standing in the door.
+const MIN_FLAGGED_DIFF = 2;
+
+const Row: React.FC<{ label: string; backend: number | null; local: number; toleranceRatio: number }> = ({ label, backend, local, toleranceRatio }) => {
+  const diff = backend === null ? null : local - backend;
+  const ratio = diff === null ? 0 : Math.abs(diff) / Math.max(backend!, local, 1);
+  const flagged = diff !== null && Math.abs(diff) >= MIN_FLAGGED_DIFF && ratio > toleranceRatio;
+  return (
+    <>
+      <span className="text-cyan-700 uppercase tracking-widest py-0.5 border-b border-cyan-900/10">{label}</span>
+      <span className="text-right text-cyan-500 py-0.5 border-b border-cyan-900/10">{backend ?? '—'}</span>
+      <span className="text-right text-cyan-200 py-0.5 border-b border-cyan-900/10">{local}</span>
+      <span className={`text-right py-0.5 border-b border-cyan-900/10 ${flagged ? 'text-red-400 font-black' : 'text-cyan-800'}`}>
+        {diff === null ? '—' : `${diff > 0 ? '+' : ''}${diff}`}
+        {diff !== null && diff !== 0 && <span className="ml-1 text-[9px]">{Math.round(ratio * 100)}%</span>}
+      </span>
+    </>
+  );
+};
+
+/** Device counters next to the counts derived from tracks crossing the entrance line. */
+export const EntranceReconciliation: React.FC<EntranceReconciliationProps> = ({ backend, local, quickExitMs, toleranceRatio, onQuickExitChange }) => (
+  <div className="bg-cyan-950/10 border border-cyan-900/30 p-4 rounded-sm flex flex-col">
+    <h3 className="text-[11px] font-black text-cyan-500 mb-3 flex items-center gap-2 uppercase tracking-[0.2em] border-l-4 border-cyan-600 pl-3">
+      <DoorOpen className="w-3.5 h-3.5" /> Entrance Count
+    </h3>
+
+    <div className="flex items-center justify-between mb-2 text-[9px] text-cyan-800 uppercase tracking-widest">
+      <span>Quick exit under</span>
+      <select
+        value={quickExitMs}
+        onChange={e => onQuickExitChange(Number(e.target.value))}
+        className="bg-transparent text-cyan-400 font-black outline-none"
+      >
+        {QUICK_EXIT_OPTIONS_MS.map(ms => (
+          <option key={ms} value={ms} className="bg-[#080810]">{ms / 1000}s</option>
+        ))}
+      </select>
+    </div>
+
+    <div className="grid grid-cols-[1fr_3rem_3rem_4rem] gap-x-2 text-[10px] tabular-nums">
+      {['', 'Backend', 'Line', 'Diff'].map(h => (
+        <span key={h} className="text-[9px] text-cyan-900 font-black uppercase tracking-widest text-right first:text-left">{h}</span>
+      ))}
+      <Row label="Entries" backend={backend.entries} local={local.entries} toleranceRatio={toleranceRatio} />
+      <Row label="Quick exits" backend={backend.quickExits} local={local.quickExits} toleranceRatio={toleranceRatio} />
+      <Row label="Exits" backend={null} local={local.exits} toleranceRatio={toleranceRatio} />
+    </div>
+  </div>
+);
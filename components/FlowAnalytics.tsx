@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Route, X } from 'lucide-react';
+import { CompletedVisit, Zone } from '../types';
+import { ENTRANCE_NODE, EXIT_NODE, SankeyNode, sankeyFlows, topRoutes, transitionMatrix } from '../services/zoneFlow';
+import { formatClock } from './SessionControls';
+
+interface FlowAnalyticsProps {
+  storeName: string;
+  zones: Zone[];
+  minZoneMs: number;
+  getVisits: () => readonly CompletedVisit[];
+  onClose: () => void;
+}
+
+type FlowTab = 'sankey' | 'matrix' | 'routes';
+
+const TABS: { id: FlowTab; label: string }[] = [
+  { id: 'sankey', label: 'Sankey' },
+  { id: 'matrix', label: 'Transitions' },
+  { id: 'routes', label: 'Top Routes' },
+];
+
+const ROUTE_LIMITS = [5, 10, 20];
+const SANKEY_STEPS = 3;
+
+const tabClass = (active: boolean) =>
+  `px-3 py-1.5 border text-[10px] font-black uppercase tracking-widest ${active ? 'border-cyan-400 bg-cyan-500/20 text-cyan-300' : 'border-cyan-900/50 bg-cyan-950/30 text-cyan-700 hover:border-cyan-500/60'}`;
+
+const nodeColor = (n: SankeyNode) => (n.id === ENTRANCE_NODE || n.id === EXIT_NODE ? '#06b6d4' : n.id.startsWith('isl-') ? '#10b981' : '#f59e0b');
+
+const SankeyView: React.FC<{ visits: readonly CompletedVisit[]; zones: Zone[] }> = ({ visits, zones }) => {
+  const W = 1000;
+  const H = 520;
+  const NODE_W = 14;
+  const GAP = 8;
+  const flows = useMemo(() => sankeyFlows(visits, zones, SANKEY_STEPS), [visits, zones]);
+
+  const layout = useMemo(() => {
+    const byColumn = Array.from({ length: flows.columns }, (_, c) =>
+      flows.nodes.filter(n => n.column === c).sort((a, b) => b.count - a.count)
+    );
+    const busiest = Math.max(...byColumn.map(col => col.length));
+    const scale = visits.length > 0 ? (H - GAP * Math.max(0, busiest - 1)) / visits.length : 0;
+    const pos = new Map<string, { x: number; y: number; h: number; inY: number; outY: number }>();
+    byColumn.forEach((col, c) => {
+      const x = (c * (W - NODE_W)) / (flows.columns - 1);
+      const used = col.reduce((s, n) => s + n.count * scale, 0) + GAP * Math.max(0, col.length - 1);
+      let y = (H - used) / 2;
+      col.forEach(n => {
+        const h = Math.max(1, n.count * scale);
+        pos.set(n.key, { x, y, h, inY: y, outY: y });
+        y += h + GAP;
+      });
+    });
+    const links = [...flows.links]
+      .sort((a, b) => b.count - a.count)
+      .map(l => {
+        const s = pos.get(l.source)!;
+        const t = pos.get(l.target)!;
+        const w = l.count * scale;
+        const y0 = s.outY + w / 2;
+        const y1 = t.inY + w / 2;
+        s.outY += w;
+        t.inY += w;
+        return { ...l, x0: s.x + NODE_W, x1: t.x, y0, y1, w };
+      });
+    return { pos, links };
+  }, [flows, visits.length]);
+
+  if (visits.length === 0) {
+    return <div className="text-[10px] text-cyan-900 uppercase tracking-widest">No completed visits yet</div>;
+  }
+
+  const nodesByKey = new Map(flows.nodes.map(n => [n.key, n]));
+
+  return (
+    <svg viewBox={`-10 -10 ${W + 150} ${H + 20}`} className="w-full h-full">
+      {layout.links.map(l => {
+        const mx = (l.x0 + l.x1) / 2;
+        return (
+          <path
+            key={`${l.source}>${l.target}`}
+            d={`M ${l.x0} ${l.y0} C ${mx} ${l.y0}, ${mx} ${l.y1}, ${l.x1} ${l.y1}`}
+            fill="none"
+            stroke={nodeColor(nodesByKey.get(l.target)!)}
+            strokeOpacity={0.25}
+            strokeWidth={Math.max(1, l.w)}
+            className="hover:stroke-opacity-60"
+          >
+            <title>{`${nodesByKey.get(l.source)!.label} → ${nodesByKey.get(l.target)!.label}: ${l.count}`}</title>
+          </path>
+        );
+      })}
+      {flows.nodes.map(n => {
+        const p = layout.pos.get(n.key)!;
+        return (
+          <g key={n.key}>
+            <rect x={p.x} y={p.y} width={NODE_W} height={p.h} fill={nodeColor(n)} opacity={0.9}>
+              <title>{`${n.label}: ${n.count}`}</title>
+            </rect>
+            {p.h >= 9 && (
+              <text x={p.x + NODE_W + 4} y={p.y + p.h / 2 + 3} fill="#67e8f9" fontSize="9" fontWeight="bold" className="uppercase">
+                {n.label} · {n.count}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      {Array.from({ length: flows.columns }, (_, c) => (
+        <text key={c} x={(c * (W - NODE_W)) / (flows.columns - 1)} y={-2} fill="#155e75" fontSize="9" fontWeight="bold" className="uppercase tracking-widest">
+          {c === 0 ? 'Entrance' : c === flows.columns - 1 ? 'Exit' : `Stop ${c}`}
+        </text>
+      ))}
+    </svg>
+  );
+};
+
+const MatrixView: React.FC<{ visits: readonly CompletedVisit[]; zones: Zone[] }> = ({ visits, zones }) => {
+  const matrix = useMemo(() => transitionMatrix(visits, zones), [visits, zones]);
+  const max = Math.max(1, ...matrix.counts.flat());
+  // Nothing flows into the entrance or out of the exit.
+  const targets = matrix.nodes.slice(1).map((n, k) => ({ ...n, index: k + 1 }));
+  const sources = matrix.nodes.slice(0, -1).map((n, k) => ({ ...n, index: k }));
+
+  return (
+    <div className="overflow-auto">
+      <table className="text-[10px] tabular-nums border-collapse">
+        <thead>
+          <tr>
+            <th className="p-1 text-left text-cyan-800 uppercase tracking-widest">From \ To</th>
+            {targets.map(n => (
+              <th key={n.id} className="p-1 text-cyan-600 font-black uppercase [writing-mode:vertical-rl] rotate-180">{n.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sources.map(from => (
+            <tr key={from.id}>
+              <th className="p-1 pr-3 text-left text-cyan-600 font-black uppercase whitespace-nowrap">{from.label}</th>
+              {targets.map(to => {
+                const n = matrix.counts[from.index][to.index];
+                return (
+                  <td
+                    key={to.id}
+                    className={`w-9 h-7 text-center border border-cyan-900/20 ${n > 0 ? 'text-cyan-100 font-black' : 'text-cyan-950'}`}
+                    style={{ backgroundColor: n > 0 ? `rgba(6, 182, 212, ${0.1 + (0.7 * n) / max})` : undefined }}
+                    title={`${from.label} → ${to.label}: ${n}`}
+                  >
+                    {n || '·'}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const RoutesView: React.FC<{ visits: readonly CompletedVisit[]; zones: Zone[] }> = ({ visits, zones }) => {
+  const [limit, setLimit] = useState(10);
+  const routes = useMemo(() => topRoutes(visits, zones, limit), [visits, zones, limit]);
+
+  return (
+    <div className="flex flex-col gap-2 overflow-y-auto">
+      <div className="flex items-center gap-2 text-[10px] text-cyan-800 uppercase tracking-widest">
+        Show top
+        <select value={limit} onChange={e => setLimit(Number(e.target.value))} className="bg-transparent text-cyan-400 font-black outline-none">
+          {ROUTE_LIMITS.map(n => <option key={n} value={n} className="bg-[#080810]">{n}</option>)}
+        </select>
+      </div>
+      <div className="grid grid-cols-[2rem_1fr_4rem_4rem_5rem] gap-x-3 text-[9px] text-cyan-900 font-black uppercase tracking-widest pb-1 border-b border-cyan-900/30">
+        <span>#</span>
+        <span>Route</span>
+        <span className="text-right">Visits</span>
+        <span className="text-right">Share</span>
+        <span className="text-right">Avg time</span>
+      </div>
+      {routes.length === 0 && <div className="text-[10px] text-cyan-900 uppercase tracking-widest">No completed visits yet</div>}
+      {routes.map((r, i) => (
+        <div key={r.route.join('>')} className="grid grid-cols-[2rem_1fr_4rem_4rem_5rem] gap-x-3 items-baseline text-[10px] tabular-nums py-1 border-b border-cyan-900/10">
+          <span className="text-cyan-800">{i + 1}.</span>
+          <span className="text-cyan-300 font-black uppercase">{r.labels.join(' → ')}</span>
+          <span className="text-right text-cyan-400">{r.count}</span>
+          <span className="text-right text-cyan-500">{Math.round(r.share * 100)}%</span>
+          <span className="text-right text-amber-500">{formatClock(r.avgDurationMs)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const FlowAnalytics: React.FC<FlowAnalyticsProps> = ({ storeName, zones, minZoneMs, getVisits, onClose }) => {
+  const [tab, setTab] = useState<FlowTab>('sankey');
+  const [visits, setVisits] = useState<readonly CompletedVisit[]>(() => [...getVisits()]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setVisits([...getVisits()]), 2000);
+    return () => clearInterval(timer);
+  }, [getVisits]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col p-6 gap-4 text-cyan-300">
+      <div className="flex items-center gap-3">
+        <Route className="w-5 h-5 text-cyan-400" />
+        <h2 className="text-lg font-black tracking-[0.2em] text-cyan-400 uppercase">Zone Flow · {storeName}</h2>
+        <span className="text-[10px] text-cyan-800 uppercase tracking-widest">
+          {visits.length} completed visits · stops ≥ {minZoneMs / 1000}s
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          {TABS.map(t => (
+            <button key={t.id} className={tabClass(tab === t.id)} onClick={() => setTab(t.id)}>
+              {t.label}
+            </button>
+          ))}
+          <button className="p-1.5 border border-cyan-900/50 hover:border-cyan-500/60 ml-2" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex flex-col bg-[#020205] border border-cyan-900/50 p-4 overflow-hidden">
+        {tab === 'sankey' && <SankeyView visits={visits} zones={zones} />}
+        {tab === 'matrix' && <MatrixView visits={visits} zones={zones} />}
+        {tab === 'routes' && <RoutesView visits={visits} zones={zones} />}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Flame, Image, FileText } from 'lucide-react';
+import { HEATMAP_VIEWS, HeatScale, HeatmapView } from '../services/heatmapStore';
+
+interface HeatmapControlsProps {
+  view: HeatmapView;
+  hour: number;
+  scale: HeatScale;
+  persistent: boolean;
+  onViewChange: (view: HeatmapView) => void;
+  onHourChange: (hour: number) => void;
+  onExportPng: () => void;
+  onExportCsv: () => void;
+}
+
+const buttonClass = 'px-2 py-1 border text-[10px] font-black uppercase tracking-widest';
+
+// Person-seconds per cell, shown in minutes once the numbers get large.
+const formatIntensity = (v: number) => (v >= 120 ? `${(v / 60).toFixed(1)}m` : `${v.toFixed(1)}s`);
+
+export const HeatmapControls: React.FC<HeatmapControlsProps> = ({
+  view,
+  hour,
+  scale,
+  persistent,
+  onViewChange,
+  onHourChange,
+  onExportPng,
+  onExportCsv,
+}) => (
+  <div className="absolute top-3 left-3 z-20 flex flex-col gap-2 bg-black/80 border border-cyan-900/50 p-2 text-cyan-300">
+    <div className="flex items-center gap-1">
+      <Flame className="w-3.5 h-3.5 text-amber-500 mr-1" />
+      {HEATMAP_VIEWS.map(v => (
+        <button
+          key={v.id}
+          onClick={() => onViewChange(v.id)}
+          className={`${buttonClass} ${view === v.id ? 'border-cyan-400 bg-cyan-500/20 text-cyan-300' : 'border-cyan-900/50 bg-cyan-950/30 text-cyan-700 hover:border-cyan-500/60'}`}
+        >
+          {v.label}
+        </button>
+      ))}
+      {view === 'hourly' && (
+        <select
+          value={hour}
+          onChange={e => onHourChange(Number(e.target.value))}
+          className="bg-transparent text-cyan-400 text-[10px] font-black outline-none ml-1"
+        >
+          {Array.from({ length: 24 }, (_, h) => (
+            <option key={h} value={h} className="bg-[#080810]">{h.toString().padStart(2, '0')}:00</option>
+          ))}
+        </select>
+      )}
+    </div>
+
+    <div className="flex items-center gap-2 text-[9px] text-cyan-700 uppercase tracking-widest tabular-nums">
+      <span className="w-2.5 h-2.5 bg-[#06b6d4]" /> &lt;{formatIntensity(scale.mid)}
+      <span className="w-2.5 h-2.5 bg-[#f59e0b]" /> &lt;{formatIntensity(scale.high)}
+      <span className="w-2.5 h-2.5 bg-[#ef4444]" /> hot
+      <button onClick={onExportPng} title="Export PNG" className="ml-auto p-1 border border-cyan-900/50 hover:border-cyan-500/60">
+        <Image className="w-3 h-3" />
+      </button>
+      <button onClick={onExportCsv} title="Export CSV" className="p-1 border border-cyan-900/50 hover:border-cyan-500/60">
+        <FileText className="w-3 h-3" />
+      </button>
+    </div>
+    {!persistent && <div className="text-[9px] text-amber-500 uppercase tracking-widest">Replay · not saved</div>}
+  </div>
+);
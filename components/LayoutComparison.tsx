@@ -0,0 +1,326 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, GitCompare, X } from 'lucide-react';
+import { DayArchive, LayoutVersion, StoreConfig } from '../types';
+import { GRID_SIZE } from '../constants';
+import { addDays } from '../services/businessDay';
+import { loadDayArchives } from '../services/dayArchive';
+import { buildZones } from '../services/engagement';
+import { layoutOn, loadLayoutHistory } from '../services/layoutHistory';
+import { DateRange, PeriodSummary, heatmapDifference, summarizePeriod, zoneChanges } from '../services/layoutComparison';
+import { autoHeatScale } from '../services/heatmapStore';
+import { beginPlanFrame, drawHeatmap, paintHeatmap, paintHeatmapDifference } from '../services/mapRenderer';
+
+interface LayoutComparisonProps {
+  storeId: string;
+  storeName: string;
+  store: StoreConfig; // the current layout, for days before any layout was recorded
+  today: string; // the live business day, which isn't archived yet
+  onClose: () => void;
+}
+
+interface Period {
+  range: DateRange;
+  layout: StoreConfig;
+  revision: number | null;
+  layoutChanged: boolean; // another layout took effect inside the range
+  summary: PeriodSummary;
+}
+
+interface PlanHeat {
+  image: HTMLCanvasElement;
+  cols: number;
+  rows: number;
+}
+
+const DEFAULT_SPAN_DAYS = 7;
+
+const inputClass = 'bg-black/60 border border-cyan-900/50 px-1.5 py-1 text-[10px] text-cyan-300 outline-none focus:border-cyan-500';
+const labelClass = 'text-[9px] text-cyan-700 font-black uppercase tracking-widest';
+
+// `span` days either side of `day`; the after range stops at yesterday, the last day that can be archived.
+const splitAt = (day: string, today: string, span = DEFAULT_SPAN_DAYS) => {
+  const yesterday = addDays(today, -1);
+  const end = addDays(day, span - 1);
+  return {
+    before: { from: addDays(day, -span), to: addDays(day, -1) },
+    after: { from: day, to: end < yesterday ? end : yesterday < day ? day : yesterday },
+  };
+};
+
+const formatChange = (before: number | null, after: number | null, format: (v: number) => string) => {
+  if (before === null || after === null) return '—';
+  const delta = after - before;
+  const pct = before !== 0 ? ` (${delta >= 0 ? '+' : ''}${Math.round((delta / before) * 100)}%)` : '';
+  return `${delta >= 0 ? '+' : '−'}${format(Math.abs(delta))}${pct}`;
+};
+
+const changeColor = (before: number | null, after: number | null, higherIsBetter: boolean) => {
+  if (before === null || after === null || after === before) return 'text-cyan-700';
+  return after > before === higherIsBetter ? 'text-emerald-400' : 'text-red-400';
+};
+
+const count = (v: number) => v.toFixed(1);
+const seconds = (ms: number) => `${Math.round(ms / 1000)}s`;
+const percent = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+const ComparisonPlan: React.FC<{
+  title: string;
+  subtitle: string;
+  store: StoreConfig;
+  heat: PlanHeat | null;
+  ghost?: StoreConfig; // the other period's racks, drawn dashed on the difference
+  warning?: string;
+}> = ({ title, subtitle, store, heat, ghost, warning }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current && beginPlanFrame(canvasRef.current, store.width, store.height);
+    if (ctx && heat) drawHeatmap(ctx, heat.image, heat.cols, heat.rows, GRID_SIZE);
+  }, [heat, store]);
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col gap-2">
+      <div className="flex items-baseline gap-2">
+        <span className="text-[11px] font-black text-cyan-400 uppercase tracking-[0.2em]">{title}</span>
+        <span className="text-[9px] text-cyan-700 uppercase tracking-widest truncate">{subtitle}</span>
+      </div>
+      <div className="relative w-full bg-[#020205] border border-cyan-900/50" style={{ aspectRatio: `${store.width} / ${store.height}` }}>
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+        <svg viewBox={`0 0 ${store.width} ${store.height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+          <rect x={0} y={0} width={store.width} height={store.height} fill="none" stroke="#164e63" strokeWidth={6} />
+          {ghost?.racks.map((r, i) => (
+            <rect key={`gr-${i}`} x={r.pos.x - r.w / 2} y={r.pos.y - r.h / 2} width={r.w} height={r.h} fill="none" stroke="#475569" strokeWidth={2} strokeDasharray="8 6" />
+          ))}
+          {ghost?.islands.map((isl, i) => (
+            <rect key={`gi-${i}`} x={isl.rect.x} y={isl.rect.y} width={isl.rect.w} height={isl.rect.h} fill="none" stroke="#475569" strokeWidth={2} strokeDasharray="8 6" />
+          ))}
+          {store.racks.map(r => (
+            <g key={r.id}>
+              <rect x={r.pos.x - r.w / 2} y={r.pos.y - r.h / 2} width={r.w} height={r.h} fill="none" stroke="#0e7490" strokeWidth={3} />
+              <text x={r.pos.x} y={r.pos.y + 4} textAnchor="middle" fill="#06b6d4" fontSize={12} fontWeight="bold" className="opacity-60 uppercase">{r.label}</text>
+            </g>
+          ))}
+          {store.islands.map(isl => (
+            <g key={isl.id}>
+              <rect x={isl.rect.x} y={isl.rect.y} width={isl.rect.w} height={isl.rect.h} fill="none" stroke="#047857" strokeWidth={3} />
+              <text x={isl.rect.x + isl.rect.w / 2} y={isl.rect.y + isl.rect.h / 2} textAnchor="middle" fill="#10b981" fontSize={12} fontWeight="bold" className="opacity-60 uppercase">{isl.label}</text>
+            </g>
+          ))}
+        </svg>
+        {!heat && (
+          <div className="absolute inset-0 flex items-center justify-center text-[10px] text-cyan-900 uppercase tracking-widest">No heatmap</div>
+        )}
+      </div>
+      {warning && (
+        <div className="flex items-center gap-1 text-[9px] text-amber-500 uppercase tracking-widest">
+          <AlertTriangle className="w-3 h-3" /> {warning}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const RangeFields: React.FC<{ label: string; range: DateRange; max: string; onChange: (range: DateRange) => void }> = ({ label, range, max, onChange }) => (
+  <div className="flex items-center gap-2">
+    <span className={labelClass}>{label}</span>
+    <input type="date" className={inputClass} value={range.from} max={range.to} onChange={e => e.target.value && onChange({ ...range, from: e.target.value })} />
+    <span className="text-cyan-800">→</span>
+    <input type="date" className={inputClass} value={range.to} min={range.from} max={max} onChange={e => e.target.value && onChange({ ...range, to: e.target.value })} />
+  </div>
+);
+
+/**
+ * Two ranges of archived business days side by side, each drawn with the
+ * layout that was in effect at its end, plus their heatmap difference and the
+ * change in visits, quick exits and dwell overall and per zone.
+ */
+export const LayoutComparison: React.FC<LayoutComparisonProps> = ({ storeId, storeName, store, today, onClose }) => {
+  const [history, setHistory] = useState<LayoutVersion[]>([]);
+  const [ranges, setRanges] = useState(() => splitAt(addDays(today, -DEFAULT_SPAN_DAYS), today));
+  // Kept with the ranges they were loaded for, so the plans never pair one range's days with another's.
+  const [archives, setArchives] = useState<{ ranges: typeof ranges; before: DayArchive[]; after: DayArchive[] } | null>(null);
+
+  useEffect(() => {
+    loadLayoutHistory(storeId)
+      .then(versions => {
+        setHistory(versions);
+        // Most comparisons are about the latest move, so start there.
+        const latest = versions[versions.length - 1];
+        if (versions.length > 1) setRanges(splitAt(latest.effectiveFrom, today));
+      })
+      .catch(e => console.error('Failed to load layout history', e));
+  }, [storeId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      loadDayArchives(storeId, ranges.before.from, ranges.before.to),
+      loadDayArchives(storeId, ranges.after.from, ranges.after.to),
+    ])
+      .then(([before, after]) => { if (!cancelled) setArchives({ ranges, before, after }); })
+      .catch(e => console.error('Failed to load archived days', e));
+    return () => { cancelled = true; };
+  }, [storeId, ranges]);
+
+  const periods = useMemo(() => {
+    if (!archives) return null;
+    const period = (range: DateRange, days: DayArchive[]): Period => {
+      const version = layoutOn(history, range.to);
+      const layout = version?.store ?? store;
+      return {
+        range,
+        layout,
+        revision: version?.revision ?? null,
+        layoutChanged: history.some(v => v.effectiveFrom > range.from && v.effectiveFrom <= range.to),
+        summary: summarizePeriod(days, buildZones(layout), Math.ceil(layout.width / GRID_SIZE), Math.ceil(layout.height / GRID_SIZE)),
+      };
+    };
+    return { before: period(archives.ranges.before, archives.before), after: period(archives.ranges.after, archives.after) };
+  }, [archives, history, store]);
+
+  // Both periods share one colour scale, so equal colours mean equal traffic.
+  const heat = useMemo(() => {
+    if (!periods) return null;
+    const { before, after } = periods;
+    const scale = autoHeatScale(new Float32Array([...(before.summary.heatmap ?? []), ...(after.summary.heatmap ?? [])]));
+    const planHeat = (s: PeriodSummary): PlanHeat | null => {
+      if (!s.heatmap) return null;
+      const image = document.createElement('canvas');
+      paintHeatmap(image, s.heatmap, s.cols, s.rows, scale);
+      return { image, cols: s.cols, rows: s.rows };
+    };
+    const diff = heatmapDifference(before.summary, after.summary);
+    let difference: PlanHeat | null = null;
+    if (diff) {
+      const image = document.createElement('canvas');
+      paintHeatmapDifference(image, diff, after.summary.cols, after.summary.rows, autoHeatScale(diff.map(Math.abs)).max);
+      difference = { image, cols: after.summary.cols, rows: after.summary.rows };
+    }
+    return { before: planHeat(before.summary), after: planHeat(after.summary), difference };
+  }, [periods]);
+
+  const subtitle = (p: Period) =>
+    `${p.range.from} → ${p.range.to} · ${p.summary.days} day${p.summary.days === 1 ? '' : 's'} · ${p.revision !== null ? `rev ${p.revision}` : 'current layout'}`;
+
+  const kpis = periods && [
+    {
+      label: 'Entries / day',
+      before: periods.before.summary.days > 0 ? periods.before.summary.totals.totalCustomers / periods.before.summary.days : null,
+      after: periods.after.summary.days > 0 ? periods.after.summary.totals.totalCustomers / periods.after.summary.days : null,
+      format: count,
+      higherIsBetter: true,
+    },
+    { label: 'Quick-exit rate', before: periods.before.summary.quickExitRate, after: periods.after.summary.quickExitRate, format: percent, higherIsBetter: false },
+    { label: 'Avg dwell', before: periods.before.summary.avgDwellMs, after: periods.after.summary.avgDwellMs, format: seconds, higherIsBetter: true },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col p-6 gap-4 text-cyan-300 overflow-y-auto">
+      <div className="flex items-center gap-3">
+        <GitCompare className="w-5 h-5 text-cyan-400" />
+        <h2 className="text-lg font-black tracking-[0.2em] text-cyan-400 uppercase">Layout Comparison · {storeName}</h2>
+        <button className="ml-auto p-1.5 border border-cyan-900/50 hover:border-cyan-500/60" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6 bg-cyan-950/10 border border-cyan-900/30 p-3">
+        <RangeFields label="Before" range={ranges.before} max={addDays(today, -1)} onChange={before => setRanges(r => ({ ...r, before }))} />
+        <RangeFields label="After" range={ranges.after} max={addDays(today, -1)} onChange={after => setRanges(r => ({ ...r, after }))} />
+        <label className="flex items-center gap-2 ml-auto">
+          <span className={labelClass}>Split at layout</span>
+          <select
+            className={inputClass}
+            value=""
+            onChange={e => e.target.value && setRanges(splitAt(e.target.value, today))}
+          >
+            <option value="" className="bg-[#080810]">—</option>
+            {history.map(v => (
+              <option key={v.revision} value={v.effectiveFrom} className="bg-[#080810]">rev {v.revision} · from {v.effectiveFrom}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!periods || !heat ? (
+        <div className="text-[10px] text-cyan-800 uppercase tracking-widest">Loading archived days...</div>
+      ) : (
+        <>
+          <div className="flex gap-4">
+            <ComparisonPlan
+              title="Before"
+              subtitle={subtitle(periods.before)}
+              store={periods.before.layout}
+              heat={heat.before}
+              warning={periods.before.layoutChanged ? 'Layout changed during this period' : undefined}
+            />
+            <ComparisonPlan
+              title="After"
+              subtitle={subtitle(periods.after)}
+              store={periods.after.layout}
+              heat={heat.after}
+              warning={periods.after.layoutChanged ? 'Layout changed during this period' : undefined}
+            />
+            <ComparisonPlan
+              title="Difference"
+              subtitle="orange: more time spent · cyan: less"
+              store={periods.after.layout}
+              ghost={periods.before.layout}
+              heat={heat.difference}
+              warning={periods.before.summary.heatmap && periods.after.summary.heatmap && !heat.difference ? "Plan size changed; heatmaps can't be subtracted" : undefined}
+            />
+          </div>
+
+          <div className="flex gap-4 items-start">
+            <div className="w-96 bg-cyan-950/10 border border-cyan-900/30 p-4">
+              <h3 className="text-[11px] font-black text-cyan-500 mb-3 uppercase tracking-[0.2em] border-l-4 border-cyan-600 pl-3">Store</h3>
+              <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-4 gap-y-1 text-[10px] tabular-nums">
+                {['', 'Before', 'After', 'Change'].map(h => (
+                  <span key={h} className={`${labelClass} ${h ? 'text-right' : ''}`}>{h}</span>
+                ))}
+                {kpis!.map(k => (
+                  <React.Fragment key={k.label}>
+                    <span className="text-cyan-600 uppercase tracking-widest">{k.label}</span>
+                    <span className="text-right">{k.before === null ? '—' : k.format(k.before)}</span>
+                    <span className="text-right">{k.after === null ? '—' : k.format(k.after)}</span>
+                    <span className={`text-right ${changeColor(k.before, k.after, k.higherIsBetter)}`}>{formatChange(k.before, k.after, k.format)}</span>
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex-1 bg-cyan-950/10 border border-cyan-900/30 p-4">
+              <h3 className="text-[11px] font-black text-cyan-500 mb-3 uppercase tracking-[0.2em] border-l-4 border-cyan-600 pl-3">Zones · per day</h3>
+              <div className="grid grid-cols-[1fr_auto_auto_auto_auto_auto_auto] gap-x-4 gap-y-1 text-[10px] tabular-nums">
+                {['Zone', 'Visits before', 'after', 'change', 'Dwell before', 'after', 'change'].map((h, i) => (
+                  <span key={i} className={`${labelClass} ${i > 0 ? 'text-right' : ''}`}>{h}</span>
+                ))}
+                {zoneChanges(periods.before.summary, periods.after.summary).map(z => {
+                  const visits = [z.before?.visits ?? null, z.after?.visits ?? null] as const;
+                  const dwell = [z.before?.dwellMs ?? null, z.after?.dwellMs ?? null] as const;
+                  return (
+                    <React.Fragment key={z.key}>
+                      <span className={`uppercase tracking-widest ${z.kind === 'rack' ? 'text-cyan-600' : 'text-emerald-600'}`}>
+                        {z.label}
+                        {z.status !== 'kept' && <span className="ml-2 text-[8px] text-amber-500">{z.status}</span>}
+                      </span>
+                      <span className="text-right">{visits[0] === null ? '—' : count(visits[0])}</span>
+                      <span className="text-right">{visits[1] === null ? '—' : count(visits[1])}</span>
+                      <span className={`text-right ${changeColor(visits[0], visits[1], true)}`}>{formatChange(visits[0], visits[1], count)}</span>
+                      <span className="text-right">{dwell[0] === null ? '—' : seconds(dwell[0])}</span>
+                      <span className="text-right">{dwell[1] === null ? '—' : seconds(dwell[1])}</span>
+                      <span className={`text-right ${changeColor(dwell[0], dwell[1], true)}`}>{formatChange(dwell[0], dwell[1], seconds)}</span>
+                    </React.Fragment>
+                  );
+                })}
+              </div>
+              {periods.before.summary.days + periods.after.summary.days === 0 && (
+                <div className="text-[10px] text-cyan-900 uppercase tracking-widest pt-4">No archived days in either range</div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
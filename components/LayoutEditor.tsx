@@ -0,0 +1,260 @@
+import React, { useRef } from 'react';
+import { Plus, Trash2, Download, Upload, RotateCcw, Check, Square, Hexagon } from 'lucide-react';
+import { StoreConfig } from '../types';
+import {
+  DragMode,
+  LayoutSelection,
+  addIsland,
+  addRack,
+  applyDrag,
+  itemLabel,
+  itemSize,
+  relabelItem,
+  removeItem,
+  resizeItem,
+} from '../services/layoutEditing';
+
+const HANDLE = 12;
+
+const isSelected = (sel: LayoutSelection | null, kind: LayoutSelection['kind'], index?: number) =>
+  !!sel && sel.kind === kind && (sel.kind === 'entrance' || ('index' in sel && sel.index === index));
+
+interface LayoutEditorLayerProps {
+  store: StoreConfig;
+  selection: LayoutSelection | null;
+  onSelect: (sel: LayoutSelection | null) => void;
+  onChange: (store: StoreConfig) => void;
+}
+
+/** Drag/resize handles drawn on top of the floor plan while editing. */
+export const LayoutEditorLayer: React.FC<LayoutEditorLayerProps> = ({ store, selection, onSelect, onChange }) => {
+  const startDrag = (e: React.PointerEvent<SVGElement>, sel: LayoutSelection, mode: DragMode) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onSelect(sel);
+
+    const svg = e.currentTarget.ownerSVGElement;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return;
+    const inverse = ctm.inverse();
+    const toPlan = (clientX: number, clientY: number) => new DOMPoint(clientX, clientY).matrixTransform(inverse);
+
+    const origin = toPlan(e.clientX, e.clientY);
+    const base = store;
+
+    const move = (ev: PointerEvent) => {
+      const p = toPlan(ev.clientX, ev.clientY);
+      onChange(applyDrag(base, sel, mode, p.x - origin.x, p.y - origin.y));
+    };
+    const up = () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', up);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up);
+  };
+
+  const boxProps = (selected: boolean) => ({
+    fill: selected ? '#f59e0b22' : '#06b6d411',
+    stroke: selected ? '#f59e0b' : '#06b6d4',
+    strokeWidth: selected ? 2 : 1,
+    strokeDasharray: selected ? undefined : '4 3',
+    style: { cursor: 'move' },
+  });
+
+  const resizeHandle = (x: number, y: number, sel: LayoutSelection) => (
+    <rect
+      x={x - HANDLE / 2}
+      y={y - HANDLE / 2}
+      width={HANDLE}
+      height={HANDLE}
+      fill="#f59e0b"
+      style={{ cursor: 'nwse-resize' }}
+      onPointerDown={e => startDrag(e, sel, 'resize')}
+    />
+  );
+
+  return (
+    <g>
+      <rect x={0} y={0} width={store.width} height={store.height} fill="transparent" onPointerDown={() => onSelect(null)} />
+
+      {store.racks.map((r, i) => {
+        const sel: LayoutSelection = { kind: 'rack', index: i };
+        const selected = isSelected(selection, 'rack', i);
+        const left = r.pos.x - r.w / 2;
+        const top = r.pos.y - r.h / 2;
+        return (
+          <g key={`edit-rack-${i}`}>
+            <rect x={left} y={top} width={r.w} height={r.h} {...boxProps(selected)} onPointerDown={e => startDrag(e, sel, 'move')} />
+            {selected && resizeHandle(left + r.w, top + r.h, sel)}
+          </g>
+        );
+      })}
+
+      {store.islands.map((isl, i) => {
+        const sel: LayoutSelection = { kind: 'island', index: i };
+        const selected = isSelected(selection, 'island', i);
+        return (
+          <g key={`edit-isl-${i}`}>
+            <rect x={isl.rect.x} y={isl.rect.y} width={isl.rect.w} height={isl.rect.h} {...boxProps(selected)} onPointerDown={e => startDrag(e, sel, 'move')} />
+            {selected && resizeHandle(isl.rect.x + isl.rect.w, isl.rect.y + isl.rect.h, sel)}
+          </g>
+        );
+      })}
+
+      <rect
+        x={store.entrance.x - 70}
+        y={store.entrance.y - 10}
+        width={140}
+        height={20}
+        {...boxProps(isSelected(selection, 'entrance'))}
+        onPointerDown={e => startDrag(e, { kind: 'entrance' }, 'move')}
+      />
+    </g>
+  );
+};
+
+interface LayoutEditorPanelProps {
+  store: StoreConfig;
+  revision: number;
+  effectiveFrom?: string;
+  selection: LayoutSelection | null;
+  errors: string[];
+  onSelect: (sel: LayoutSelection | null) => void;
+  onChange: (store: StoreConfig) => void;
+  onEffectiveFromChange: (day: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onRevert: () => void;
+  onDone: () => void;
+}
+
+const inputClass = 'w-full bg-black/60 border border-cyan-900/50 px-2 py-1 text-[11px] text-cyan-200 outline-none focus:border-cyan-500';
+const buttonClass = 'flex items-center justify-center gap-1 px-2 py-1.5 border border-cyan-900/50 bg-cyan-950/30 hover:border-cyan-500/60 text-[10px] font-black uppercase tracking-widest disabled:opacity-30';
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (v: number) => void }> = ({ label, value, onChange }) => (
+  <label className="flex flex-col gap-1 text-[9px] text-cyan-800 uppercase tracking-widest">
+    {label}
+    <input
+      type="number"
+      value={value}
+      min={1}
+      onChange={e => {
+        const v = Number(e.target.value);
+        if (Number.isFinite(v) && v > 0) onChange(v);
+      }}
+      className={inputClass}
+    />
+  </label>
+);
+
+export const LayoutEditorPanel: React.FC<LayoutEditorPanelProps> = ({
+  store,
+  revision,
+  effectiveFrom,
+  selection,
+  errors,
+  onSelect,
+  onChange,
+  onEffectiveFromChange,
+  onExport,
+  onImport,
+  onRevert,
+  onDone,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const size = selection ? itemSize(store, selection) : null;
+
+  return (
+    <div className="flex-1 bg-cyan-950/10 border border-amber-900/40 p-4 rounded-sm flex flex-col gap-4 overflow-y-auto text-cyan-300">
+      <h3 className="text-[11px] font-black text-amber-500 flex items-center gap-2 uppercase tracking-[0.2em] border-l-4 border-amber-600 pl-3">
+        Layout Editor <span className="text-cyan-800 ml-auto">rev {revision}</span>
+      </h3>
+
+      <label className="flex flex-col gap-1 text-[9px] text-cyan-800 uppercase tracking-widest">
+        Store name
+        <input value={store.name} onChange={e => onChange({ ...store, name: e.target.value })} className={inputClass} />
+      </label>
+      <label className="flex flex-col gap-1 text-[9px] text-cyan-800 uppercase tracking-widest">
+        Effective from
+        <input type="date" value={effectiveFrom ?? ''} onChange={e => e.target.value && onEffectiveFromChange(e.target.value)} className={inputClass} />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField label="Width px" value={store.width} onChange={width => onChange({ ...store, width })} />
+        <NumberField label="Height px" value={store.height} onChange={height => onChange({ ...store, height })} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button className={buttonClass} onClick={() => { onChange(addRack(store)); onSelect({ kind: 'rack', index: store.racks.length }); }}>
+          <Plus className="w-3 h-3" /><Square className="w-3 h-3" /> Rack
+        </button>
+        <button className={buttonClass} onClick={() => { onChange(addIsland(store)); onSelect({ kind: 'island', index: store.islands.length }); }}>
+          <Plus className="w-3 h-3" /><Hexagon className="w-3 h-3" /> Island
+        </button>
+      </div>
+
+      <div className="border-t border-cyan-900/30 pt-3 flex flex-col gap-2">
+        {!selection && (
+          <div className="text-[10px] text-cyan-800 uppercase tracking-widest">
+            Click a rack, island or the entrance to edit it. Drag to move, drag the amber handle to resize.
+          </div>
+        )}
+        {selection && (
+          <>
+            <div className="text-[9px] text-amber-500 font-black uppercase tracking-widest">
+              {selection.kind === 'entrance' ? 'Entrance' : `${selection.kind} #${selection.index + 1}`}
+            </div>
+            {selection.kind !== 'entrance' && (
+              <label className="flex flex-col gap-1 text-[9px] text-cyan-800 uppercase tracking-widest">
+                Label
+                <input
+                  value={itemLabel(store, selection)}
+                  onChange={e => onChange(relabelItem(store, selection, e.target.value.toUpperCase()))}
+                  className={inputClass}
+                />
+              </label>
+            )}
+            {size && (
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField label="W" value={size.w} onChange={w => onChange(resizeItem(store, selection, w, size.h))} />
+                <NumberField label="H" value={size.h} onChange={h => onChange(resizeItem(store, selection, size.w, h))} />
+              </div>
+            )}
+            {selection.kind === 'entrance' && (
+              <div className="text-[10px] text-cyan-600 tabular-nums">x {store.entrance.x} · y {store.entrance.y}</div>
+            )}
+            {selection.kind !== 'entrance' && (
+              <button className={`${buttonClass} text-red-400`} onClick={() => { onChange(removeItem(store, selection)); onSelect(null); }}>
+                <Trash2 className="w-3 h-3" /> Delete
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="border border-red-900/60 bg-red-950/30 p-2 text-[10px] text-red-300 space-y-1 max-h-40 overflow-y-auto">
+          {errors.map((err, i) => <div key={i}>{err}</div>)}
+        </div>
+      )}
+
+      <div className="mt-auto grid grid-cols-2 gap-2">
+        <button className={buttonClass} onClick={onExport}><Download className="w-3 h-3" /> Export</button>
+        <button className={buttonClass} onClick={() => fileInputRef.current?.click()}><Upload className="w-3 h-3" /> Import</button>
+        <button className={buttonClass} onClick={onRevert}><RotateCcw className="w-3 h-3" /> Revert</button>
+        <button className={`${buttonClass} text-emerald-400`} onClick={onDone}><Check className="w-3 h-3" /> Done</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
+      </div>
+    </div>
+  );
+};
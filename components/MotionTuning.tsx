@@ -0,0 +1,45 @@
+import React from 'react';
+import { MotionConfig } from '../types';
+
+interface MotionTuningProps {
+  config: MotionConfig;
+  showDebug: boolean;
+  onChange: (config: MotionConfig) => void;
+  onToggleDebug: () => void;
+  onReset: () => void;
+}
+
+const FIELDS: { key: keyof MotionConfig; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'measurementNoisePx', label: 'Meas. noise', min: 1, max: 60, step: 1, unit: 'px' },
+  { key: 'accelNoisePxS2', label: 'Accel. noise', min: 5, max: 400, step: 5, unit: 'px/s²' },
+  { key: 'maxPredictMs', label: 'Predict gap', min: 0, max: 3000, step: 100, unit: 'ms' },
+  { key: 'headingTauMs', label: 'Turn smooth', min: 0, max: 1000, step: 10, unit: 'ms' },
+  { key: 'displayTauMs', label: 'Draw smooth', min: 0, max: 500, step: 10, unit: 'ms' },
+];
+
+export const MotionTuning: React.FC<MotionTuningProps> = ({ config, showDebug, onChange, onToggleDebug, onReset }) => (
+  <div className="bg-black/80 border border-cyan-900/50 px-3 py-2 text-[10px] font-mono tabular-nums flex flex-col gap-1 w-64">
+    <div className="flex items-center gap-2">
+      <span className="text-cyan-500 font-black uppercase tracking-widest">Motion filter</span>
+      <button className="ml-auto text-[9px] text-cyan-700 hover:text-cyan-400 uppercase tracking-widest" onClick={onReset}>Reset</button>
+    </div>
+    {FIELDS.map(f => (
+      <label key={f.key} className="grid grid-cols-[5.5rem_1fr_4rem] items-center gap-2">
+        <span className="text-cyan-800 uppercase tracking-widest">{f.label}</span>
+        <input
+          type="range"
+          min={f.min}
+          max={f.max}
+          step={f.step}
+          value={config[f.key]}
+          onChange={e => onChange({ ...config, [f.key]: Number(e.target.value) })}
+          className="accent-cyan-500"
+        />
+        <span className="text-right text-cyan-300">{config[f.key]} {f.unit}</span>
+      </label>
+    ))}
+    <label className="flex items-center gap-2 text-cyan-600 uppercase tracking-widest pt-1 border-t border-cyan-900/30">
+      <input type="checkbox" checked={showDebug} onChange={onToggleDebug} /> Raw vs filtered
+    </label>
+  </div>
+);
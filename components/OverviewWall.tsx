@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, LayoutGrid } from 'lucide-react';
+import { Alert, StoreConfig, StoreSummary } from '../types';
+import { StoreMonitor } from '../services/storeMonitor';
+import { beginPlanFrame, drawAgentDots } from '../services/mapRenderer';
+import { entranceLine } from '../services/entranceCounter';
+import { ENTRANCE_COUNTER_CONFIG } from '../constants';
+
+interface OverviewWallProps {
+  stores: StoreConfig[];
+  monitors: ReadonlyMap<string, StoreMonitor>;
+  currentStoreId: string;
+  currentAlerts: Alert[]; // the full view's feed is authoritative for its own store
+  onOpen: (storeId: string) => void;
+}
+
+const REFRESH_MS = 1000;
+// A store that hasn't sent a frame for this long is shown as offline.
+const LIVE_WITHIN_MS = 10_000;
+const DOT_RADIUS_PX = 14;
+
+const SEVERITY_BORDER: Record<Alert['severity'], string> = {
+  critical: 'border-red-500/70 shadow-[0_0_20px_rgba(239,68,68,0.25)] animate-pulse',
+  warning: 'border-amber-500/60',
+};
+
+const worstSeverity = (alerts: Alert[]): Alert['severity'] | null =>
+  alerts.some(a => a.severity === 'critical') ? 'critical' : alerts.length > 0 ? 'warning' : null;
+
+const Kpi: React.FC<{ label: string; value: string; color: string }> = ({ label, value, color }) => (
+  <div className="flex flex-col">
+    <span className="text-[9px] text-cyan-900 font-black uppercase tracking-[0.3em]">{label}</span>
+    <span className={`text-2xl font-black tabular-nums ${color}`}>{value}</span>
+  </div>
+);
+
+const TileStat: React.FC<{ label: string; value: number; color: string }> = ({ label, value, color }) => (
+  <span className="flex flex-col">
+    <span className="text-[9px] text-cyan-900 uppercase tracking-widest">{label}</span>
+    <span className={`text-lg font-black ${color}`}>{value}</span>
+  </span>
+);
+
+const StorePlan: React.FC<{ store: StoreConfig; canvasRef: (el: HTMLCanvasElement | null) => void }> = ({ store, canvasRef }) => {
+  const line = entranceLine(store, ENTRANCE_COUNTER_CONFIG.halfWidthPx);
+  return (
+    <div className="relative w-full bg-black/60" style={{ aspectRatio: `${store.width} / ${store.height}` }}>
+      <svg viewBox={`0 0 ${store.width} ${store.height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+        <rect x={0} y={0} width={store.width} height={store.height} fill="none" stroke="#164e63" strokeWidth={6} />
+        {store.racks.map((r, i) => (
+          <rect key={`r-${i}`} x={r.pos.x - r.w / 2} y={r.pos.y - r.h / 2} width={r.w} height={r.h} fill="#06b6d408" stroke="#0e7490" strokeWidth={3} />
+        ))}
+        {store.islands.map((isl, i) => (
+          <rect key={`i-${i}`} x={isl.rect.x} y={isl.rect.y} width={isl.rect.w} height={isl.rect.h} fill="#10b98108" stroke="#047857" strokeWidth={3} />
+        ))}
+        <line x1={line.a.x} y1={line.a.y} x2={line.b.x} y2={line.b.y} stroke="#06b6d4" strokeWidth={10} />
+      </svg>
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+    </div>
+  );
+};
+
+/**
+ * Every store at once, each from its own StoreMonitor, so switching the full
+ * view between stores doesn't reset what the wall shows.
+ */
+export const OverviewWall: React.FC<OverviewWallProps> = ({ stores, monitors, currentStoreId, currentAlerts, onOpen }) => {
+  const canvasesRef = useRef(new Map<string, HTMLCanvasElement>());
+  const [summaries, setSummaries] = useState<StoreSummary[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const refresh = () => {
+      setSummaries([...monitors.values()].map(m => m.summary()));
+      setNow(Date.now());
+    };
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [monitors]);
+
+  // The monitors are only animated while the wall is on screen.
+  useEffect(() => {
+    let raf = 0;
+    let last = performance.now();
+    const frame = (time: number) => {
+      const dtMs = Math.min(Math.max(time - last, 0), 250);
+      last = time;
+      stores.forEach(s => {
+        const monitor = monitors.get(s.id);
+        const canvas = canvasesRef.current.get(s.id);
+        if (!monitor) return;
+        monitor.simulation.step(dtMs, time);
+        const ctx = canvas && beginPlanFrame(canvas, s.width, s.height);
+        if (ctx) drawAgentDots(ctx, monitor.simulation.values(), DOT_RADIUS_PX);
+      });
+      raf = requestAnimationFrame(frame);
+    };
+    raf = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(raf);
+  }, [stores, monitors]);
+
+  const summaryOf = (storeId: string) => summaries.find(s => s.storeId === storeId);
+  const alertsOf = (storeId: string) =>
+    storeId === currentStoreId ? currentAlerts.filter(a => !a.clearedAt && !a.acknowledgedAt) : summaryOf(storeId)?.alerts ?? [];
+  const total = (key: 'occupancy' | 'entries' | 'quickExits' | 'lineEntries') => summaries.reduce((sum, s) => sum + s[key], 0);
+  const live = summaries.filter(s => s.lastFrameAt !== null && now - s.lastFrameAt < LIVE_WITHIN_MS).length;
+  const openAlerts = stores.reduce((sum, s) => sum + alertsOf(s.id).length, 0);
+
+  return (
+    <div className="flex-1 flex flex-col gap-4 overflow-hidden">
+      <div className="flex items-center gap-12 bg-cyan-950/10 border border-cyan-900/30 px-6 py-3">
+        <h3 className="text-[11px] font-black text-cyan-500 flex items-center gap-2 uppercase tracking-[0.2em] border-l-4 border-cyan-600 pl-3 mr-auto">
+          <LayoutGrid className="w-3.5 h-3.5" /> All Stores
+        </h3>
+        <Kpi label="Inside now" value={total('occupancy').toString()} color="text-cyan-400" />
+        <Kpi label="Entries" value={total('entries').toString()} color="text-emerald-400" />
+        <Kpi label="Line entries" value={total('lineEntries').toString()} color="text-emerald-600" />
+        <Kpi label="Quick exits" value={total('quickExits').toString()} color="text-red-400" />
+        <Kpi label="Open alerts" value={openAlerts.toString()} color={openAlerts > 0 ? 'text-amber-400' : 'text-cyan-800'} />
+        <Kpi label="Stores live" value={`${live}/${stores.length}`} color={live < stores.length ? 'text-amber-400' : 'text-cyan-400'} />
+      </div>
+
+      <div className="flex-1 overflow-y-auto grid grid-cols-1 lg:grid-cols-2 2xl:grid-cols-3 gap-4 content-start">
+        {stores.map(store => {
+          const summary = summaryOf(store.id);
+          const alerts = alertsOf(store.id);
+          const severity = worstSeverity(alerts);
+          const isLive = summary?.lastFrameAt != null && now - summary.lastFrameAt < LIVE_WITHIN_MS;
+          return (
+            <button
+              key={store.id}
+              className={`text-left bg-cyan-950/10 border p-3 flex flex-col gap-2 hover:border-cyan-400/70 ${severity ? SEVERITY_BORDER[severity] : 'border-cyan-900/40'}`}
+              onClick={() => onOpen(store.id)}
+            >
+              <div className="flex items-center gap-2">
+                <div className={`w-2 h-2 rounded-full ${isLive ? 'bg-emerald-500' : 'bg-red-500'}`} />
+                <span className="text-xs font-black text-cyan-300 uppercase tracking-widest truncate">{store.name}</span>
+                {store.id === currentStoreId && <span className="text-[9px] text-cyan-700 uppercase tracking-widest">· full view</span>}
+                <span className="ml-auto text-[9px] text-cyan-800 uppercase tracking-widest">
+                  {isLive ? 'Live' : summary?.lastFrameAt ? `Silent ${Math.round((now - summary.lastFrameAt) / 1000)}s` : 'No data'}
+                </span>
+              </div>
+
+              <StorePlan
+                store={store}
+                canvasRef={el => {
+                  if (el) canvasesRef.current.set(store.id, el);
+                  else canvasesRef.current.delete(store.id);
+                }}
+              />
+
+              <div className="grid grid-cols-4 gap-2 text-[10px] tabular-nums">
+                <TileStat label="Inside" value={summary?.occupancy ?? 0} color="text-cyan-400" />
+                <TileStat label="Entries" value={summary?.entries ?? 0} color="text-emerald-400" />
+                <TileStat label="Line" value={summary?.lineEntries ?? 0} color="text-emerald-600" />
+                <TileStat label="Quick exits" value={summary?.quickExits ?? 0} color="text-red-400" />
+              </div>
+
+              <div className={`flex items-center gap-2 text-[10px] min-h-[1rem] ${severity === 'critical' ? 'text-red-400' : 'text-amber-400'}`}>
+                {alerts.length > 0 ? (
+                  <>
+                    <AlertTriangle className="w-3 h-3 shrink-0" />
+                    <span className="truncate">{alerts[0].message}</span>
+                    {alerts.length > 1 && <span className="ml-auto shrink-0">+{alerts.length - 1}</span>}
+                  </>
+                ) : (
+                  <span className="text-cyan-900 uppercase tracking-widest">No alerts</span>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from 'react';
+import { FrameTiming, FrameTimingSnapshot } from '../services/mapRenderer';
+
+interface PerfOverlayProps {
+  timing: FrameTiming;
+}
+
+export const PerfOverlay: React.FC<PerfOverlayProps> = ({ timing }) => {
+  const [snap, setSnap] = useState<FrameTimingSnapshot>(() => timing.snapshot());
+
+  useEffect(() => {
+    const timer = setInterval(() => setSnap(timing.snapshot()), 500);
+    return () => clearInterval(timer);
+  }, [timing]);
+
+  const fpsColor = snap.fps >= 50 ? 'text-emerald-400' : snap.fps >= 30 ? 'text-amber-400' : 'text-red-400';
+
+  return (
+    <div className="bg-black/80 border border-cyan-900/50 px-3 py-2 text-[10px] font-mono tabular-nums grid grid-cols-[auto_auto] gap-x-4 gap-y-0.5">
+      <span className="text-cyan-800 uppercase tracking-widest">FPS</span>
+      <span className={`text-right font-black ${fpsColor}`}>{snap.fps.toFixed(0)}</span>
+      <span className="text-cyan-800 uppercase tracking-widest">Frame avg</span>
+      <span className="text-right text-cyan-300">{snap.avgFrameMs.toFixed(2)} ms</span>
+      <span className="text-cyan-800 uppercase tracking-widest">Frame max</span>
+      <span className="text-right text-cyan-300">{snap.maxFrameMs.toFixed(2)} ms</span>
+      <span className="text-cyan-800 uppercase tracking-widest">Tracks</span>
+      <span className="text-right text-cyan-300">{snap.agents}</span>
+    </div>
+  );
+};
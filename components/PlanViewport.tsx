@@ -0,0 +1,36 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface PlanViewportProps {
+  width: number;
+  height: number;
+  fill?: number; // fraction of the parent's height the plan may use
+  children: React.ReactNode;
+}
+
+/**
+ * Largest box with the plan's aspect ratio that fits the parent. Canvas layers
+ * and the SVG plan stacked inside it share exactly the same plan coordinates.
+ */
+export const PlanViewport: React.FC<PlanViewportProps> = ({ width, height, fill = 0.95, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ w: 0, h: 0 });
+
+  useEffect(() => {
+    const parent = ref.current?.parentElement;
+    if (!parent) return;
+    const fit = () => {
+      const scale = Math.min(parent.clientWidth / width, (parent.clientHeight * fill) / height);
+      setSize({ w: Math.floor(width * scale), h: Math.floor(height * scale) });
+    };
+    fit();
+    const observer = new ResizeObserver(fit);
+    observer.observe(parent);
+    return () => observer.disconnect();
+  }, [width, height, fill]);
+
+  return (
+    <div ref={ref} className="relative" style={{ width: size.w, height: size.h }}>
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Save, Shield, Trash2, X } from 'lucide-react';
+import { FrameDisplay, PrivacySettings, RetentionPolicy } from '../types';
+
+interface PrivacyPanelProps {
+  settings: PrivacySettings;
+  lastPurgeAt: number | null;
+  onSave: (settings: PrivacySettings) => void;
+  onPurgeNow: (retention: RetentionPolicy) => void;
+  onClose: () => void;
+}
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1.5 border border-cyan-900/50 bg-cyan-950/30 hover:border-cyan-500/60 text-[10px] font-black uppercase tracking-widest disabled:opacity-30';
+const inputClass = 'bg-black/60 border border-cyan-900/50 px-1.5 py-1 text-[10px] text-cyan-300 outline-none focus:border-cyan-500';
+const labelClass = 'text-[9px] text-cyan-700 font-black uppercase tracking-widest';
+
+const FRAME_OPTIONS: { value: FrameDisplay; label: string }[] = [
+  { value: 'raw', label: 'Show' },
+  { value: 'blur', label: 'Blur' },
+  { value: 'silhouette', label: 'Silhouettes' },
+  { value: 'hidden', label: 'Hide' },
+];
+
+const RETENTION_FIELDS: { key: keyof RetentionPolicy; label: string }[] = [
+  { key: 'visitsDays', label: 'Visit log' },
+  { key: 'recordingsDays', label: 'Recordings' },
+  { key: 'alertsDays', label: 'Alert history' },
+  { key: 'historyDays', label: 'Heatmaps & days' },
+];
+
+export const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ settings, lastPurgeAt, onSave, onPurgeNow, onClose }) => {
+  const [draft, setDraft] = useState(settings);
+  const setRetention = (key: keyof RetentionPolicy, days: number) =>
+    setDraft(d => ({ ...d, retention: { ...d.retention, [key]: Math.max(1, Math.round(days) || 1) } }));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center p-6 text-cyan-300">
+      <div className="w-full max-w-lg bg-[#05050c] border border-cyan-900/60 p-5 flex flex-col gap-4 text-[10px]">
+        <div className="flex items-center gap-2">
+          <Shield className="w-4 h-4 text-cyan-400" />
+          <h3 className="text-sm font-black tracking-[0.2em] text-cyan-400 uppercase">Privacy</h3>
+          <button className="ml-auto p-1 border border-cyan-900/50 hover:border-cyan-500/60" onClick={onClose}>
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className={labelClass}>Live camera frames</span>
+          <div className="flex gap-1">
+            {FRAME_OPTIONS.map(o => (
+              <button
+                key={o.value}
+                className={`${buttonClass} ${draft.frameDisplay === o.value ? 'border-cyan-400 text-cyan-200' : 'text-cyan-700'}`}
+                onClick={() => setDraft(d => ({ ...d, frameDisplay: o.value }))}
+              >
+                {o.label}
+              </button>
+            ))}
+          </div>
+          {draft.frameDisplay !== 'raw' && (
+            <span className="text-cyan-800">Recordings made from now on won't contain camera frames either.</span>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={draft.hideDemographics} onChange={e => setDraft(d => ({ ...d, hideDemographics: e.target.checked }))} />
+          <span className={labelClass}>Hide gender and age tags on screen</span>
+        </label>
+
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={draft.hashTrackIds} onChange={e => setDraft(d => ({ ...d, hashTrackIds: e.target.checked }))} />
+          <span className={labelClass}>Hash track ids before storing visits, alerts and recordings</span>
+        </label>
+
+        <div className="flex flex-col gap-1">
+          <span className={labelClass}>Keep stored history for (days)</span>
+          <div className="grid grid-cols-3 gap-2">
+            {RETENTION_FIELDS.map(f => (
+              <label key={f.key} className="flex flex-col gap-1 text-cyan-600">
+                {f.label}
+                <input type="number" min={1} className={inputClass} value={draft.retention[f.key]} onChange={e => setRetention(f.key, Number(e.target.value))} />
+              </label>
+            ))}
+          </div>
+          <span className="text-cyan-800">
+            Expired data is deleted hourly{lastPurgeAt ? ` · last run ${new Date(lastPurgeAt).toLocaleTimeString()}` : ''}.
+          </span>
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>Smallest gender / age group in exports (k)</span>
+          <input
+            type="number"
+            min={1}
+            className={`${inputClass} w-20`}
+            value={draft.minGroupSize}
+            onChange={e => setDraft(d => ({ ...d, minGroupSize: Math.max(1, Math.round(Number(e.target.value)) || 1) }))}
+          />
+          <span className="text-cyan-800">Smaller groups are exported as "suppressed"; above 1, recording exports carry no gender or age.</span>
+        </label>
+
+        <div className="flex items-center gap-2 pt-3 border-t border-cyan-900/30">
+          <button className={buttonClass} onClick={() => onPurgeNow(draft.retention)}>
+            <Trash2 className="w-3 h-3" /> Delete expired now
+          </button>
+          <button className={`${buttonClass} ml-auto`} onClick={() => onSave(draft)}>
+            <Save className="w-3 h-3" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { BarChart3 } from 'lucide-react';
+import { ZoneEngagement } from '../types';
+import { BROWSE_THRESHOLD_OPTIONS_MS } from '../constants';
+import { rankZones } from '../services/engagement';
+
+interface RackPerformancePanelProps {
+  stats: ZoneEngagement[];
+  browseThresholdMs: number;
+  onBrowseThresholdChange: (ms: number) => void;
+  limit?: number;
+}
+
+export const RackPerformancePanel: React.FC<RackPerformancePanelProps> = ({
+  stats,
+  browseThresholdMs,
+  onBrowseThresholdChange,
+  limit = 12,
+}) => {
+  const ranked = rankZones(stats).filter(z => z.visits > 0).slice(0, limit);
+  const maxStops = Math.max(1, ...ranked.map(z => z.stops));
+
+  return (
+    <div className="flex-1 bg-cyan-950/10 border border-cyan-900/30 p-4 rounded-sm flex flex-col overflow-hidden">
+      <h3 className="text-[11px] font-black text-cyan-500 mb-3 flex items-center gap-2 uppercase tracking-[0.2em] border-l-4 border-cyan-600 pl-3">
+        <BarChart3 className="w-3.5 h-3.5" /> Rack Performance
+      </h3>
+
+      <div className="flex items-center justify-between mb-3 text-[9px] text-cyan-800 uppercase tracking-widest">
+        <span>Stop after</span>
+        <select
+          value={browseThresholdMs}
+          onChange={e => onBrowseThresholdChange(Number(e.target.value))}
+          className="bg-transparent text-cyan-400 font-black outline-none"
+        >
+          {BROWSE_THRESHOLD_OPTIONS_MS.map(ms => (
+            <option key={ms} value={ms} className="bg-[#080810]">{ms / 1000}s still</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3 text-[9px] text-cyan-900 font-black uppercase tracking-widest pb-1 border-b border-cyan-900/30">
+        <span>Zone</span>
+        <span className="text-right">Visits</span>
+        <span className="text-right">Stop %</span>
+        <span className="text-right">Dwell</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {ranked.length === 0 && (
+          <div className="text-[10px] text-cyan-900 uppercase tracking-widest pt-4">No zone visits yet</div>
+        )}
+        {ranked.map((z, i) => (
+          <div key={z.zoneId} className="py-1.5 border-b border-cyan-900/10">
+            <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3 items-baseline text-[10px] tabular-nums">
+              <span className="font-black text-cyan-300 truncate">
+                <span className="text-cyan-800 mr-1">{i + 1}.</span>{z.label}
+                {z.occupants > 0 && <span className="ml-1 text-emerald-400">●{z.occupants}</span>}
+              </span>
+              <span className="text-right text-cyan-500">{z.visits}</span>
+              <span className="text-right text-amber-400">{Math.round(z.stopRate * 100)}</span>
+              <span className="text-right text-cyan-600">{Math.round(z.dwellMs / 1000)}s</span>
+            </div>
+            <div className="h-1 mt-1 bg-cyan-950/40">
+              <div className="h-full bg-amber-500/70" style={{ width: `${(z.stops / maxStops) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Circle, Square, Play, Pause, Download, Upload, Trash2, History, X } from 'lucide-react';
+import { RecordingSession } from '../types';
+import { deleteSession, exportSession, importSession, listSessions } from '../services/sessionRecorder';
+import { REPLAY_SPEEDS, ReplayStatus } from '../services/replayPlayer';
+import { downloadBlob } from '../services/download';
+import { stripFrameDemographics } from '../services/privacy';
+
+interface SessionControlsProps {
+  recording: RecordingSession | null;
+  recordingError: string | null; // frames can't be saved (or were lost) while recording
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  replaySession: RecordingSession | null;
+  replayStatus: ReplayStatus | null;
+  onLoadReplay: (session: RecordingSession) => void;
+  onExitReplay: () => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onSpeed: (speed: number) => void;
+  onSeek: (ms: number) => void;
+  stripDemographics?: boolean; // exports leave out every gender/age reading
+}
+
+export const formatClock = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60).toString().padStart(2, '0');
+  const s = (total % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m}:${s}` : `${m}:${s}`;
+};
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 border border-cyan-900/50 bg-cyan-950/30 hover:border-cyan-500/60 text-[10px] font-black uppercase tracking-widest disabled:opacity-30';
+
+export const SessionControls: React.FC<SessionControlsProps> = ({
+  recording,
+  recordingError,
+  onStartRecording,
+  onStopRecording,
+  replaySession,
+  replayStatus,
+  onLoadReplay,
+  onExitReplay,
+  onPlay,
+  onPause,
+  onSpeed,
+  onSeek,
+  stripDemographics = false,
+}) => {
+  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    listSessions()
+      .then(list => {
+        setSessions(list);
+        if (!list.some(s => s.id === selectedId)) setSelectedId(list[0]?.id ?? '');
+      })
+      .catch(e => setError(String(e)));
+  };
+
+  // Refresh whenever a recording finishes so the new session shows up.
+  useEffect(refresh, [recording?.id]);
+
+  const selected = sessions.find(s => s.id === selectedId);
+
+  const handleExport = async () => {
+    if (!selected) return;
+    try {
+      downloadBlob(await exportSession(selected.id, stripDemographics ? stripFrameDemographics : undefined), `${selected.id}.json`);
+    } catch (e) {
+      setError(String(e));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { session, skipped } = await importSession(file);
+      setSelectedId(session.id);
+      if (skipped > 0) setError(`${file.name}: skipped ${skipped} invalid frame${skipped === 1 ? '' : 's'}`);
+      refresh();
+    } catch (err) {
+      setError(String(err));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || selected.id === replaySession?.id) return;
+    await deleteSession(selected.id);
+    refresh();
+  };
+
+  return (
+    <div className="absolute bottom-3 left-3 right-3 z-30 flex flex-col gap-2 bg-black/85 border border-cyan-900/50 p-2 text-cyan-300">
+      <div className="flex items-center gap-2">
+        {recording ? (
+          <button className={`${buttonClass} text-red-400 border-red-900/60`} onClick={onStopRecording}>
+            <Square className="w-3 h-3" /> Stop · {recording.frameCount}
+          </button>
+        ) : (
+          <button className={buttonClass} onClick={onStartRecording} disabled={!!replaySession}>
+            <Circle className="w-3 h-3 text-red-500" /> Rec
+          </button>
+        )}
+        {recording && recordingError && (
+          <span className="flex items-center gap-1 text-[9px] text-red-400 font-black uppercase tracking-widest truncate max-w-[260px]" title={recordingError}>
+            <AlertTriangle className="w-3 h-3 shrink-0" /> {recordingError}
+          </span>
+        )}
+
+        <History className="w-3.5 h-3.5 text-cyan-700 ml-2" />
+        <select
+          value={selectedId}
+          onChange={e => setSelectedId(e.target.value)}
+          className="bg-transparent text-cyan-300 text-[10px] font-black outline-none uppercase tracking-widest max-w-[260px]"
+        >
+          {sessions.length === 0 && <option value="">No recordings</option>}
+          {sessions.map(s => (
+            <option key={s.id} value={s.id} className="bg-[#080810]">
+              {s.name} ({formatClock(s.endedAt - s.startedAt)})
+            </option>
+          ))}
+        </select>
+        <button className={buttonClass} disabled={!selected || !!recording} onClick={() => selected && onLoadReplay(selected)}>
+          <Play className="w-3 h-3" /> Replay
+        </button>
+        <button className={buttonClass} disabled={!selected} onClick={handleExport} title="Export recording">
+          <Download className="w-3 h-3" />
+        </button>
+        <button className={buttonClass} onClick={() => fileInputRef.current?.click()} title="Import recording">
+          <Upload className="w-3 h-3" />
+        </button>
+        <button className={buttonClass} disabled={!selected || selected.id === replaySession?.id} onClick={handleDelete} title="Delete recording">
+          <Trash2 className="w-3 h-3" />
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+
+        {error && (
+          <span className="ml-auto text-[9px] text-red-400 truncate max-w-[300px]" onClick={() => setError(null)}>{error}</span>
+        )}
+      </div>
+
+      {replaySession && replayStatus && (
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-black text-amber-400 uppercase tracking-widest">Replay</span>
+          {replayStatus.playing ? (
+            <button className={buttonClass} onClick={onPause}><Pause className="w-3 h-3" /></button>
+          ) : (
+            <button className={buttonClass} onClick={onPlay}><Play className="w-3 h-3" /></button>
+          )}
+          <div className="flex">
+            {REPLAY_SPEEDS.map(s => (
+              <button
+                key={s}
+                onClick={() => onSpeed(s)}
+                className={`px-1.5 py-1 text-[10px] font-black border border-cyan-900/50 ${replayStatus.speed === s ? 'bg-cyan-500/30 text-cyan-200' : 'text-cyan-700'}`}
+              >
+                {s}x
+              </button>
+            ))}
+          </div>
+          <span className="text-[10px] tabular-nums text-cyan-500">{formatClock(replayStatus.positionMs)}</span>
+          <input
+            type="range"
+            min={0}
+            max={replayStatus.durationMs}
+            value={replayStatus.positionMs}
+            onChange={e => onSeek(Number(e.target.value))}
+            className="flex-1 accent-cyan-500"
+          />
+          <span className="text-[10px] tabular-nums text-cyan-700">{formatClock(replayStatus.durationMs)}</span>
+          <button className={buttonClass} onClick={onExitReplay} title="Back to live">
+            <X className="w-3 h-3" /> Live
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
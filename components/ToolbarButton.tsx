@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface ToolbarButtonProps {
+  icon: React.ReactNode;
+  label: string;
+  active?: boolean;
+  badge?: number | string;
+  disabled?: boolean;
+  title?: string;
+  onClick: () => void;
+}
+
+export const ToolbarButton: React.FC<ToolbarButtonProps> = ({ icon, label, active, badge, disabled, title, onClick }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className={`relative flex items-center gap-1.5 px-2.5 py-1.5 border rounded-sm text-[10px] font-black uppercase tracking-widest transition-colors disabled:opacity-30 ${
+      active ? 'border-amber-500/60 bg-amber-500/10 text-amber-400' : 'border-cyan-900/50 bg-cyan-950/30 text-cyan-500 hover:border-cyan-500/60'
+    }`}
+  >
+    {icon} {label}
+    {badge !== undefined && badge !== 0 && (
+      <span className="ml-1 px-1 bg-red-500/80 text-white text-[9px] rounded-sm tabular-nums">{badge}</span>
+    )}
+  </button>
+);
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { ScanSearch, X } from 'lucide-react';
+import { AgentState, TrackSnapshot, Zone } from '../types';
+import { formatClock } from './SessionControls';
+
+interface TrackInspectorProps {
+  trackId: string;
+  zones: Zone[];
+  getSnapshot: (trackId: string) => TrackSnapshot | null;
+  hideDemographics?: boolean;
+  onClose: () => void;
+}
+
+const REFRESH_MS = 500;
+const TRAJECTORY_ROWS = 200;
+
+const STATE_CLASS: Record<AgentState, string> = {
+  [AgentState.WALKING]: 'text-cyan-400',
+  [AgentState.BROWSING]: 'text-amber-400',
+  [AgentState.EXITING]: 'text-red-400',
+};
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <>
+    <span className="text-[9px] text-cyan-800 uppercase tracking-widest">{label}</span>
+    <span className="text-right text-cyan-200 tabular-nums">{children}</span>
+  </>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="flex flex-col gap-1">
+    <div className="text-[9px] font-black text-cyan-600 uppercase tracking-[0.2em] border-b border-cyan-900/30 pb-0.5">{title}</div>
+    {children}
+  </div>
+);
+
+/** Live drill-down for one track; keeps showing the last snapshot after the track has left. */
+export const TrackInspector: React.FC<TrackInspectorProps> = ({ trackId, zones, getSnapshot, hideDemographics = false, onClose }) => {
+  const [snapshot, setSnapshot] = useState<TrackSnapshot | null>(() => getSnapshot(trackId));
+  const [leftAt, setLeftAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    setSnapshot(getSnapshot(trackId));
+    setLeftAt(null);
+    const timer = setInterval(() => {
+      const next = getSnapshot(trackId);
+      if (next) setSnapshot(next);
+      else setLeftAt(prev => prev ?? Date.now());
+    }, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [trackId, getSnapshot]);
+
+  const zoneLabel = (id: string | null) => (id ? zones.find(z => z.id === id)?.label ?? id : '—');
+  const now = leftAt ?? Date.now();
+
+  return (
+    <div className="bg-cyan-950/20 border border-cyan-500/50 p-3 flex flex-col gap-3 text-[10px] text-cyan-300 max-h-[60vh] overflow-y-auto">
+      <div className="flex items-center gap-2">
+        <ScanSearch className="w-3.5 h-3.5 text-cyan-400" />
+        <span className="font-black uppercase tracking-widest text-cyan-400 truncate">Track {trackId}</span>
+        <button className="ml-auto p-1 border border-cyan-900/50 hover:border-cyan-500/60" onClick={onClose}>
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      {!snapshot ? (
+        <div className="text-cyan-900 uppercase tracking-widest">Track is not on the floor</div>
+      ) : (
+        <>
+          {leftAt && <div className="text-red-400 uppercase tracking-widest">Left the store at {formatTime(leftAt)}</div>}
+          <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+            <Field label="State"><span className={STATE_CLASS[snapshot.state]}>{leftAt ? 'GONE' : snapshot.state}</span></Field>
+            <Field label="Zone">{leftAt ? '—' : zoneLabel(snapshot.zoneId)}</Field>
+            <Field label="Speed">{leftAt ? '—' : `${Math.round(snapshot.speed)} px/s`}</Field>
+            <Field label="In store">{snapshot.enteredAt ? formatClock(now - snapshot.enteredAt) : '—'}</Field>
+            <Field label="Entered">{snapshot.enteredAt ? formatTime(snapshot.enteredAt) : '—'}</Field>
+            <Field label="Cameras">{snapshot.devices.join(', ') || '—'}</Field>
+            <Field label="Fragments">{snapshot.fragments.join(' → ')}</Field>
+          </div>
+
+          <Section title="Dwell per zone">
+            {snapshot.zones.length === 0 && <span className="text-cyan-900 uppercase tracking-widest">No stops yet</span>}
+            {snapshot.zones.map(z => (
+              <div key={z.zoneId} className="flex justify-between tabular-nums">
+                <span className="text-cyan-500">{z.label}</span>
+                <span>{formatClock(z.dwellMs)}</span>
+              </div>
+            ))}
+          </Section>
+
+          {snapshot.merges.length > 0 && (
+            <Section title="Stitches">
+              {snapshot.merges.map(m => (
+                <div key={m.toTrackId} className="flex flex-col tabular-nums">
+                  <div className="flex gap-3">
+                    <span className="text-cyan-700">{formatTime(m.at)}</span>
+                    <span className="truncate">{m.fromTrackId} → {m.toTrackId}</span>
+                    <span className="ml-auto" title="Lower is a closer match">score {m.score.toFixed(2)}</span>
+                  </div>
+                  <div className="flex gap-3 text-cyan-600">
+                    <span>{(m.gapMs / 1000).toFixed(1)} s gap</span>
+                    <span>{m.distancePx} px</span>
+                    <span>{m.headingDeg}°</span>
+                    {!hideDemographics && (
+                      <span className="ml-auto uppercase">
+                        {m.from.gender || '—'} {m.from.age || '—'} → {m.to.gender || '—'} {m.to.age || '—'}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </Section>
+          )}
+
+          {!hideDemographics && (
+            <Section title="Gender / age readings">
+              {snapshot.attributes.map(a => (
+                <div key={a.t} className="flex gap-3 tabular-nums">
+                  <span className="text-cyan-700">{formatTime(a.t)}</span>
+                  <span className="uppercase">{a.gender || '—'}</span>
+                  <span className="ml-auto">{a.age || '—'}</span>
+                </div>
+              ))}
+            </Section>
+          )}
+
+          <Section title={`Trajectory · ${snapshot.trajectory.length} points`}>
+            <div className="grid grid-cols-[1fr_auto_auto] gap-x-3 tabular-nums">
+              {snapshot.trajectory
+                .slice(-TRAJECTORY_ROWS)
+                .reverse()
+                .map(p => (
+                  <React.Fragment key={p.t}>
+                    <span className="text-cyan-700">{formatTime(p.t)}</span>
+                    <span className="text-right">{Math.round(p.x)}</span>
+                    <span className="text-right">{Math.round(p.y)}</span>
+                  </React.Fragment>
+                ))}
+            </div>
+          </Section>
+        </>
+      )}
+    </div>
+  );
+};
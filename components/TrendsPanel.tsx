@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChartLine, X } from 'lucide-react';
+import { KpiBucket } from '../types';
+import { KPI_METRICS, KpiMetric, kpiValue, loadKpiBuckets } from '../services/kpiHistory';
+import { addDays, zonedDayKey, zonedHour, zonedMidnight } from '../services/businessDay';
+
+interface TrendsPanelProps {
+  storeId: string;
+  storeName: string;
+  timeZone: string; // the store's; hours and days follow its wall clock
+  onClose: () => void;
+}
+
+interface Series {
+  id: string;
+  label: string;
+  color: string;
+  dash?: string;
+  daysAgo: number;
+}
+
+const SERIES: Series[] = [
+  { id: 'today', label: 'Today', color: '#06b6d4', daysAgo: 0 },
+  { id: 'yesterday', label: 'Yesterday', color: '#f59e0b', dash: '6 4', daysAgo: 1 },
+  { id: 'lastWeek', label: 'Same day last week', color: '#a855f7', dash: '2 4', daysAgo: 7 },
+];
+
+const REFRESH_MS = 60_000;
+
+const tabClass = (active: boolean) =>
+  `px-3 py-1.5 border text-[10px] font-black uppercase tracking-widest ${active ? 'border-cyan-400 bg-cyan-500/20 text-cyan-300' : 'border-cyan-900/50 bg-cyan-950/30 text-cyan-700 hover:border-cyan-500/60'}`;
+
+const formatValue = (v: number | null, metric: KpiMetric) => {
+  if (v === null) return '—';
+  const unit = KPI_METRICS.find(m => m.id === metric)!.unit;
+  return `${metric === 'entries' || metric === 'quickExits' ? v : v.toFixed(1)}${unit}`;
+};
+
+// One value per hour of the store's day; null where nothing was recorded.
+const hourlyValues = (buckets: KpiBucket[], metric: KpiMetric, timeZone: string) => {
+  const values: (number | null)[] = new Array(24).fill(null);
+  buckets.forEach(b => { values[zonedHour(b.start, timeZone)] = kpiValue(b, metric); });
+  return values;
+};
+
+export const TrendsPanel: React.FC<TrendsPanelProps> = ({ storeId, storeName, timeZone, onClose }) => {
+  const [metric, setMetric] = useState<KpiMetric>('entries');
+  const [days, setDays] = useState<Record<string, KpiBucket[]>>({});
+  const [recentMinutes, setRecentMinutes] = useState<KpiBucket[]>([]);
+  const [hoverHour, setHoverHour] = useState<number | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const now = Date.now();
+      const today = zonedDayKey(now, timeZone);
+      const loaded: Record<string, KpiBucket[]> = {};
+      await Promise.all(
+        SERIES.map(async s => {
+          const from = zonedMidnight(addDays(today, -s.daysAgo), timeZone);
+          loaded[s.id] = await loadKpiBuckets(storeId, 'hour', from, zonedMidnight(addDays(today, 1 - s.daysAgo), timeZone));
+        })
+      );
+      setDays(loaded);
+      setRecentMinutes(await loadKpiBuckets(storeId, 'minute', now - 60 * 60_000, now));
+    };
+    const refresh = () => load().catch(e => console.error('Failed to load KPI history', e));
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [storeId, timeZone]);
+
+  const series = useMemo(
+    () => SERIES.map(s => ({ ...s, values: hourlyValues(days[s.id] ?? [], metric, timeZone) })),
+    [days, metric, timeZone]
+  );
+
+  const W = 960;
+  const H = 300;
+  const PAD = 36;
+  const max = Math.max(1, ...series.flatMap(s => s.values.filter((v): v is number => v !== null)));
+  const x = (h: number) => PAD + (h * (W - PAD * 2)) / 23;
+  const y = (v: number) => H - PAD - (v / max) * (H - PAD * 2);
+  const nowHour = zonedHour(Date.now(), timeZone);
+  const shownHour = hoverHour ?? nowHour;
+
+  const linePath = (values: (number | null)[]) =>
+    values
+      .map((v, h) => (v === null ? null : `${h === 0 || values[h - 1] === null ? 'M' : 'L'} ${x(h)} ${y(v)}`))
+      .filter(Boolean)
+      .join(' ');
+
+  const minuteValues = recentMinutes.map(b => kpiValue(b, metric) ?? 0);
+  const minuteMax = Math.max(1, ...minuteValues);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col p-6 gap-4 text-cyan-300">
+      <div className="flex items-center gap-3">
+        <ChartLine className="w-5 h-5 text-cyan-400" />
+        <h2 className="text-lg font-black tracking-[0.2em] text-cyan-400 uppercase">KPI Trends · {storeName}</h2>
+        <div className="ml-auto flex items-center gap-2">
+          {KPI_METRICS.map(m => (
+            <button key={m.id} className={tabClass(metric === m.id)} onClick={() => setMetric(m.id)}>
+              {m.label}
+            </button>
+          ))}
+          <button className="p-1.5 border border-cyan-900/50 hover:border-cyan-500/60 ml-2" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex gap-4">
+        <div className="flex-1 flex flex-col bg-[#020205] border border-cyan-900/50 p-4">
+          <div className="flex items-center gap-5 text-[10px] uppercase tracking-widest mb-2">
+            {SERIES.map(s => (
+              <span key={s.id} className="flex items-center gap-2" style={{ color: s.color }}>
+                <svg width="24" height="4"><line x1="0" y1="2" x2="24" y2="2" stroke={s.color} strokeWidth="2" strokeDasharray={s.dash} /></svg>
+                {s.label}
+              </span>
+            ))}
+            <span className="ml-auto text-cyan-800">Hourly</span>
+          </div>
+          <svg viewBox={`0 0 ${W} ${H}`} className="w-full flex-1" onMouseLeave={() => setHoverHour(null)}>
+            {[0, 0.25, 0.5, 0.75, 1].map(f => (
+              <g key={f}>
+                <line x1={PAD} x2={W - PAD} y1={y(max * f)} y2={y(max * f)} stroke="#164e63" strokeOpacity="0.4" />
+                <text x={PAD - 6} y={y(max * f) + 3} textAnchor="end" fill="#155e75" fontSize="9">{Number((max * f).toFixed(1))}</text>
+              </g>
+            ))}
+            {Array.from({ length: 24 }, (_, h) => (
+              <g key={h} onMouseEnter={() => setHoverHour(h)}>
+                <rect x={x(h) - (W - PAD * 2) / 46} y={PAD} width={(W - PAD * 2) / 23} height={H - PAD * 2} fill={h === shownHour ? '#06b6d4' : 'transparent'} fillOpacity={0.08} />
+                {h % 3 === 0 && <text x={x(h)} y={H - PAD + 14} textAnchor="middle" fill="#155e75" fontSize="9">{`${h.toString().padStart(2, '0')}:00`}</text>}
+              </g>
+            ))}
+            {series.map(s => (
+              <g key={s.id} pointerEvents="none">
+                <path d={linePath(s.values)} fill="none" stroke={s.color} strokeWidth={s.id === 'today' ? 2.5 : 1.5} strokeDasharray={s.dash} />
+                {s.values.map((v, h) => v !== null && <circle key={h} cx={x(h)} cy={y(v)} r={h === shownHour ? 4 : 2} fill={s.color} />)}
+              </g>
+            ))}
+          </svg>
+        </div>
+
+        <div className="w-72 flex flex-col gap-4">
+          <div className="bg-cyan-950/10 border border-cyan-900/30 p-4">
+            <div className="text-[10px] font-black text-cyan-600 uppercase tracking-[0.2em] mb-3">
+              {shownHour.toString().padStart(2, '0')}:00 – {((shownHour + 1) % 24).toString().padStart(2, '0')}:00
+            </div>
+            {series.map(s => (
+              <div key={s.id} className="flex justify-between text-[11px] tabular-nums py-1 border-b border-cyan-900/10">
+                <span style={{ color: s.color }} className="uppercase tracking-widest text-[10px]">{s.label}</span>
+                <span className="font-black text-cyan-200">{formatValue(s.values[shownHour], metric)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-cyan-950/10 border border-cyan-900/30 p-4 flex flex-col">
+            <div className="text-[10px] font-black text-cyan-600 uppercase tracking-[0.2em] mb-3">Last 60 minutes</div>
+            {recentMinutes.length === 0 ? (
+              <div className="text-[10px] text-cyan-900 uppercase tracking-widest">No minute data yet</div>
+            ) : (
+              <svg viewBox="0 0 240 60" className="w-full h-16">
+                {minuteValues.map((v, i) => (
+                  <rect key={recentMinutes[i].start} x={i * 4} y={60 - (v / minuteMax) * 58} width={3} height={(v / minuteMax) * 58} fill="#06b6d4" fillOpacity={0.7}>
+                    <title>{`${new Date(recentMinutes[i].start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}: ${formatValue(kpiValue(recentMinutes[i], metric), metric)}`}</title>
+                  </rect>
+                ))}
+              </svg>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, EyeOff, Grid2x2, Square, Users } from 'lucide-react';
+import { Customer, FrameDisplay } from '../types';
+import { CameraFeed } from '../services/videoFeeds';
+import { CalibrationMap } from '../services/calibrationStore';
+import { agentLabel } from '../services/mapRenderer';
+
+interface VideoPanelProps {
+  storeId: string;
+  feeds: CameraFeed[];
+  display: FrameDisplay;
+  hideDemographics: boolean;
+  calibrations: CalibrationMap;
+  getAgent: (id: string) => Customer | undefined;
+  selectedId: string | null;
+  hoveredId: string | null;
+  onHover: (id: string | null) => void;
+  onSelect: (id: string | null) => void;
+}
+
+type Layout = 'grid' | 'main';
+
+const UNPLACED_COLOR = '#64748b';
+// For pictures whose header can't be read; most cameras are 4:3.
+const DEFAULT_SIZE = { w: 640, h: 480 };
+// The blurred copy keeps one pixel per 16x16 block, so faces can't be recovered from it.
+const BLUR_BLOCK_PX = 16;
+
+/**
+ * The camera picture as the privacy setting allows: the image itself only in
+ * 'raw' mode, a low-resolution blurred copy drawn on a canvas in 'blur' mode
+ * (the sharp picture is decoded off the page and dropped), and nothing at all
+ * otherwise.
+ */
+const FramePicture: React.FC<{ url: string; alt: string; display: FrameDisplay; className: string }> = ({ url, alt, display, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (display !== 'blur') return;
+    let image: HTMLImageElement | null = new Image();
+    image.onload = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!image || !canvas || !ctx) return;
+      canvas.width = Math.max(1, Math.round(image.naturalWidth / BLUR_BLOCK_PX));
+      canvas.height = Math.max(1, Math.round(image.naturalHeight / BLUR_BLOCK_PX));
+      ctx.filter = 'blur(1px)';
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      image = null;
+    };
+    image.src = url;
+    return () => {
+      if (image) image.onload = null;
+      image = null;
+    };
+  }, [url, display]);
+
+  if (display === 'raw') return <img src={url} alt={alt} className={`${className} opacity-80`} />;
+  if (display === 'blur') return <canvas ref={canvasRef} className={`${className} opacity-70`} />;
+  return null;
+};
+
+const FeedView: React.FC<{
+  feed: CameraFeed;
+  showDevice: boolean;
+  compact: boolean;
+} & Pick<VideoPanelProps, 'display' | 'hideDemographics' | 'calibrations' | 'getAgent' | 'selectedId' | 'hoveredId' | 'onHover' | 'onSelect'>> = ({
+  feed, showDevice, compact, display, hideDemographics, calibrations, getAgent, selectedId, hoveredId, onHover, onSelect,
+}) => {
+  const size = feed.size ?? DEFAULT_SIZE;
+  const fontSize = Math.max(8, size.w / (compact ? 20 : 32));
+  const calibration = calibrations[feed.deviceId];
+
+  return (
+    <div className="relative w-full bg-[#05050c] overflow-hidden" style={{ aspectRatio: `${size.w} / ${size.h}` }}>
+      <FramePicture url={feed.url} alt={feed.key} display={display} className="absolute inset-0 w-full h-full" />
+      {display === 'hidden' ? (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-cyan-900">
+          <EyeOff className="w-6 h-6" />
+          <span className="text-[9px] font-black uppercase tracking-[0.3em]">Hidden · privacy mode</span>
+        </div>
+      ) : (
+        <svg viewBox={`0 0 ${size.w} ${size.h}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+          {feed.boxes.map(b => {
+            const agent = b.agentId ? getAgent(b.agentId) : undefined;
+            const color = agent?.color ?? UNPLACED_COLOR;
+            const highlighted = !!b.agentId && (b.agentId === selectedId || b.agentId === hoveredId);
+            const dimmed = !!selectedId && b.agentId !== selectedId && b.agentId !== hoveredId;
+            const [x1, y1, x2, y2] = b.bbox;
+            return (
+              <g
+                key={b.trackId}
+                opacity={dimmed ? 0.35 : 1}
+                className={b.agentId ? 'cursor-pointer' : undefined}
+                onMouseEnter={() => onHover(b.agentId)}
+                onMouseLeave={() => onHover(null)}
+                onClick={() => b.agentId && onSelect(b.agentId === selectedId ? null : b.agentId)}
+              >
+                {display === 'silhouette' && (
+                  <>
+                    <circle cx={(x1 + x2) / 2} cy={y1 + (x2 - x1) * 0.22} r={(x2 - x1) * 0.2} fill={color} fillOpacity={0.55} />
+                    <rect
+                      x={x1 + (x2 - x1) * 0.1} y={y1 + (x2 - x1) * 0.46} width={(x2 - x1) * 0.8} height={Math.max(0, y2 - y1 - (x2 - x1) * 0.46)}
+                      rx={(x2 - x1) * 0.25} fill={color} fillOpacity={0.55}
+                    />
+                  </>
+                )}
+                <rect
+                  x={x1} y={y1} width={x2 - x1} height={y2 - y1}
+                  fill={highlighted ? `${color}22` : 'transparent'}
+                  stroke={highlighted ? '#ffffff' : color}
+                  strokeWidth={(highlighted ? 3 : 1.5) * (size.w / 320)}
+                />
+                <rect x={x1} y={y1 - fontSize * 1.3} width={fontSize * 7} height={fontSize * 1.3} fill="#000000d9" />
+                <text x={x1 + fontSize * 0.3} y={y1 - fontSize * 0.3} fill={color} fontSize={fontSize} fontWeight={900} fontFamily="monospace">
+                  {agent ? agentLabel(agent, hideDemographics) : b.trackId}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+      <div className="absolute top-1 left-1 text-[9px] font-mono bg-black/80 px-1.5 py-0.5 border border-cyan-900/30 text-cyan-400 pointer-events-none">
+        {feed.camera}{showDevice && <span className="text-cyan-700"> · {feed.deviceId}</span>}
+      </div>
+      {!compact && (
+        <div className="absolute bottom-1 left-1 text-[9px] font-mono bg-black/80 px-1.5 py-0.5 border border-cyan-900/30 pointer-events-none">
+          {calibration ? (
+            <span className="text-emerald-500">CALIBRATED · RMS {calibration.rmsError.toFixed(1)}px</span>
+          ) : (
+            <span className="text-amber-500">UNCALIBRATED · {feed.deviceId}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Every camera the store's devices stream, as a grid or one main view with
+ * thumbnails. Boxes use the plan's colours and tags, and hovering or clicking
+ * one highlights or selects the same visitor on the plan.
+ */
+export const VideoPanel: React.FC<VideoPanelProps> = ({ storeId, feeds, ...view }) => {
+  const [layout, setLayout] = useState<Layout>('main');
+  const [mainKey, setMainKey] = useState<string | null>(null);
+  const showDevice = new Set(feeds.map(f => f.deviceId)).size > 1;
+  const main = feeds.find(f => f.key === mainKey) ?? feeds[0];
+
+  return (
+    <div className="bg-black border border-cyan-900/60 rounded-sm overflow-hidden relative flex-[0.5] min-h-[300px] flex flex-col">
+      <div className="flex items-center gap-2 px-3 py-2 text-[10px] font-bold border-b border-cyan-900/30">
+        <span className="flex items-center gap-2 text-red-500 animate-pulse">
+          <Camera className="w-3.5 h-3.5" /> LIVE STREAMING
+        </span>
+        <span className="text-[9px] text-cyan-800">{feeds.length > 0 && `${feeds.length} CAM`}</span>
+        <span className="ml-auto text-[9px] text-cyan-700 font-mono">{storeId.toUpperCase()}_SURVEILLANCE</span>
+        {feeds.length > 1 && (
+          <button
+            className="p-1 border border-cyan-900/50 text-cyan-500 hover:border-cyan-500/60"
+            title={layout === 'grid' ? 'Main view' : 'Grid'}
+            onClick={() => setLayout(layout === 'grid' ? 'main' : 'grid')}
+          >
+            {layout === 'grid' ? <Square className="w-3 h-3" /> : <Grid2x2 className="w-3 h-3" />}
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto bg-[#05050c] relative">
+        {!main ? (
+          <div className="absolute inset-0 flex items-center justify-center overflow-hidden">
+            <div className="absolute inset-0 opacity-10 pointer-events-none"
+                style={{ backgroundImage: 'linear-gradient(rgba(18, 16, 16, 0) 50%, rgba(0, 0, 0, 0.4) 50%), linear-gradient(90deg, rgba(255, 0, 0, 0.05), rgba(0, 255, 0, 0.02), rgba(0, 0, 255, 0.05))', backgroundSize: '100% 4px, 4px 100%' }} />
+            <div className="relative flex flex-col items-center gap-4 opacity-20">
+              <Users className="w-20 h-20 text-cyan-900" />
+              <div className="text-[10px] text-cyan-900 uppercase tracking-[0.4em] font-black">Waiting for Visual Node...</div>
+            </div>
+            <div className="absolute bottom-0 w-full h-[1px] bg-cyan-400 shadow-[0_0_15px_#06b6d4] animate-[scan_5s_linear_infinite]" />
+          </div>
+        ) : layout === 'grid' && feeds.length > 1 ? (
+          <div className="grid grid-cols-2 gap-1 p-1">
+            {feeds.map(f => <FeedView key={f.key} feed={f} showDevice={showDevice} compact {...view} />)}
+          </div>
+        ) : (
+          <div className="flex flex-col gap-1 p-1">
+            <FeedView feed={main} showDevice={showDevice} compact={false} {...view} />
+            {feeds.length > 1 && (
+              <div className="grid grid-cols-3 gap-1">
+                {feeds.filter(f => f.key !== main.key).map(f => (
+                  <button key={f.key} className="relative border border-cyan-900/40 hover:border-cyan-500/60" onClick={() => setMainKey(f.key)}>
+                    <div className="relative w-full bg-[#05050c]" style={{ aspectRatio: `${(f.size ?? DEFAULT_SIZE).w} / ${(f.size ?? DEFAULT_SIZE).h}` }}>
+                      <FramePicture url={f.url} alt={f.key} display={view.display} className="absolute inset-0 w-full h-full" />
+                    </div>
+                    <span className="absolute bottom-0 left-0 text-[8px] font-mono bg-black/80 px-1 text-cyan-500">{f.camera}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClipboardList, Download, RefreshCw, X } from 'lucide-react';
+import { Gender, VisitRecord, Zone } from '../types';
+import { loadVisitRecords, visitsToCsv, visitsToJson } from '../services/visitLog';
+import { downloadText } from '../services/download';
+import { genderLetter } from '../services/demographics';
+import { kAnonymizeVisits, pseudonymize } from '../services/privacy';
+import { addDays, zonedDayKey, zonedMidnight } from '../services/businessDay';
+import { formatClock } from './SessionControls';
+
+interface VisitLogProps {
+  storeId: string;
+  storeName: string;
+  timeZone: string; // the store's; the day filter follows its calendar
+  zones: Zone[];
+  minGroupSize: number; // k-anonymity threshold for exports
+  hashSalt: string | null; // set when stored track ids are pseudonymized, so raw ids can still be searched
+  onClose: () => void;
+}
+
+// The table renders the newest rows only; exports always contain every match.
+const MAX_ROWS = 500;
+
+const GENDER_CLASS: Record<Gender, string> = {
+  [Gender.FEMALE]: 'text-pink-400',
+  [Gender.MALE]: 'text-cyan-400',
+  [Gender.UNKNOWN]: 'text-cyan-800',
+};
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1.5 border border-cyan-900/50 bg-cyan-950/30 hover:border-cyan-500/60 text-[10px] font-black uppercase tracking-widest disabled:opacity-30';
+const inputClass = 'bg-black/60 border border-cyan-900/50 px-1.5 py-0.5 text-[10px] text-cyan-300 outline-none focus:border-cyan-500';
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const VisitLog: React.FC<VisitLogProps> = ({ storeId, storeName, timeZone, zones, minGroupSize, hashSalt, onClose }) => {
+  const today = zonedDayKey(Date.now(), timeZone);
+  const [fromDay, setFromDay] = useState(today);
+  const [toDay, setToDay] = useState(today);
+  const [records, setRecords] = useState<VisitRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reload, setReload] = useState(0);
+  const [search, setSearch] = useState('');
+  const [gender, setGender] = useState<Gender | ''>('');
+  const [ageBand, setAgeBand] = useState('');
+  const [zoneId, setZoneId] = useState('');
+  const [minDwellS, setMinDwellS] = useState(0);
+
+  useEffect(() => {
+    if (!fromDay || !toDay) return;
+    // `toDay` is inclusive; day boundaries are midnights in the store's time zone.
+    const from = zonedMidnight(fromDay, timeZone);
+    const to = zonedMidnight(addDays(toDay, 1), timeZone);
+    let cancelled = false;
+    setLoading(true);
+    loadVisitRecords(storeId, from, to)
+      .then(r => { if (!cancelled) setRecords(r); })
+      .catch(e => console.error('Failed to load visit log', e))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [storeId, timeZone, fromDay, toDay, reload]);
+
+  const ageBands = useMemo(() => [...new Set(records.map(r => r.ageBand))].sort(), [records]);
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    const hashed = q && hashSalt ? pseudonymize(search.trim(), hashSalt) : null;
+    return records.filter(r =>
+      (!q || r.trackId.toLowerCase().includes(q) || r.trackId === hashed || (r.deviceId ?? '').toLowerCase().includes(q)) &&
+      (!gender || r.gender === gender) &&
+      (!ageBand || r.ageBand === ageBand) &&
+      (!zoneId || r.zones.some(z => z.zoneId === zoneId)) &&
+      r.dwellMs >= minDwellS * 1000
+    );
+  }, [records, search, hashSalt, gender, ageBand, zoneId, minDwellS]);
+
+  const rows = useMemo(() => filtered.slice(-MAX_ROWS).reverse(), [filtered]);
+
+  // Exports never contain a gender/age group smaller than the configured k.
+  const anonymized = useMemo(() => kAnonymizeVisits(filtered, minGroupSize), [filtered, minGroupSize]);
+
+  const exportAs = (format: 'csv' | 'json') => {
+    const name = `visits-${storeId}-${fromDay}_${toDay}`;
+    if (format === 'csv') downloadText(visitsToCsv(anonymized.visits), `${name}.csv`, 'text/csv');
+    else downloadText(visitsToJson(anonymized.visits), `${name}.json`, 'application/json');
+  };
+
+  const avgDwellMs = filtered.length > 0 ? filtered.reduce((s, r) => s + r.dwellMs, 0) / filtered.length : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col p-6 gap-4 text-cyan-300">
+      <div className="flex items-center gap-3">
+        <ClipboardList className="w-5 h-5 text-cyan-400" />
+        <h2 className="text-lg font-black tracking-[0.2em] text-cyan-400 uppercase">Visit Log · {storeName}</h2>
+        <div className="ml-auto flex items-center gap-2">
+          <button className={buttonClass} disabled={filtered.length === 0} onClick={() => exportAs('csv')}>
+            <Download className="w-3 h-3" /> CSV
+          </button>
+          <button className={buttonClass} disabled={filtered.length === 0} onClick={() => exportAs('json')}>
+            <Download className="w-3 h-3" /> JSON
+          </button>
+          <button className="p-1.5 border border-cyan-900/50 hover:border-cyan-500/60 ml-2" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] uppercase tracking-widest text-cyan-700">
+        <label className="flex items-center gap-1">
+          From <input type="date" className={inputClass} value={fromDay} max={toDay} onChange={e => setFromDay(e.target.value)} />
+        </label>
+        <label className="flex items-center gap-1">
+          To <input type="date" className={inputClass} value={toDay} min={fromDay} onChange={e => setToDay(e.target.value)} />
+        </label>
+        <button className="p-1 border border-cyan-900/50 hover:border-cyan-500/60" title="Reload" onClick={() => setReload(n => n + 1)}>
+          <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+        <input className={`${inputClass} w-40`} placeholder="Track or device id" value={search} onChange={e => setSearch(e.target.value)} />
+        <select className={inputClass} value={gender} onChange={e => setGender(e.target.value as Gender | '')}>
+          <option value="">Any gender</option>
+          <option value={Gender.FEMALE}>Female</option>
+          <option value={Gender.MALE}>Male</option>
+          <option value={Gender.UNKNOWN}>Unknown</option>
+        </select>
+        <select className={inputClass} value={ageBand} onChange={e => setAgeBand(e.target.value)}>
+          <option value="">Any age</option>
+          {ageBands.map(a => <option key={a} value={a}>{a}</option>)}
+        </select>
+        <select className={inputClass} value={zoneId} onChange={e => setZoneId(e.target.value)}>
+          <option value="">Any zone</option>
+          {zones.map(z => <option key={z.id} value={z.id}>{z.label}</option>)}
+        </select>
+        <label className="flex items-center gap-1">
+          Min dwell
+          <input type="number" min={0} className={`${inputClass} w-14`} value={minDwellS} onChange={e => setMinDwellS(Math.max(0, Number(e.target.value)))} />s
+        </label>
+        <span className="ml-auto text-cyan-600 tabular-nums">
+          {filtered.length} of {records.length} visits · avg dwell {formatClock(avgDwellMs)}
+          {anonymized.suppressed > 0 && (
+            <span className="text-amber-500" title={`Groups smaller than ${minGroupSize} are suppressed in exports`}>
+              {' '}· {anonymized.suppressed} suppressed on export
+            </span>
+          )}
+        </span>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto border border-cyan-900/50 bg-[#020205]">
+        <table className="w-full text-[10px] tabular-nums">
+          <thead className="sticky top-0 bg-[#05050c] text-[9px] text-cyan-800 uppercase tracking-widest">
+            <tr>
+              {['Track', 'Device', 'Entered', 'Exited', 'Dwell', 'Gender', 'Age', 'Zones', 'Path'].map(h => (
+                <th key={h} className="text-left font-black px-2 py-1.5 border-b border-cyan-900/50">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => (
+              <tr key={`${r.trackId}|${r.exitedAt}`} className="border-b border-cyan-900/10 hover:bg-cyan-950/30">
+                <td className="px-2 py-1 text-cyan-200 font-bold">
+                  {r.trackId}
+                  {r.fragments.length > 1 && (
+                    <span className="ml-1 text-purple-400 font-normal" title={`Stitched from ${r.fragments.join(' → ')}`}>
+                      +{r.fragments.length - 1}
+                    </span>
+                  )}
+                </td>
+                <td className="px-2 py-1 text-cyan-600">{r.deviceIds.join(', ') || '—'}</td>
+                <td className="px-2 py-1">{fromDay === toDay ? formatTime(r.enteredAt) : new Date(r.enteredAt).toLocaleString()}</td>
+                <td className="px-2 py-1">{fromDay === toDay ? formatTime(r.exitedAt) : new Date(r.exitedAt).toLocaleString()}</td>
+                <td className="px-2 py-1 text-cyan-200">{formatClock(r.dwellMs)}</td>
+                <td className={`px-2 py-1 ${GENDER_CLASS[r.gender]}`}>{genderLetter(r.gender)}</td>
+                <td className="px-2 py-1">{r.ageBand}</td>
+                <td className="px-2 py-1 text-cyan-500">
+                  {r.zones.length === 0 ? '—' : r.zones.map(z => `${z.label} ${Math.round(z.dwellMs / 1000)}s`).join(' · ')}
+                </td>
+                <td className="px-2 py-1">{r.pathLengthPx}px</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <div className="p-4 text-[10px] text-cyan-900 uppercase tracking-widest">{loading ? 'Loading…' : 'No visits in this range'}</div>
+        )}
+        {filtered.length > MAX_ROWS && (
+          <div className="p-2 text-[9px] text-cyan-800 uppercase tracking-widest">
+            Showing newest {MAX_ROWS} of {filtered.length} · export for the full list
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
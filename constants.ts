@@ -1,5 +1,6 @@
 
-import { Point, Hotspot, StoreConfig } from './types';
+import { StoreConfig, EngagementConfig, LayoutFile, DeviceConfig, FlowConfig, AlertRule, StitchConfig, DemographicsConfig, MotionConfig, EntranceCounterConfig, ConnectionConfig, AttentionConfig, PrivacySettings } from './types';
+import { LayoutValidationError, loadBundledLayouts, loadSavedLayouts, mergeLayouts } from './services/layoutLoader';
 
 export const COLORS = [
   '#06b6d4', // Cyan
@@ -9,90 +10,130 @@ export const COLORS = [
   '#ec4899', // Pink
 ];
 
-export const STORES: StoreConfig[] = [
-  {
-    id: 'coldroom1',
-    name: 'Makro St.57 (Bangphil-Coldroom1)',
-    width: 1516,
-    height: 1016,
-    entrance: { x: 758, y: 980 },
-    racks: [
-      // Top High Racks
-      ...Array.from({ length: 11 }, (_, i) => ({ 
-        pos: { x: 100 + i * 130, y: 70 }, 
-        w: 100, 
-        h: 60, 
-        label: 'HIGH RACK' 
-      })),
-      // Left Chillers
-      ...Array.from({ length: 7 }, (_, i) => ({ 
-        pos: { x: 60, y: 200 + i * 110 }, 
-        w: 80, 
-        h: 90, 
-        label: 'CHILLER_L' 
-      })),
-      // Right Chillers
-      ...Array.from({ length: 7 }, (_, i) => ({ 
-        pos: { x: 1456, y: 200 + i * 110 }, 
-        w: 80, 
-        h: 90, 
-        label: 'CHILLER_R' 
-      })),
-      // Bottom Stock Racks
-      ...Array.from({ length: 5 }, (_, i) => ({ 
-        pos: { x: 180 + i * 120, y: 920 }, 
-        w: 100, 
-        h: 50, 
-        label: 'STOCK' 
-      })),
-      ...Array.from({ length: 5 }, (_, i) => ({ 
-        pos: { x: 936 + i * 120, y: 920 }, 
-        w: 100, 
-        h: 50, 
-        label: 'STOCK' 
-      })),
-    ],
-    islands: [
-      {
-        rect: { x: 658, y: 400, w: 200, h: 200 },
-        label: 'DISPLAY_HEX',
-        grid: [{ x: 758, y: 500 }],
-      },
-    ],
-    hotspots: [],
-  },
-  {
-    id: 'coldroom2',
-    name: 'Makro St.57 (Bangphil-Coldroom2)',
-    width: 1118,
-    height: 690,
-    entrance: { x: 559, y: 650 },
-    racks: [
-      // Top High Racks
-      ...Array.from({ length: 9 }, (_, i) => ({ 
-        pos: { x: 80 + i * 120, y: 60 }, 
-        w: 100, 
-        h: 60, 
-        label: 'HIGH RACK' 
-      })),
-      
-      // Left Wall Shelves
-      ...Array.from({ length: 4 }, (_, i) => ({ 
-        pos: { x: 60, y: 180 + i * 110 }, 
-        w: 80, 
-        h: 90, 
-        label: 'BUTTER' 
-      })),
-      
-      // Right Wall Shelves
-       ...Array.from({ length: 4 }, (_, i) => ({ 
-        pos: { x: 1058, y: 180 + i * 110 }, 
-        w: 80, 
-        h: 90, 
-        label: 'YOGHURT' 
-      })),
-    ],
-    islands: [],
-    hotspots: [],
-  },
+// Store layouts live in /layouts as versioned JSON; local edits made in the
+// floor-plan editor override a bundled layout of the same or older revision.
+const bundled = loadBundledLayouts();
+const saved = loadSavedLayouts();
+
+export const BUNDLED_LAYOUTS: LayoutFile[] = bundled.layouts;
+export const LAYOUTS: LayoutFile[] = mergeLayouts(bundled.layouts, saved.layouts);
+export const LAYOUT_ERRORS: LayoutValidationError[] = [...bundled.errors, ...saved.errors];
+export const STORES: StoreConfig[] = LAYOUTS.map(l => l.store);
+
+export const ENGAGEMENT_CONFIG: EngagementConfig = {
+  zoneReachPx: 70,
+  stillRadiusPx: 25,
+  browseThresholdMs: 4000,
+};
+
+export const BROWSE_THRESHOLD_OPTIONS_MS = [2000, 4000, 8000, 15000];
+
+// Which store each edge device feeds. Devices not listed here are routed by the
+// frame's `area` when it matches a store id, and dropped otherwise.
+export const DEVICES: DeviceConfig[] = [
+  { deviceId: 'mock-cam-01', storeId: 'coldroom1' },
+];
+
+export const FUSION_CONFIG = {
+  mergeRadiusPx: 60, // tracks from different cameras closer than this are the same person
+  staleMs: 2000, // a camera's last frame stops contributing after this long
+};
+
+// Heatmap cell size in plan px; a store's grid is ceil(width / GRID_SIZE) x ceil(height / GRID_SIZE).
+export const GRID_SIZE = 25;
+export const HEATMAP_SAVE_INTERVAL_MS = 30_000;
+// How often each store's day so far is saved to localStorage for a reload to pick up.
+export const DAY_SNAPSHOT_SAVE_INTERVAL_MS = 10_000;
+
+export const FLOW_CONFIG: FlowConfig = {
+  sampleMs: 250,
+  minZoneMs: 1500,
+  maxVisits: 5000,
+};
+
+// Rules every store starts with until its rules are edited in the dashboard.
+export const DEFAULT_ALERT_RULES: Omit<AlertRule, 'id' | 'storeId'>[] = [
+  { type: 'dwell_limit', label: 'Lone person in cooler', enabled: true, severity: 'critical', threshold: 15 * 60, aloneOnly: true, sound: true },
+  { type: 'max_occupancy', label: 'Crowding', enabled: true, severity: 'warning', threshold: 20, sound: false },
+  { type: 'zone_loitering', label: 'Loitering at a zone', enabled: true, severity: 'warning', threshold: 5 * 60, sound: false },
+  { type: 'no_activity', label: 'No activity during opening hours', enabled: true, severity: 'warning', threshold: 30 * 60, sound: false },
+  { type: 'device_offline', label: 'Camera offline', enabled: true, severity: 'critical', threshold: 60, sound: true },
 ];
+
+export const ALERT_EVAL_INTERVAL_MS = 1000;
+
+export const KPI_CONFIG = {
+  sampleMs: 5000, // occupancy / gender sampling within a minute bucket
+  minuteRetentionDays: 8, // enough for "same weekday last week" at minute resolution
+  hourRetentionDays: 400,
+};
+
+// Re-linking a track the tracker lost (e.g. behind a rack) to the new id it comes back with.
+export const STITCH_CONFIG: StitchConfig = {
+  maxGapMs: 4000,
+  maxDistancePx: 180,
+  maxHeadingDeg: 100,
+};
+
+export const DEMOGRAPHICS_CONFIG: DemographicsConfig = {
+  ageBands: [
+    { label: '<18', min: 0 },
+    { label: '18-24', min: 18 },
+    { label: '25-34', min: 25 },
+    { label: '35-44', min: 35 },
+    { label: '45-54', min: 45 },
+    { label: '55+', min: 55 },
+  ],
+  quickExitMs: 15_000, // same cut-off as short_dwell_number in the mock device scenarios
+};
+
+export const MOTION_CONFIG: MotionConfig = {
+  measurementNoisePx: 12,
+  accelNoisePxS2: 80,
+  maxPredictMs: 1000,
+  headingTauMs: 150,
+  displayTauMs: 60,
+};
+
+// Local in/out counting on the entrance, reconciled against the devices' own counters.
+export const ENTRANCE_COUNTER_CONFIG: EntranceCounterConfig = {
+  halfWidthPx: 70,
+  hysteresisPx: 12,
+  doorZonePx: 90,
+  quickExitMs: DEMOGRAPHICS_CONFIG.quickExitMs,
+  toleranceRatio: 0.1,
+};
+
+export const QUICK_EXIT_OPTIONS_MS = [5000, 10_000, 15_000, 30_000, 60_000];
+
+export const DEFAULT_WS_URL = 'ws://localhost:3000/ws?type=browser';
+
+export const CONNECTION_CONFIG: ConnectionConfig = {
+  initialBackoffMs: 1000,
+  maxBackoffMs: 30_000,
+  backoffFactor: 2,
+  jitterRatio: 0.3,
+  stableAfterMs: 20_000,
+  pingIntervalMs: 5000,
+  silenceTimeoutMs: 15_000,
+  staleAfterMs: 10_000,
+  staleReconnectMs: 30_000,
+};
+
+// Same cone as drawn on the map, so what the overlay shows is what gets counted.
+export const ATTENTION_CONFIG: AttentionConfig = {
+  mode: 'cone',
+  coneLengthPx: 90,
+  coneHalfAngleDeg: 35,
+  coneRays: 7,
+  minGlanceMs: 500,
+};
+
+// Shown raw until someone turns privacy mode on, but ids are pseudonymized from the start.
+export const PRIVACY_DEFAULTS: PrivacySettings = {
+  frameDisplay: 'raw',
+  hideDemographics: false,
+  hashTrackIds: true,
+  retention: { visitsDays: 30, recordingsDays: 14, alertsDays: 90, historyDays: 365 },
+  minGroupSize: 5,
+};
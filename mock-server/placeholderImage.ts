@@ -0,0 +1,85 @@
+import { deflateSync } from 'node:zlib';
+
+// Tiny PNG encoder for the fake camera feed. The dashboard labels frames as
+// image/jpeg, but browsers sniff the PNG signature and render it regardless.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (buf: Buffer) => {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type: string, data: Buffer) => {
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([len, body, crc]);
+};
+
+/** Dark frame with a scan line and one outlined box per bbox; returns base64 PNG. */
+export const renderPlaceholderFrame = (width: number, height: number, bboxes: number[][], frameIdx: number) => {
+  const rgb = Buffer.alloc(width * height * 3);
+  const set = (x: number, y: number, r: number, g: number, b: number) => {
+    if (x < 0 || y < 0 || x >= width || y >= height) return;
+    const i = (y * width + x) * 3;
+    rgb[i] = r;
+    rgb[i + 1] = g;
+    rgb[i + 2] = b;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const grid = x % 40 === 0 || y % 40 === 0;
+      set(x, y, grid ? 18 : 8, grid ? 30 : 10, grid ? 40 : 18);
+    }
+  }
+
+  const scanY = (frameIdx * 4) % height;
+  for (let x = 0; x < width; x++) set(x, scanY, 6, 90, 110);
+
+  bboxes.forEach(([x1, y1, x2, y2]) => {
+    for (let x = x1; x <= x2; x++) {
+      set(x, y1, 6, 182, 212);
+      set(x, y2, 6, 182, 212);
+    }
+    for (let y = y1; y <= y2; y++) {
+      set(x1, y, 6, 182, 212);
+      set(x2, y, 6, 182, 212);
+    }
+  });
+
+  // Each scanline is prefixed with filter type 0 (none).
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (width * 3 + 1)] = 0;
+    rgb.copy(raw, y * (width * 3 + 1) + 1, y * width * 3, (y + 1) * width * 3);
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 2; // truecolor
+  ihdr[10] = 0;
+  ihdr[11] = 0;
+  ihdr[12] = 0;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]).toString('base64');
+};
@@ -0,0 +1,220 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { PlanData, WebSocketMessage, WebSocketResponse } from '../types';
+import { renderPlaceholderFrame } from './placeholderImage';
+
+export const SCENARIO_DIR = join(dirname(fileURLToPath(import.meta.url)), 'scenarios');
+
+export interface Waypoint {
+  t: number; // seconds since the track entered
+  x: number;
+  y: number;
+}
+
+export interface Dropout {
+  fromS: number; // seconds since the track entered
+  toS: number;
+  newTrackId?: string; // tracker re-acquires the person under a different id
+}
+
+export interface ScriptedTrack {
+  track_id: string;
+  gender: string;
+  age: string;
+  enterAtS: number; // seconds into the scenario loop
+  waypoints: Waypoint[];
+  dropouts?: Dropout[];
+}
+
+export interface CrowdSpec {
+  count: number;
+  seed: number;
+  bounds: { x: number; y: number; w: number; h: number };
+  entrance: { x: number; y: number };
+  enterSpreadS: number;
+  minStayS: number;
+  maxStayS: number;
+}
+
+export type FaultKind =
+  | 'invalid_json'
+  | 'wrong_type'
+  | 'missing_data'
+  | 'missing_plan_data'
+  | 'short_position'
+  | 'nan_position';
+
+export interface Scenario {
+  name: string;
+  description: string;
+  deviceId: string;
+  area: string;
+  plan: { width: number; height: number }; // floor-plan size of the target store
+  fps: number;
+  loopS: number;
+  shortDwellS: number;
+  tracks: ScriptedTrack[];
+  crowd?: CrowdSpec;
+  video?: { everyNFrames: number; cameras: string[]; width: number; height: number };
+  faults?: { everyNFrames: number; kinds: FaultKind[] };
+  reconnect?: { dropEveryS: number; downForS: number };
+}
+
+// mulberry32 — small, seedable, and identical on every machine.
+export const createRng = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const expandCrowd = (spec: CrowdSpec): ScriptedTrack[] => {
+  const rng = createRng(spec.seed);
+  const ages = ['18-24', '25-34', '35-44', '45-54', '55+', 'unknown'];
+  return Array.from({ length: spec.count }, (_, i) => {
+    const enterAtS = Math.round(rng() * spec.enterSpreadS);
+    const stay = spec.minStayS + rng() * (spec.maxStayS - spec.minStayS);
+    const stops = 3 + Math.floor(rng() * 4);
+    const waypoints: Waypoint[] = [{ t: 0, ...spec.entrance }];
+    for (let s = 1; s <= stops; s++) {
+      waypoints.push({
+        t: (stay * s) / (stops + 1),
+        x: Math.round(spec.bounds.x + rng() * spec.bounds.w),
+        y: Math.round(spec.bounds.y + rng() * spec.bounds.h),
+      });
+    }
+    waypoints.push({ t: stay, ...spec.entrance });
+    return {
+      track_id: `c${spec.seed}-${i}`,
+      gender: rng() < 0.5 ? 'female' : 'male',
+      age: ages[Math.floor(rng() * ages.length)],
+      enterAtS,
+      waypoints,
+    };
+  });
+};
+
+export const loadScenario = (name: string): Scenario => {
+  const file = join(SCENARIO_DIR, name.endsWith('.json') ? name : `${name}.json`);
+  const scenario = JSON.parse(readFileSync(file, 'utf8')) as Scenario;
+  if (scenario.crowd) scenario.tracks = [...scenario.tracks, ...expandCrowd(scenario.crowd)];
+  return scenario;
+};
+
+export const listScenarios = () =>
+  readdirSync(SCENARIO_DIR).filter(f => f.endsWith('.json')).map(f => f.replace(/\.json$/, ''));
+
+const trackDuration = (track: ScriptedTrack) => track.waypoints[track.waypoints.length - 1].t;
+
+const sampleTrack = (track: ScriptedTrack, localS: number) => {
+  const wps = track.waypoints;
+  let i = 0;
+  while (i < wps.length - 2 && wps[i + 1].t < localS) i++;
+  const a = wps[i];
+  const b = wps[Math.min(i + 1, wps.length - 1)];
+  const span = b.t - a.t || 1;
+  const k = Math.max(0, Math.min(1, (localS - a.t) / span));
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len = Math.hypot(dx, dy) || 1;
+  return {
+    x: a.x + dx * k,
+    y: a.y + dy * k,
+    heading: [dx / len, dy / len],
+  };
+};
+
+/**
+ * Pure function of the frame index: the same scenario and frame number always
+ * produce the same payload, which is what makes the feed usable in tests.
+ */
+export const buildFrame = (scenario: Scenario, frameIdx: number): WebSocketResponse => {
+  const elapsedS = frameIdx / scenario.fps;
+  const loop = Math.floor(elapsedS / scenario.loopS);
+  const t = elapsedS - loop * scenario.loopS;
+
+  let entries = 0;
+  let shortDwells = 0;
+  const plan_data: PlanData[] = [];
+
+  scenario.tracks.forEach(track => {
+    const duration = trackDuration(track);
+    const shortDwell = duration < scenario.shortDwellS;
+    // Tracks from earlier loops have all entered and left by now.
+    entries += loop;
+    if (shortDwell) shortDwells += loop;
+
+    const localS = t - track.enterAtS;
+    if (localS < 0) return;
+    entries += 1;
+    if (localS > duration) {
+      if (shortDwell) shortDwells += 1;
+      return;
+    }
+
+    const started = (track.dropouts ?? []).filter(d => localS >= d.fromS);
+    const dropout = started[started.length - 1];
+    if (dropout && localS < dropout.toS) return;
+    const trackId = dropout?.newTrackId && localS >= dropout.toS ? dropout.newTrackId : track.track_id;
+
+    const { x, y, heading } = sampleTrack(track, localS);
+    const bx = (x / scenario.plan.width) * (scenario.video?.width ?? 640);
+    const by = (y / scenario.plan.height) * (scenario.video?.height ?? 360);
+    plan_data.push({
+      track_id: trackId,
+      gender: track.gender,
+      age: track.age,
+      position: [Math.round(x), Math.round(y)],
+      orientation: heading,
+      bbox: [Math.round(bx - 12), Math.round(by - 40), Math.round(bx + 12), Math.round(by)],
+    });
+  });
+
+  const video_image: Record<string, string>[] = [];
+  if (scenario.video && frameIdx % scenario.video.everyNFrames === 0) {
+    const { width, height } = scenario.video;
+    const png = renderPlaceholderFrame(width, height, plan_data.map(p => p.bbox), frameIdx);
+    scenario.video.cameras.forEach(cam => video_image.push({ [cam]: png }));
+  }
+
+  return {
+    area: scenario.area,
+    entry_number: entries,
+    short_dwell_number: shortDwells,
+    video_image,
+    plan_data,
+  };
+};
+
+// Deliberately broken payloads, chosen round-robin from the scenario's fault list.
+export const corruptFrame = (kind: FaultKind, message: WebSocketMessage): string => {
+  const data = message.data;
+  switch (kind) {
+    case 'invalid_json':
+      return JSON.stringify(message).slice(0, 40);
+    case 'wrong_type':
+      return JSON.stringify({ ...message, type: 'device_status' });
+    case 'missing_data':
+      return JSON.stringify({ type: message.type, deviceId: message.deviceId });
+    case 'missing_plan_data': {
+      const { plan_data: _omit, ...rest } = data;
+      return JSON.stringify({ ...message, data: rest });
+    }
+    case 'short_position':
+      return JSON.stringify({
+        ...message,
+        data: { ...data, plan_data: data.plan_data.map((p, i) => (i === 0 ? { ...p, position: [p.position[0]] } : p)) },
+      });
+    case 'nan_position':
+      // JSON has no NaN, so this arrives as null exactly like a buggy serializer would send it.
+      return JSON.stringify({
+        ...message,
+        data: { ...data, plan_data: data.plan_data.map((p, i) => (i === 0 ? { ...p, position: [NaN, p.position[1]] } : p)) },
+      });
+  }
+};
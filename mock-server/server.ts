@@ -0,0 +1,104 @@
+import { createServer } from 'node:http';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { WebSocketMessage } from '../types';
+import { buildFrame, corruptFrame, listScenarios, loadScenario } from './scenario';
+
+// Offline stand-in for the edge gateway: serves ws://localhost:<port>/ws?type=browser
+// and streams `device_data` frames built from a scenario file.
+//
+//   npm run mock-server -- --scenario crowding --port 3000
+//   npm run mock-server -- --list
+
+const args = process.argv.slice(2);
+const argValue = (name: string, fallback: string) => {
+  const idx = args.indexOf(`--${name}`);
+  return idx >= 0 && args[idx + 1] ? args[idx + 1] : fallback;
+};
+
+if (args.includes('--list')) {
+  listScenarios().forEach(name => console.log(`${name.padEnd(20)} ${loadScenario(name).description}`));
+  process.exit(0);
+}
+
+const scenario = loadScenario(argValue('scenario', 'basic'));
+const port = Number(argValue('port', '3000'));
+
+const http = createServer((_req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`mock device server: ${scenario.name}\n`);
+});
+const wss = new WebSocketServer({ noServer: true });
+const browsers = new Set<WebSocket>();
+
+let frameIdx = 0;
+let downUntil = 0;
+
+http.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  if (url.pathname !== '/ws' || url.searchParams.get('type') !== 'browser') {
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, ws => {
+    if (Date.now() < downUntil) {
+      ws.close(1013, 'scenario outage');
+      return;
+    }
+    browsers.add(ws);
+    console.log(`[mock] browser connected (${browsers.size} total)`);
+    ws.on('close', () => browsers.delete(ws));
+    // Heartbeat: echo the ping's timestamp with our clock so the dashboard can estimate RTT and skew.
+    ws.on('message', data => {
+      let msg: { type?: unknown; id?: unknown; sentAt?: unknown };
+      try {
+        msg = JSON.parse(String(data));
+      } catch {
+        return;
+      }
+      if (msg.type === 'ping') ws.send(JSON.stringify({ type: 'pong', id: msg.id, sentAt: msg.sentAt, serverTime: Date.now() }));
+    });
+  });
+});
+
+const tick = () => {
+  const message: WebSocketMessage = {
+    type: 'device_data',
+    deviceId: scenario.deviceId,
+    data: buildFrame(scenario, frameIdx),
+    sentAt: Date.now(),
+  };
+
+  let payload = JSON.stringify(message);
+  const faults = scenario.faults;
+  if (faults && frameIdx % faults.everyNFrames === faults.everyNFrames - 1) {
+    const kind = faults.kinds[Math.floor(frameIdx / faults.everyNFrames) % faults.kinds.length];
+    payload = corruptFrame(kind, message);
+  }
+
+  browsers.forEach(ws => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(payload);
+  });
+
+  const reconnect = scenario.reconnect;
+  if (reconnect && frameIdx > 0 && frameIdx % Math.round(reconnect.dropEveryS * scenario.fps) === 0) {
+    console.log(`[mock] dropping ${browsers.size} connection(s) for ${reconnect.downForS}s`);
+    downUntil = Date.now() + reconnect.downForS * 1000;
+    browsers.forEach(ws => ws.terminate());
+    browsers.clear();
+  }
+
+  frameIdx += 1;
+};
+
+const timer = setInterval(tick, 1000 / scenario.fps);
+
+http.listen(port, () => {
+  console.log(`[mock] scenario "${scenario.name}" (${scenario.tracks.length} tracks @ ${scenario.fps} fps)`);
+  console.log(`[mock] listening on ws://localhost:${port}/ws?type=browser`);
+});
+
+process.on('SIGINT', () => {
+  clearInterval(timer);
+  wss.close();
+  http.close(() => process.exit(0));
+});
@@ -0,0 +1,183 @@
+import { AgentState, AttributeSample, Customer, Gender, MotionConfig, Point } from '../types';
+import { FusedTrack } from './trackFusion';
+import { MotionFilter, shortestAngleDelta } from './motionFilter';
+
+const TRAIL_STEP_PX = 30;
+const TRAIL_POINTS = 16;
+const MEASURED_POINTS = 16;
+const MAX_ATTRIBUTE_SAMPLES = 200;
+
+const GENDER_COLORS: Record<Gender, string> = {
+  [Gender.FEMALE]: '#ec4899',
+  [Gender.MALE]: '#06b6d4',
+  [Gender.UNKNOWN]: '#94a3b8',
+};
+
+const genderOf = (raw: string) => {
+  const g = raw.toLowerCase();
+  return g === 'female' ? Gender.FEMALE : g === 'male' ? Gender.MALE : Gender.UNKNOWN;
+};
+
+export interface SyncResult {
+  entered: Customer[];
+  exited: Customer[];
+}
+
+/**
+ * Motion state for everyone on the floor. Lives outside React: frames feed
+ * each track's motion filter through `sync`, the animation loop moves agents
+ * to the filtered (and, between frames, predicted) position through `step`,
+ * and the canvas renderer reads the agents directly.
+ */
+export class AgentSimulation {
+  private agents = new Map<string, Customer>();
+  private filters = new Map<string, MotionFilter>();
+  private headings = new Map<string, number>(); // latest measured heading, degrees
+  private attributes = new Map<string, AttributeSample[]>(); // gender/age readings, one entry per change
+
+  constructor(private config: MotionConfig) {}
+
+  setConfig(config: MotionConfig) {
+    this.config = config;
+  }
+
+  get size() {
+    return this.agents.size;
+  }
+
+  values() {
+    return this.agents.values();
+  }
+
+  get(id: string) {
+    return this.agents.get(id);
+  }
+
+  clear() {
+    this.agents.clear();
+    this.filters.clear();
+    this.headings.clear();
+    this.attributes.clear();
+  }
+
+  /** Nearest agent within `radiusPx` of a plan point. */
+  agentAt(p: Point, radiusPx: number) {
+    let best: Customer | undefined;
+    let bestDist = radiusPx;
+    this.agents.forEach(agent => {
+      const d = Math.hypot(agent.pos.x - p.x, agent.pos.y - p.y);
+      if (d <= bestDist) {
+        best = agent;
+        bestDist = d;
+      }
+    });
+    return best;
+  }
+
+  attributeHistory(id: string): readonly AttributeSample[] {
+    return this.attributes.get(id) ?? [];
+  }
+
+  /**
+   * Applies one fused frame. Agents whose track couldn't be placed this frame
+   * (`heldIds`) stay where they are; everyone else missing from the frame exits.
+   */
+  sync(fused: FusedTrack[], heldIds: Set<string>, now: number, wallNow = Date.now()): SyncResult {
+    const entered: Customer[] = [];
+    const exited: Customer[] = [];
+    const seen = new Set<string>();
+
+    fused.forEach(({ id, plan: p, pos: targetPos }) => {
+      seen.add(id);
+      const angle = (Math.atan2(p.orientation[1], p.orientation[0]) * 180) / Math.PI;
+      this.headings.set(id, angle);
+      this.recordAttributes(id, p.gender, p.age, wallNow);
+      const existing = this.agents.get(id);
+      if (existing) {
+        existing.target = targetPos;
+        existing.age = p.age;
+        // Like the age, a gender the tracker couldn't tell at first may come later.
+        if (existing.gender === Gender.UNKNOWN) {
+          existing.gender = genderOf(p.gender);
+          existing.color = GENDER_COLORS[existing.gender];
+        }
+        existing.measured.push({ ...targetPos });
+        if (existing.measured.length > MEASURED_POINTS) existing.measured.shift();
+        this.filters.get(id)!.update(targetPos, now, this.config);
+        return;
+      }
+
+      const gender = genderOf(p.gender);
+      const agent: Customer = {
+        id,
+        pos: { ...targetPos },
+        target: targetPos,
+        targetId: 'unknown',
+        state: AgentState.WALKING,
+        angle,
+        speed: 0,
+        browsingTimer: 0,
+        dwellStartTime: now,
+        totalStartTime: now,
+        hasCountedForZone: false,
+        path: [{ ...targetPos }],
+        color: GENDER_COLORS[gender],
+        gender,
+        age: p.age,
+        velocity: { x: 0, y: 0 },
+        measured: [{ ...targetPos }],
+      };
+      this.agents.set(id, agent);
+      this.filters.set(id, new MotionFilter(targetPos, now, this.config));
+      entered.push(agent);
+    });
+
+    this.agents.forEach((agent, id) => {
+      if (seen.has(id) || heldIds.has(id)) return;
+      this.agents.delete(id);
+      this.filters.delete(id);
+      this.headings.delete(id);
+      this.attributes.delete(id);
+      exited.push(agent);
+    });
+
+    return { entered, exited };
+  }
+
+  /**
+   * Moves every agent to its filter's estimate at `now` and turns it towards
+   * its latest heading; `dtMs` is the real time since the last step. The drawn
+   * position eases over filter corrections so a late frame doesn't snap.
+   */
+  step(dtMs: number, now: number) {
+    const k = 1 - Math.exp(-dtMs / this.config.displayTauMs);
+    const kTurn = 1 - Math.exp(-dtMs / this.config.headingTauMs);
+    this.agents.forEach(agent => {
+      const estimate = this.filters.get(agent.id)!.estimate(now, this.config);
+      agent.velocity = estimate.velocity;
+      agent.speed = Math.hypot(estimate.velocity.x, estimate.velocity.y);
+      agent.pos.x += (estimate.pos.x - agent.pos.x) * k;
+      agent.pos.y += (estimate.pos.y - agent.pos.y) * k;
+      agent.angle += shortestAngleDelta(agent.angle, this.headings.get(agent.id) ?? agent.angle) * kTurn;
+      agent.angle = ((agent.angle % 360) + 360) % 360;
+
+      const last = agent.path[agent.path.length - 1];
+      if (!last || Math.hypot(agent.pos.x - last.x, agent.pos.y - last.y) > TRAIL_STEP_PX) {
+        agent.path.push({ x: agent.pos.x, y: agent.pos.y });
+        if (agent.path.length > TRAIL_POINTS) agent.path.shift();
+      }
+    });
+  }
+
+  private recordAttributes(id: string, gender: string, age: string, t: number) {
+    let history = this.attributes.get(id);
+    if (!history) {
+      history = [];
+      this.attributes.set(id, history);
+    }
+    const last = history[history.length - 1];
+    if (last && last.gender === gender && last.age === age) return;
+    history.push({ t, gender, age });
+    if (history.length > MAX_ATTRIBUTE_SAMPLES) history.shift();
+  }
+}
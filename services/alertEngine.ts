@@ -0,0 +1,158 @@
+import { Alert, AlertRule, Zone } from '../types';
+import { idbDelete, idbGetAll, idbPut } from './db';
+
+export interface AlertTrackInput {
+  id: string;
+  visitMs: number; // time since the track entered
+  zoneId: string | null;
+  zoneMs: number; // time spent at `zoneId`
+}
+
+/** Everything the rules look at, sampled once per evaluation. */
+export interface AlertInput {
+  storeId: string;
+  occupancy: number;
+  tracks: AlertTrackInput[];
+  idleMs: number; // time since anyone was last on the floor
+  open: boolean; // within the store's opening hours, in its timezone (see isOpenAt)
+  devices: { deviceId: string; silentMs: number }[];
+}
+
+interface Violation {
+  subject: Alert['subject'];
+  zoneId?: string;
+  message: string;
+}
+
+const formatDuration = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  return s >= 60 ? `${Math.floor(s / 60)}m ${(s % 60).toString().padStart(2, '0')}s` : `${s}s`;
+};
+
+const checkRule = (rule: AlertRule, input: AlertInput, zones: Zone[]): Violation[] => {
+  const limitMs = rule.threshold * 1000;
+  const zoneLabel = (id: string) => zones.find(z => z.id === id)?.label ?? id;
+
+  switch (rule.type) {
+    case 'max_occupancy':
+      return input.occupancy > rule.threshold
+        ? [{ subject: { kind: 'store', id: input.storeId }, message: `${input.occupancy} people inside (limit ${rule.threshold})` }]
+        : [];
+
+    case 'dwell_limit':
+      if (rule.aloneOnly && input.occupancy !== 1) return [];
+      return input.tracks
+        .filter(t => t.visitMs > limitMs)
+        .map(t => ({
+          subject: { kind: 'track', id: t.id },
+          message: `${t.id} inside ${rule.aloneOnly ? 'alone ' : ''}for ${formatDuration(t.visitMs)}`,
+        }));
+
+    case 'zone_loitering':
+      return input.tracks
+        .filter(t => t.zoneId && (!rule.zoneId || t.zoneId === rule.zoneId) && t.zoneMs > limitMs)
+        .map(t => ({
+          subject: { kind: 'track', id: t.id },
+          zoneId: t.zoneId!,
+          message: `${t.id} at ${zoneLabel(t.zoneId!)} for ${formatDuration(t.zoneMs)}`,
+        }));
+
+    case 'no_activity':
+      if (!input.open) return [];
+      return input.occupancy === 0 && input.idleMs > limitMs
+        ? [{ subject: { kind: 'store', id: input.storeId }, message: `No one on the floor for ${formatDuration(input.idleMs)}` }]
+        : [];
+
+    case 'device_offline':
+      return input.devices
+        .filter(d => (!rule.deviceId || d.deviceId === rule.deviceId) && d.silentMs > limitMs)
+        .map(d => ({
+          subject: { kind: 'device', id: d.deviceId },
+          message: `${d.deviceId} silent for ${formatDuration(d.silentMs)}`,
+        }));
+  }
+};
+
+/**
+ * Evaluates a store's rules against live state. An alert is raised when a
+ * rule's condition starts to hold for a subject and cleared when it stops;
+ * it stays in the feed until it is both cleared and acknowledged.
+ */
+export class AlertEngine {
+  private active = new Map<string, Alert>(); // `${ruleId}|${subject.id}`
+  private feed: Alert[] = [];
+
+  evaluate(rules: AlertRule[], input: AlertInput, zones: Zone[], now = Date.now()) {
+    const raised: Alert[] = [];
+    const updated: Alert[] = [];
+    const holding = new Set<string>();
+
+    rules.filter(r => r.enabled).forEach(rule => {
+      checkRule(rule, input, zones).forEach(v => {
+        const key = `${rule.id}|${v.subject.id}`;
+        holding.add(key);
+        const existing = this.active.get(key);
+        if (existing) {
+          existing.message = v.message;
+          return;
+        }
+        const alert: Alert = {
+          id: `${rule.id}-${v.subject.id}-${now}`,
+          ruleId: rule.id,
+          storeId: input.storeId,
+          type: rule.type,
+          severity: rule.severity,
+          message: v.message,
+          subject: v.subject,
+          zoneId: v.zoneId,
+          raisedAt: now,
+        };
+        this.active.set(key, alert);
+        this.feed.unshift(alert);
+        raised.push(alert);
+      });
+    });
+
+    this.active.forEach((alert, key) => {
+      if (holding.has(key)) return;
+      alert.clearedAt = now;
+      this.active.delete(key);
+      updated.push(alert);
+    });
+    this.prune();
+    return { raised, updated };
+  }
+
+  acknowledge(ids: string[], now = Date.now()) {
+    const acked = this.feed.filter(a => ids.includes(a.id) && !a.acknowledgedAt);
+    acked.forEach(a => { a.acknowledgedAt = now; });
+    this.prune();
+    return acked;
+  }
+
+  /** Active alerts plus cleared ones nobody has acknowledged yet, newest first. */
+  alerts(): Alert[] {
+    return this.feed.map(a => ({ ...a }));
+  }
+
+  private prune() {
+    this.feed = this.feed.filter(a => !(a.clearedAt && a.acknowledgedAt));
+  }
+}
+
+// Alert history, kept in IndexedDB so it survives reloads.
+export const saveAlert = (alert: Alert) => idbPut('alerts', alert);
+
+export const listAlertHistory = async (storeId: string, limit = 200) => {
+  const all = await idbGetAll<Alert>('alerts');
+  return all
+    .filter(a => a.storeId === storeId)
+    .sort((a, b) => b.raisedAt - a.raisedAt)
+    .slice(0, limit);
+};
+
+/** Deletes stored alerts of every store raised before `cutoff`. */
+export const pruneAlerts = async (cutoff: number) => {
+  const all = await idbGetAll<Alert>('alerts');
+  await Promise.all(all.filter(a => a.raisedAt < cutoff).map(a => idbDelete('alerts', a.id)));
+};
@@ -0,0 +1,41 @@
+import { AlertRule, AlertRuleType } from '../types';
+import { DEFAULT_ALERT_RULES } from '../constants';
+
+const ALERT_RULES_KEY = 'retail-twin.alert-rules';
+
+export type AlertRuleMap = Record<string, AlertRule[]>;
+
+export const ALERT_RULE_TYPES: Record<AlertRuleType, { label: string; unit: string }> = {
+  max_occupancy: { label: 'Max occupancy', unit: 'people' },
+  dwell_limit: { label: 'Dwell limit', unit: 'sec' },
+  zone_loitering: { label: 'Zone loitering', unit: 'sec' },
+  no_activity: { label: 'No activity', unit: 'sec' },
+  device_offline: { label: 'Device offline', unit: 'sec' },
+};
+
+// Only stores whose rules were edited are saved; the rest fall back to DEFAULT_ALERT_RULES.
+export const loadAlertRules = (): AlertRuleMap => {
+  try {
+    return JSON.parse(localStorage.getItem(ALERT_RULES_KEY) ?? '{}');
+  } catch {
+    console.error('Ignoring unreadable alert rules in localStorage');
+    return {};
+  }
+};
+
+export const defaultRulesFor = (storeId: string): AlertRule[] =>
+  DEFAULT_ALERT_RULES.map((r, i) => ({ ...r, id: `${storeId}-default-${i}`, storeId }));
+
+export const rulesForStore = (all: AlertRuleMap, storeId: string): AlertRule[] => all[storeId] ?? defaultRulesFor(storeId);
+
+export const saveStoreRules = (storeId: string, rules: AlertRule[]): AlertRuleMap => {
+  const all = { ...loadAlertRules(), [storeId]: rules };
+  localStorage.setItem(ALERT_RULES_KEY, JSON.stringify(all));
+  return all;
+};
+
+export const resetStoreRules = (storeId: string): AlertRuleMap => {
+  const { [storeId]: _removed, ...rest } = loadAlertRules();
+  localStorage.setItem(ALERT_RULES_KEY, JSON.stringify(rest));
+  return rest;
+};
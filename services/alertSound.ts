@@ -0,0 +1,30 @@
+import { AlertSeverity } from '../types';
+
+let audio: AudioContext | null = null;
+
+/**
+ * Short synthesized chime, so the wall display needs no audio assets.
+ * Browsers only allow audio after a user gesture; until then this is silent.
+ */
+export const playAlertTone = (severity: AlertSeverity) => {
+  try {
+    audio ??= new AudioContext();
+    if (audio.state === 'suspended') void audio.resume();
+    const beeps = severity === 'critical' ? 3 : 1;
+    const freq = severity === 'critical' ? 880 : 660;
+    for (let i = 0; i < beeps; i++) {
+      const start = audio.currentTime + i * 0.25;
+      const osc = audio.createOscillator();
+      const gain = audio.createGain();
+      osc.type = 'square';
+      osc.frequency.value = freq;
+      gain.gain.setValueAtTime(0.08, start);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.18);
+      osc.connect(gain).connect(audio.destination);
+      osc.start(start);
+      osc.stop(start + 0.2);
+    }
+  } catch (e) {
+    console.warn('Alert sound unavailable', e);
+  }
+};
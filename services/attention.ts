@@ -0,0 +1,162 @@
+import { AttentionConfig, Point, Zone, ZoneAttention } from '../types';
+
+export interface Gaze {
+  from: Point;
+  to: Point; // where the center ray stops: the first zone it hits, or the end of the cone
+  zoneId: string | null;
+}
+
+interface GlanceRun {
+  since: number;
+  counted: boolean;
+}
+
+interface TrackAttention {
+  firstSeen: number;
+  runs: Map<string, GlanceRun>; // zones the track is facing right now
+  glanced: Set<string>;
+  gaze: Gaze;
+}
+
+interface ZoneCounters {
+  facingMs: number;
+  glances: number;
+  viewers: number;
+  firstGlanceTotalMs: number;
+}
+
+// Distance along a ray to a rect (0 when starting inside), or null when it misses within `maxT`.
+const rayHitsRect = (o: Point, dx: number, dy: number, rect: Zone['rect'], maxT: number) => {
+  let tMin = 0;
+  let tMax = maxT;
+  const slabs: [number, number, number, number][] = [
+    [o.x, dx, rect.x, rect.x + rect.w],
+    [o.y, dy, rect.y, rect.y + rect.h],
+  ];
+  for (const [p, d, lo, hi] of slabs) {
+    if (Math.abs(d) < 1e-9) {
+      if (p < lo || p > hi) return null;
+      continue;
+    }
+    let t1 = (lo - p) / d;
+    let t2 = (hi - p) / d;
+    if (t1 > t2) [t1, t2] = [t2, t1];
+    tMin = Math.max(tMin, t1);
+    tMax = Math.min(tMax, t2);
+    if (tMin > tMax) return null;
+  }
+  return tMin;
+};
+
+/**
+ * Counts where shoppers look rather than where they stand: each step casts
+ * the vision cone (or only its center ray) from the agent's heading and
+ * credits the racks/islands it hits with facing time. Racks block the view
+ * of whatever is behind them. In cone mode a zone gets the share of rays that
+ * hit it, so one person never adds up to more than one facing second per second.
+ */
+export class AttentionEngine {
+  private tracks = new Map<string, TrackAttention>();
+  private counters = new Map<string, ZoneCounters>();
+
+  constructor(private zones: Zone[], private config: AttentionConfig) {
+    zones.forEach(z => this.counters.set(z.id, { facingMs: 0, glances: 0, viewers: 0, firstGlanceTotalMs: 0 }));
+  }
+
+  setConfig(config: AttentionConfig) {
+    this.config = config;
+  }
+
+  /** `headingDeg` is the agent's drawn heading; `dtMs` the real time since the last step. */
+  step(trackId: string, pos: Point, headingDeg: number, dtMs: number, now: number) {
+    const { weights, gaze } = this.cast(pos, (headingDeg * Math.PI) / 180);
+    const t = this.tracks.get(trackId) ?? { firstSeen: now, runs: new Map<string, GlanceRun>(), glanced: new Set<string>(), gaze };
+    this.tracks.set(trackId, t);
+    t.gaze = gaze;
+    weights.forEach((w, zoneId) => { this.counters.get(zoneId)!.facingMs += dtMs * w; });
+
+    t.runs.forEach((_, zoneId) => { if (!weights.has(zoneId)) t.runs.delete(zoneId); });
+    weights.forEach((_, zoneId) => {
+      const run = t.runs.get(zoneId) ?? { since: now, counted: false };
+      t.runs.set(zoneId, run);
+      if (run.counted || now - run.since < this.config.minGlanceMs) return;
+      run.counted = true;
+      const c = this.counters.get(zoneId)!;
+      c.glances += 1;
+      if (t.glanced.has(zoneId)) return;
+      t.glanced.add(zoneId);
+      c.viewers += 1;
+      c.firstGlanceTotalMs += run.since - t.firstSeen;
+    });
+    return gaze;
+  }
+
+  remove(trackId: string) {
+    this.tracks.delete(trackId);
+  }
+
+  gazes(): Gaze[] {
+    return [...this.tracks.values()].map(t => t.gaze);
+  }
+
+  snapshot(): ZoneAttention[] {
+    let totalMs = 0;
+    this.counters.forEach(c => { totalMs += c.facingMs; });
+    const lookers = new Map<string, number>();
+    this.tracks.forEach(t => t.runs.forEach((_, zoneId) => lookers.set(zoneId, (lookers.get(zoneId) ?? 0) + 1)));
+
+    return this.zones.map(z => {
+      const c = this.counters.get(z.id)!;
+      return {
+        zoneId: z.id,
+        label: z.label,
+        kind: z.kind,
+        facingMs: c.facingMs,
+        share: totalMs > 0 ? c.facingMs / totalMs : 0,
+        glances: c.glances,
+        viewers: c.viewers,
+        avgFirstGlanceMs: c.viewers > 0 ? c.firstGlanceTotalMs / c.viewers : null,
+        lookers: lookers.get(z.id) ?? 0,
+      };
+    });
+  }
+
+  private cast(pos: Point, heading: number) {
+    const { mode, coneLengthPx, coneHalfAngleDeg, coneRays } = this.config;
+    const weights = new Map<string, number>();
+    const center = this.firstHit(pos, heading);
+    if (mode === 'ray') {
+      if (center) weights.set(center.zoneId, 1);
+    } else {
+      const half = (coneHalfAngleDeg * Math.PI) / 180;
+      const n = Math.max(2, coneRays);
+      for (let i = 0; i < n; i++) {
+        const hit = this.firstHit(pos, heading - half + (2 * half * i) / (n - 1));
+        if (hit) weights.set(hit.zoneId, (weights.get(hit.zoneId) ?? 0) + 1 / n);
+      }
+    }
+
+    const reach = center?.t ?? coneLengthPx;
+    const gaze: Gaze = {
+      from: pos,
+      to: { x: pos.x + Math.cos(heading) * reach, y: pos.y + Math.sin(heading) * reach },
+      zoneId: center?.zoneId ?? null,
+    };
+    return { weights, gaze };
+  }
+
+  // Nearest zone along one ray within the cone's length.
+  private firstHit(pos: Point, angle: number) {
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    let best: { zoneId: string; t: number } | null = null;
+    for (const z of this.zones) {
+      const t = rayHitsRect(pos, dx, dy, z.rect, best?.t ?? this.config.coneLengthPx);
+      if (t !== null && (!best || t < best.t)) best = { zoneId: z.id, t };
+    }
+    return best;
+  }
+}
+
+// Ranked by facing time, the number suppliers ask for.
+export const rankAttention = (stats: ZoneAttention[]) => [...stats].sort((a, b) => b.facingMs - a.facingMs || b.viewers - a.viewers);
@@ -0,0 +1,149 @@
+import { BusinessDay, DayTotals, EntranceCounts, StoreConfig } from '../types';
+import { TallySnapshot } from './demographics';
+import { BackendDayState } from './entranceCounter';
+
+const DAY_SNAPSHOTS_KEY = 'retail-twin.day-snapshots';
+const MINUTE_MS = 60_000;
+const DAY_MINUTES = 24 * 60;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const formatterFor = (timeZone: string) => {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const storeTimeZone = (store: StoreConfig) => store.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/** Wall-clock date and time of `ts` in `timeZone`. */
+const zonedClock = (ts: number, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  formatterFor(timeZone).formatToParts(ts).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  });
+  return { year: parts.year, month: parts.month, day: parts.day, minutes: parts.hour * 60 + parts.minute, seconds: parts.second };
+};
+
+const offsetMs = (ts: number, timeZone: string) => {
+  const c = zonedClock(ts, timeZone);
+  return Date.UTC(c.year, c.month - 1, c.day, 0, c.minutes, c.seconds) - Math.floor(ts / 1000) * 1000;
+};
+
+// Epoch ms of a wall-clock time in `timeZone`; day and minute overflow roll over like Date.UTC.
+const zonedTime = (year: number, month: number, day: number, minutes: number, timeZone: string) => {
+  const guess = Date.UTC(year, month - 1, day, 0, minutes);
+  return guess - offsetMs(guess - offsetMs(guess, timeZone), timeZone);
+};
+
+/** Hour of the day (0-23) on the wall clock in `timeZone`. */
+export const zonedHour = (ts: number, timeZone: string) => Math.floor(zonedClock(ts, timeZone).minutes / 60);
+
+/** Calendar date of `ts` in `timeZone`, e.g. "2024-05-31". */
+export const zonedDayKey = (ts: number, timeZone: string) => {
+  const c = zonedClock(ts, timeZone);
+  return `${c.year}-${pad(c.month)}-${pad(c.day)}`;
+};
+
+/** Epoch ms of midnight at the start of a calendar date in `timeZone`. */
+export const zonedMidnight = (day: string, timeZone: string) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return zonedTime(y, m, d, 0, timeZone);
+};
+
+/** "HH:MM" to minutes after midnight, or null when malformed. */
+export const parseClockTime = (hm: string) => {
+  const m = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(hm);
+  return m ? Number(m[1]) * 60 + Number(m[2]) : null;
+};
+
+const hoursOf = (store: StoreConfig) => ({
+  open: store.openingHours ? parseClockTime(store.openingHours.open) ?? 0 : 0,
+  close: store.openingHours ? parseClockTime(store.openingHours.close) ?? 0 : 0,
+});
+
+/**
+ * The business day `ts` falls in. A day ends at closing time (midnight for
+ * stores without opening hours) and is named after the date it opens on, so
+ * a store open 10:00-02:00 keeps its small hours in the previous day and one
+ * open 06:00-22:00 counts the late evening towards tomorrow.
+ */
+export const businessDayOf = (ts: number, store: StoreConfig): BusinessDay => {
+  const timeZone = storeTimeZone(store);
+  const { open, close } = hoursOf(store);
+  const shift = close > open ? DAY_MINUTES - close : -close;
+  const c = zonedClock(ts + shift * MINUTE_MS, timeZone);
+  const startDay = close > open ? c.day - 1 : c.day;
+  return {
+    key: `${c.year}-${pad(c.month)}-${pad(c.day)}`,
+    start: zonedTime(c.year, c.month, startDay, close, timeZone),
+    end: zonedTime(c.year, c.month, startDay + 1, close, timeZone),
+  };
+};
+
+// Business day keys are calendar dates, so they step like dates.
+export const addDays = (day: string, n: number) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + n)).toISOString().slice(0, 10);
+};
+
+export const isDayKey = (v: string) => /^\d{4}-\d{2}-\d{2}$/.test(v) && addDays(v, 0) === v;
+
+/** Always open when the store has no opening hours. */
+export const isOpenAt = (ts: number, store: StoreConfig) => {
+  if (!store.openingHours) return true;
+  const { open, close } = hoursOf(store);
+  const { minutes } = zonedClock(ts, storeTimeZone(store));
+  return close > open ? minutes >= open && minutes < close : minutes >= open || minutes < close;
+};
+
+// Each store's business day so far. A reload during the day carries on from
+// it; one after the day ended (or a tab left closed over closing time)
+// archives it before the next day starts.
+export interface DaySnapshot {
+  day: BusinessDay;
+  counters: BackendDayState;
+  totals: DayTotals;
+  entrance: EntranceCounts;
+  demographics: TallySnapshot;
+  heatmap: { cols: number; rows: number; grid: number[] };
+}
+
+export const loadDaySnapshots = (): Record<string, DaySnapshot> => {
+  try {
+    return JSON.parse(localStorage.getItem(DAY_SNAPSHOTS_KEY) ?? '{}');
+  } catch {
+    console.error('Ignoring unreadable day snapshots in localStorage');
+    return {};
+  }
+};
+
+export const saveDaySnapshots = (all: Record<string, DaySnapshot>) => {
+  try {
+    localStorage.setItem(DAY_SNAPSHOTS_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.error('Failed to save day snapshots', e);
+  }
+};
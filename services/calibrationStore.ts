@@ -0,0 +1,27 @@
+import { CameraCalibration } from '../types';
+
+const CALIBRATIONS_KEY = 'retail-twin.calibrations';
+
+export type CalibrationMap = Record<string, CameraCalibration>;
+
+// Calibrations are small and per-browser, so localStorage (keyed by deviceId) is enough.
+export const loadCalibrations = (): CalibrationMap => {
+  try {
+    return JSON.parse(localStorage.getItem(CALIBRATIONS_KEY) ?? '{}');
+  } catch {
+    console.error('Ignoring unreadable camera calibrations in localStorage');
+    return {};
+  }
+};
+
+export const saveCalibration = (calibration: CameraCalibration): CalibrationMap => {
+  const all = { ...loadCalibrations(), [calibration.deviceId]: calibration };
+  localStorage.setItem(CALIBRATIONS_KEY, JSON.stringify(all));
+  return all;
+};
+
+export const removeCalibration = (deviceId: string): CalibrationMap => {
+  const { [deviceId]: _removed, ...rest } = loadCalibrations();
+  localStorage.setItem(CALIBRATIONS_KEY, JSON.stringify(rest));
+  return rest;
+};
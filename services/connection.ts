@@ -0,0 +1,256 @@
+import { ConnectionConfig, ConnectionHealth, ConnectionSettings, ConnectionState } from '../types';
+
+const CONNECTION_KEY = 'retail-twin.connection';
+const RATE_WINDOW_MS = 5000;
+// Control messages are tiny; anything bigger is a frame and isn't worth a second JSON.parse.
+const MAX_CONTROL_BYTES = 512;
+const LATENCY_SMOOTHING = 0.2;
+
+export type SettingsSource = 'query' | 'saved' | 'env' | 'default';
+
+const parseDevices = (v: string | null | undefined) =>
+  (v ?? '').split(',').map(s => s.trim()).filter(Boolean);
+
+const readSaved = (): Partial<ConnectionSettings> => {
+  try {
+    return JSON.parse(localStorage.getItem(CONNECTION_KEY) ?? '{}');
+  } catch {
+    console.error('Ignoring unreadable connection settings in localStorage');
+    return {};
+  }
+};
+
+/**
+ * Endpoint, token and device filter, each taken from the first of: the page's
+ * query string (`?ws=…&token=…&devices=a,b`), the settings panel, the
+ * VITE_WS_URL / VITE_WS_TOKEN / VITE_WS_DEVICES env vars, or the default.
+ */
+export const loadConnectionSettings = (defaultUrl: string): { settings: ConnectionSettings; source: SettingsSource } => {
+  const query = new URLSearchParams(window.location.search);
+  const saved = readSaved();
+  const env = import.meta.env;
+  const settings: ConnectionSettings = {
+    url: query.get('ws') ?? saved.url ?? env.VITE_WS_URL ?? defaultUrl,
+    token: query.get('token') ?? saved.token ?? env.VITE_WS_TOKEN ?? '',
+    deviceFilter: query.has('devices') ? parseDevices(query.get('devices')) : saved.deviceFilter ?? parseDevices(env.VITE_WS_DEVICES),
+  };
+  let source: SettingsSource = 'default';
+  if (query.has('ws') || query.has('token') || query.has('devices')) source = 'query';
+  else if (Object.keys(saved).length > 0) source = 'saved';
+  else if (env.VITE_WS_URL || env.VITE_WS_TOKEN || env.VITE_WS_DEVICES) source = 'env';
+  return { settings, source };
+};
+
+export const saveConnectionSettings = (settings: ConnectionSettings) => localStorage.setItem(CONNECTION_KEY, JSON.stringify(settings));
+
+export const clearConnectionSettings = () => localStorage.removeItem(CONNECTION_KEY);
+
+/** Throws on anything that isn't a ws:// or wss:// URL. */
+export const buildSocketUrl = (settings: ConnectionSettings) => {
+  const url = new URL(settings.url);
+  if (url.protocol !== 'ws:' && url.protocol !== 'wss:') throw new Error(`expected ws:// or wss://, got ${url.protocol}`);
+  if (settings.token) url.searchParams.set('token', settings.token);
+  if (settings.deviceFilter.length > 0) url.searchParams.set('devices', settings.deviceFilter.join(','));
+  return url.toString();
+};
+
+export const backoffDelay = (attempt: number, config: ConnectionConfig, random = Math.random) => {
+  const base = Math.min(config.maxBackoffMs, config.initialBackoffMs * config.backoffFactor ** attempt);
+  return Math.round(base * (1 + config.jitterRatio * (2 * random() - 1)));
+};
+
+interface ConnectionHandlers {
+  onMessage: (raw: string) => void;
+  onStateChange: (state: ConnectionState) => void;
+}
+
+/**
+ * Owns the browser's socket to the gateway: reconnects with exponential
+ * backoff, pings to notice a dead link the browser hasn't, and watches for a
+ * stream that is connected but has stopped sending device frames. Frames
+ * are reported back through `frameReceived` once the app has validated them.
+ */
+export class ConnectionManager {
+  private ws: WebSocket | null = null;
+  private state: ConnectionState = 'closed';
+  private stopped = true;
+  private attempt = 0;
+  private reconnects = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private nextRetryAt: number | null = null;
+  private lastError: string | null = null;
+  private openedAt = 0;
+  private lastMessageAt = 0;
+  private lastFrameAt: number | null = null;
+  private arrivals: number[] = [];
+  private pingSeq = 0;
+  private rttMs: number | null = null;
+  private clockOffsetMs = 0; // gateway clock minus ours
+  private latencyMs: number | null = null;
+
+  constructor(private settings: ConnectionSettings, private config: ConnectionConfig, private handlers: ConnectionHandlers) {}
+
+  start() {
+    this.stopped = false;
+    this.connect();
+  }
+
+  stop() {
+    this.stopped = true;
+    this.teardown();
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.nextRetryAt = null;
+    this.setState('closed');
+  }
+
+  /** A valid device_data frame arrived; `sentAt` is the gateway's timestamp on it, if any. */
+  frameReceived(sentAt?: number, now = Date.now()) {
+    this.lastFrameAt = now;
+    this.attempt = 0;
+    if (this.state === 'stale') this.setState('open');
+    const latency = sentAt !== undefined ? now - (sentAt - this.clockOffsetMs) : this.rttMs !== null ? this.rttMs / 2 : null;
+    if (latency === null) return;
+    this.latencyMs = this.latencyMs === null ? latency : this.latencyMs + LATENCY_SMOOTHING * (latency - this.latencyMs);
+  }
+
+  health(now = Date.now()): ConnectionHealth {
+    this.trimArrivals(now);
+    return {
+      state: this.state,
+      messagesPerSec: this.arrivals.length / (RATE_WINDOW_MS / 1000),
+      lastFrameAt: this.lastFrameAt,
+      reconnects: this.reconnects,
+      latencyMs: this.latencyMs === null ? null : Math.max(0, Math.round(this.latencyMs)),
+      rttMs: this.rttMs,
+      nextRetryAt: this.nextRetryAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private connect() {
+    this.nextRetryAt = null;
+    this.setState('connecting');
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(buildSocketUrl(this.settings));
+    } catch (e) {
+      this.lastError = (e as Error).message;
+      this.scheduleReconnect();
+      return;
+    }
+    this.ws = ws;
+
+    // The backoff isn't reset on open: a gateway that accepts and then closes
+    // right away (e.g. 1013 during an outage) would otherwise be retried every
+    // initialBackoffMs. See frameReceived and heartbeat.
+    ws.onopen = () => {
+      const now = Date.now();
+      this.lastError = null;
+      this.openedAt = now;
+      this.lastMessageAt = now;
+      this.setState('open');
+      this.heartbeatTimer = setInterval(() => this.heartbeat(), this.config.pingIntervalMs);
+      console.log('Connected to Retail Twin Stream');
+    };
+
+    ws.onmessage = event => {
+      const now = Date.now();
+      this.lastMessageAt = now;
+      this.arrivals.push(now);
+      this.trimArrivals(now);
+      const raw = String(event.data);
+      if (raw.length <= MAX_CONTROL_BYTES && this.handleControl(raw, now)) return;
+      this.handlers.onMessage(raw);
+    };
+
+    ws.onclose = event => {
+      if (!this.lastError && event.code !== 1000) this.lastError = `closed (${event.code}${event.reason ? ` ${event.reason}` : ''})`;
+      this.teardown();
+      this.scheduleReconnect();
+    };
+
+    ws.onerror = err => {
+      console.error('WS Error', err);
+      this.lastError = 'socket error';
+      ws.close();
+    };
+  }
+
+  private heartbeat() {
+    const now = Date.now();
+    if (now - this.lastMessageAt > this.config.silenceTimeoutMs) {
+      this.drop(`no messages for ${Math.round((now - this.lastMessageAt) / 1000)}s`);
+      return;
+    }
+
+    const quietFor = now - (this.lastFrameAt !== null && this.lastFrameAt > this.openedAt ? this.lastFrameAt : this.openedAt);
+    if (quietFor > this.config.staleReconnectMs) {
+      this.drop(`no device frames for ${Math.round(quietFor / 1000)}s`);
+      return;
+    }
+    if (quietFor > this.config.staleAfterMs && this.state === 'open') this.setState('stale');
+    if (now - this.openedAt >= this.config.stableAfterMs) this.attempt = 0;
+
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ type: 'ping', id: ++this.pingSeq, sentAt: now }));
+    }
+  }
+
+  // Pong: { type: 'pong', sentAt: <our ping's sentAt>, serverTime }
+  private handleControl(raw: string, now: number) {
+    let msg: { type?: unknown; sentAt?: unknown; serverTime?: unknown };
+    try {
+      msg = JSON.parse(raw);
+    } catch {
+      return false;
+    }
+    if (msg?.type !== 'pong') return false;
+    if (typeof msg.sentAt === 'number') {
+      this.rttMs = now - msg.sentAt;
+      if (typeof msg.serverTime === 'number') this.clockOffsetMs = msg.serverTime - (msg.sentAt + this.rttMs / 2);
+    }
+    return true;
+  }
+
+  // The browser may take a long time to notice a dead peer, so stop listening and move on.
+  private drop(reason: string) {
+    console.warn(`Dropping stream connection: ${reason}`);
+    this.lastError = reason;
+    this.teardown();
+    this.scheduleReconnect();
+  }
+
+  private teardown() {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+    const ws = this.ws;
+    this.ws = null;
+    if (!ws) return;
+    ws.onopen = ws.onmessage = ws.onclose = ws.onerror = null;
+    if (ws.readyState === WebSocket.CONNECTING || ws.readyState === WebSocket.OPEN) ws.close();
+  }
+
+  private scheduleReconnect() {
+    if (this.stopped) return;
+    const delay = backoffDelay(this.attempt++, this.config);
+    this.nextRetryAt = Date.now() + delay;
+    this.setState('reconnecting');
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.reconnects++;
+      this.connect();
+    }, delay);
+  }
+
+  private trimArrivals(now: number) {
+    while (this.arrivals.length > 0 && now - this.arrivals[0] > RATE_WINDOW_MS) this.arrivals.shift();
+  }
+
+  private setState(state: ConnectionState) {
+    if (state === this.state) return;
+    this.state = state;
+    this.handlers.onStateChange(state);
+  }
+}
@@ -0,0 +1,22 @@
+import { DayArchive } from '../types';
+import { idbDelete, idbGet, idbGetAll, idbPut } from './db';
+
+const storeRange = (storeId: string, from = '', to = '\uffff') => IDBKeyRange.bound([storeId, from], [storeId, to]);
+
+// One record per store and business day, written when the day closes.
+export const saveDayArchive = (archive: DayArchive) => idbPut('days', archive);
+
+/** Keys of the store's archived business days, newest first. */
+export const listArchivedDays = async (storeId: string) => {
+  const archives = await idbGetAll<DayArchive>('days', storeRange(storeId));
+  return archives.map(a => a.key).reverse();
+};
+
+export const loadDayArchive = (storeId: string, key: string) => idbGet<DayArchive>('days', [storeId, key]);
+
+/** Every archived day from `from` to `to`, both included. */
+export const loadDayArchives = (storeId: string, from: string, to: string) => idbGetAll<DayArchive>('days', storeRange(storeId, from, to));
+
+/** Deletes the store's archives of business days before `cutoffDay`. */
+export const pruneDayArchives = (storeId: string, cutoffDay: string) =>
+  idbDelete('days', IDBKeyRange.bound([storeId, ''], [storeId, cutoffDay], false, true));
@@ -0,0 +1,83 @@
+// Thin promise wrapper around the browser's IndexedDB. Every feature that keeps
+// data across reloads registers its object store in OBJECT_STORES and bumps
+// DB_VERSION so existing installs pick up the new store on next open.
+
+const DB_NAME = 'retail-twin';
+const DB_VERSION = 7;
+
+const OBJECT_STORES = {
+  sessions: { keyPath: 'id' },
+  frames: { keyPath: ['sessionId', 'seq'] },
+  heatmaps: { keyPath: 'key' },
+  alerts: { keyPath: 'id' },
+  kpis: { keyPath: ['storeId', 'resolution', 'start'] },
+  visits: { keyPath: ['storeId', 'exitedAt', 'trackId'] },
+  days: { keyPath: ['storeId', 'key'] },
+  layouts: { keyPath: ['storeId', 'revision'] },
+} satisfies Record<string, IDBObjectStoreParameters>;
+
+export type ObjectStoreName = keyof typeof OBJECT_STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      Object.entries(OBJECT_STORES).forEach(([name, params]) => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, params);
+      });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  name: ObjectStoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return requestToPromise(fn(db.transaction(name, mode).objectStore(name)));
+};
+
+export const idbGet = <T>(name: ObjectStoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(name, 'readonly', s => s.get(key));
+
+export const idbGetAll = <T>(name: ObjectStoreName, range?: IDBKeyRange) =>
+  withStore<T[]>(name, 'readonly', s => s.getAll(range));
+
+export const idbPut = <T>(name: ObjectStoreName, value: T) =>
+  withStore<IDBValidKey>(name, 'readwrite', s => s.put(value));
+
+export const idbDelete = (name: ObjectStoreName, key: IDBValidKey | IDBKeyRange) =>
+  withStore<undefined>(name, 'readwrite', s => s.delete(key));
+
+// Writes many records in a single transaction; used for batched appends.
+export const idbPutMany = async <T>(name: ObjectStoreName, values: T[]): Promise<void> => {
+  if (values.length === 0) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(name, 'readwrite');
+    const store = tx.objectStore(name);
+    values.forEach(v => store.put(v));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,132 @@
+import { AgeBand, Customer, DemographicCell, DemographicsConfig, Gender } from '../types';
+
+export const UNKNOWN_AGE_BAND = 'unknown';
+
+/**
+ * Reads the tracker's age string as a single representative age: "25-34" is
+ * its midpoint, "55+" its lower bound, "<18" just under it, "30" itself.
+ * Anything else (including "unknown") is null.
+ */
+export const parseAge = (age: string | undefined): number | null => {
+  const s = (age ?? '').trim();
+  let m = s.match(/^(\d+)\s*[-–]\s*(\d+)$/);
+  if (m) return (Number(m[1]) + Number(m[2])) / 2;
+  m = s.match(/^(\d+)\s*\+$/);
+  if (m) return Number(m[1]);
+  m = s.match(/^<\s*(\d+)$/);
+  if (m) return Number(m[1]) - 1;
+  m = s.match(/^\d+(\.\d+)?$/);
+  return m ? Number(s) : null;
+};
+
+export const ageBandOf = (age: string | undefined, bands: AgeBand[]) => {
+  const value = parseAge(age);
+  if (value === null) return UNKNOWN_AGE_BAND;
+  let band = UNKNOWN_AGE_BAND;
+  bands.forEach(b => {
+    if (value >= b.min) band = b.label;
+  });
+  return band;
+};
+
+/** One-letter tag for a gender, '?' when it couldn't be read. */
+export const genderLetter = (gender: Gender) => (gender === Gender.FEMALE ? 'F' : gender === Gender.MALE ? 'M' : '?');
+
+/** Every band label in display order, ending with 'unknown'. */
+export const bandLabels = (bands: AgeBand[]) => [...bands.map(b => b.label), UNKNOWN_AGE_BAND];
+
+const cellKey = (gender: Gender, band: string) => `${gender}|${band}`;
+
+const emptyCells = (bands: AgeBand[]) => {
+  const cells = new Map<string, DemographicCell>();
+  [Gender.FEMALE, Gender.MALE, Gender.UNKNOWN].forEach(gender =>
+    bandLabels(bands).forEach(band => cells.set(cellKey(gender, band), { gender, band, visitors: 0, completed: 0, dwellTotalMs: 0, quickExits: 0 }))
+  );
+  return cells;
+};
+
+/** Gender × age band counts of who is on the floor right now. */
+export const liveDemographics = (agents: Iterable<Customer>, bands: AgeBand[]): DemographicCell[] => {
+  const cells = emptyCells(bands);
+  for (const c of agents) cells.get(cellKey(c.gender, ageBandOf(c.age, bands)))!.visitors++;
+  return [...cells.values()];
+};
+
+/** A tally in plain JSON, for saving the day across a reload. */
+export interface TallySnapshot {
+  visitors: [string, { gender: Gender; band: string }][];
+  exits: DemographicCell[];
+}
+
+/**
+ * Today's visitors by gender and age band, each visitor id counted once.
+ * A visitor first seen without a readable age moves to its band once the
+ * tracker reports one. A new tally is started with each business day.
+ */
+export class DemographicsTally {
+  private visitors = new Map<string, { gender: Gender; band: string }>();
+  private exits: Map<string, DemographicCell>;
+
+  /** `saved` carries on from a snapshot; bands no longer configured count as unknown. */
+  constructor(private config: DemographicsConfig, saved?: TallySnapshot) {
+    this.exits = emptyCells(config.ageBands);
+    if (!saved) return;
+    const known = (band: string) => (config.ageBands.some(b => b.label === band) ? band : UNKNOWN_AGE_BAND);
+    saved.visitors.forEach(([id, v]) => {
+      const band = known(v.band);
+      if (this.exits.has(cellKey(v.gender, band))) this.visitors.set(id, { gender: v.gender, band });
+    });
+    saved.exits.forEach(c => {
+      const cell = this.exits.get(cellKey(c.gender, known(c.band)));
+      if (!cell) return;
+      cell.completed += c.completed;
+      cell.dwellTotalMs += c.dwellTotalMs;
+      cell.quickExits += c.quickExits;
+    });
+  }
+
+  observe(agent: Customer) {
+    const band = ageBandOf(agent.age, this.config.ageBands);
+    const known = this.visitors.get(agent.id);
+    if (!known) {
+      this.visitors.set(agent.id, { gender: agent.gender, band });
+      return;
+    }
+    if (known.band === UNKNOWN_AGE_BAND) known.band = band;
+    if (known.gender === Gender.UNKNOWN) known.gender = agent.gender;
+  }
+
+  exit(agent: Customer, dwellMs: number) {
+    this.observe(agent);
+    const { gender, band } = this.visitors.get(agent.id)!;
+    const cell = this.exits.get(cellKey(gender, band))!;
+    cell.completed++;
+    cell.dwellTotalMs += dwellMs;
+    if (dwellMs < this.config.quickExitMs) cell.quickExits++;
+  }
+
+  /** An independent copy, so another pipeline can carry on with the same day. */
+  clone() {
+    const copy = new DemographicsTally(this.config);
+    this.visitors.forEach((v, id) => copy.visitors.set(id, { ...v }));
+    this.exits.forEach((c, key) => copy.exits.set(key, { ...c }));
+    return copy;
+  }
+
+  snapshot(): TallySnapshot {
+    return { visitors: [...this.visitors].map(([id, v]) => [id, { ...v }]), exits: [...this.exits.values()].map(c => ({ ...c })) };
+  }
+
+  cumulative(): DemographicCell[] {
+    const cells = new Map([...this.exits].map(([k, c]) => [k, { ...c }]));
+    this.visitors.forEach(v => cells.get(cellKey(v.gender, v.band))!.visitors++);
+    return [...cells.values()];
+  }
+}
+
+/** Sums cells over one dimension, e.g. totals per gender or per band. */
+export const sumCells = (cells: DemographicCell[], by: (c: DemographicCell) => boolean) =>
+  cells.filter(by).reduce(
+    (s, c) => ({ visitors: s.visitors + c.visitors, completed: s.completed + c.completed, dwellTotalMs: s.dwellTotalMs + c.dwellTotalMs, quickExits: s.quickExits + c.quickExits }),
+    { visitors: 0, completed: 0, dwellTotalMs: 0, quickExits: 0 }
+  );
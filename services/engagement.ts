@@ -0,0 +1,176 @@
+import { AgentState, EngagementConfig, Point, StoreConfig, Zone, ZoneEngagement } from '../types';
+
+export const buildZones = (store: StoreConfig): Zone[] => {
+  const seen = new Map<string, number>();
+  const numbered = (label: string) => {
+    const n = (seen.get(label) ?? 0) + 1;
+    seen.set(label, n);
+    return `${label} ${n}`;
+  };
+
+  return [
+    ...store.racks.map(r => ({
+      id: r.id,
+      label: numbered(r.label),
+      kind: 'rack' as const,
+      rect: { x: r.pos.x - r.w / 2, y: r.pos.y - r.h / 2, w: r.w, h: r.h },
+    })),
+    ...store.islands.map(isl => ({
+      id: isl.id,
+      label: numbered(isl.label),
+      kind: 'island' as const,
+      rect: isl.rect,
+    })),
+  ];
+};
+
+// Distance from a point to the closest edge of a rect (0 when inside).
+export const distanceToRect = (p: Point, rect: Zone['rect']) => {
+  const dx = Math.max(rect.x - p.x, 0, p.x - (rect.x + rect.w));
+  const dy = Math.max(rect.y - p.y, 0, p.y - (rect.y + rect.h));
+  return Math.hypot(dx, dy);
+};
+
+export const nearestZone = (p: Point, zones: Zone[], reachPx: number): Zone | null => {
+  let best: Zone | null = null;
+  let bestDist = reachPx;
+  zones.forEach(z => {
+    const d = distanceToRect(p, z.rect);
+    if (d <= bestDist) {
+      best = z;
+      bestDist = d;
+    }
+  });
+  return best;
+};
+
+interface TrackEngagement {
+  zoneId: string | null;
+  zoneEnteredAt: number;
+  anchor: Point;
+  stillSince: number;
+  stopped: boolean;
+}
+
+interface ZoneCounters {
+  visits: number;
+  stops: number;
+  passBys: number;
+  dwellMs: number;
+}
+
+export interface EngagementStep {
+  zoneId: string | null;
+  state: AgentState;
+  zoneEnteredAt: number;
+  stillMs: number;
+  stopped: boolean;
+}
+
+/**
+ * Assigns each track to its nearest rack/island zone and keeps per-zone visit,
+ * stop and dwell counters. `step` only compares against absolute timestamps, so
+ * calling it twice for the same instant (React strict mode) is harmless.
+ */
+export class EngagementEngine {
+  private tracks = new Map<string, TrackEngagement>();
+  private counters = new Map<string, ZoneCounters>();
+
+  constructor(private zones: Zone[], private config: EngagementConfig) {
+    zones.forEach(z => this.counters.set(z.id, { visits: 0, stops: 0, passBys: 0, dwellMs: 0 }));
+  }
+
+  setConfig(config: EngagementConfig) {
+    this.config = config;
+  }
+
+  step(trackId: string, pos: Point, now: number): EngagementStep {
+    const zone = nearestZone(pos, this.zones, this.config.zoneReachPx);
+    const zoneId = zone?.id ?? null;
+    let t = this.tracks.get(trackId);
+
+    if (!t) {
+      t = { zoneId: null, zoneEnteredAt: now, anchor: { ...pos }, stillSince: now, stopped: false };
+      this.tracks.set(trackId, t);
+    }
+
+    if (t.zoneId !== zoneId) {
+      this.closeVisit(t, now);
+      t.zoneId = zoneId;
+      t.zoneEnteredAt = now;
+      t.stopped = false;
+      if (zoneId) this.counters.get(zoneId)!.visits += 1;
+    }
+
+    if (Math.hypot(pos.x - t.anchor.x, pos.y - t.anchor.y) > this.config.stillRadiusPx) {
+      t.anchor = { ...pos };
+      t.stillSince = now;
+    }
+
+    const stillMs = now - t.stillSince;
+    const browsing = zoneId !== null && stillMs >= this.config.browseThresholdMs;
+    if (browsing && !t.stopped) {
+      t.stopped = true;
+      this.counters.get(zoneId)!.stops += 1;
+    }
+
+    return {
+      zoneId,
+      state: browsing ? AgentState.BROWSING : AgentState.WALKING,
+      zoneEnteredAt: t.zoneEnteredAt,
+      stillMs,
+      stopped: t.stopped,
+    };
+  }
+
+  remove(trackId: string, now: number) {
+    const t = this.tracks.get(trackId);
+    if (!t) return;
+    this.closeVisit(t, now);
+    this.tracks.delete(trackId);
+  }
+
+  snapshot(now: number): ZoneEngagement[] {
+    const liveDwell = new Map<string, number>();
+    const occupants = new Map<string, number>();
+    this.tracks.forEach(t => {
+      if (!t.zoneId) return;
+      liveDwell.set(t.zoneId, (liveDwell.get(t.zoneId) ?? 0) + (now - t.zoneEnteredAt));
+      occupants.set(t.zoneId, (occupants.get(t.zoneId) ?? 0) + 1);
+    });
+
+    return this.zones.map(z => {
+      const c = this.counters.get(z.id)!;
+      const decided = c.stops + c.passBys;
+      return {
+        zoneId: z.id,
+        label: z.label,
+        kind: z.kind,
+        visits: c.visits,
+        stops: c.stops,
+        passBys: c.passBys,
+        dwellMs: c.dwellMs + (liveDwell.get(z.id) ?? 0),
+        occupants: occupants.get(z.id) ?? 0,
+        stopRate: decided > 0 ? c.stops / decided : 0,
+      };
+    });
+  }
+
+  private closeVisit(t: TrackEngagement, now: number) {
+    if (!t.zoneId) return;
+    const c = this.counters.get(t.zoneId)!;
+    c.dwellMs += now - t.zoneEnteredAt;
+    if (!t.stopped) c.passBys += 1;
+  }
+}
+
+// Ranked by stops first (what category managers care about), then by dwell.
+export const rankZones = (stats: ZoneEngagement[]) =>
+  [...stats].sort((a, b) => b.stops - a.stops || b.dwellMs - a.dwellMs || b.visits - a.visits);
+
+// Cyan (cold) -> amber -> red (hot) for a normalized 0..1 engagement score.
+export const engagementColor = (score: number) => {
+  if (score > 0.66) return '#ef4444';
+  if (score > 0.33) return '#f59e0b';
+  return '#06b6d4';
+};
@@ -0,0 +1,217 @@
+import { EntranceCounterConfig, EntranceCounts, Point, StoreConfig } from '../types';
+
+export const EMPTY_ENTRANCE_COUNTS: EntranceCounts = { entries: 0, exits: 0, quickExits: 0 };
+
+export interface CountingLine {
+  a: Point;
+  b: Point;
+  inward: 1 | -1; // sign of the cross product on the store's side of a→b
+}
+
+export type Crossing = 'in' | 'out';
+
+const cross = (a: Point, b: Point, p: Point) => (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+
+/** The entrance as drawn on the plan; the interior is the side the plan's centre is on. */
+export const entranceLine = (store: StoreConfig, halfWidthPx: number): CountingLine => {
+  const a = { x: store.entrance.x - halfWidthPx, y: store.entrance.y };
+  const b = { x: store.entrance.x + halfWidthPx, y: store.entrance.y };
+  return { a, b, inward: cross(a, b, { x: store.width / 2, y: store.height / 2 }) >= 0 ? 1 : -1 };
+};
+
+interface LineTrack {
+  side: 1 | -1; // 1 = inside the store
+  anchor: Point; // last position clearly on `side`
+  last: Point;
+  inAt: number | null; // when this track last crossed in
+}
+
+/**
+ * Counts entries and exits from track positions crossing the entrance line.
+ * A small band around the line absorbs jitter. People often appear or are
+ * lost right at the door, out of the cameras' view, so a track that starts
+ * or ends within `doorZonePx` inside the line counts as having crossed it.
+ */
+export class EntranceCounter {
+  private tracks = new Map<string, LineTrack>();
+  private counts: EntranceCounts;
+
+  /** `counts` carries on from totals counted elsewhere, e.g. earlier in the day. */
+  constructor(private line: CountingLine, private config: EntranceCounterConfig, counts = EMPTY_ENTRANCE_COUNTS) {
+    this.counts = { ...counts };
+  }
+
+  setLine(line: CountingLine) {
+    this.line = line;
+  }
+
+  setConfig(config: EntranceCounterConfig) {
+    this.config = config;
+  }
+
+  /** Feeds one position of a track; returns the crossing it completed, if any. */
+  observe(id: string, pos: Point, now: number): Crossing | null {
+    const depth = this.depth(pos);
+    const track = this.tracks.get(id);
+
+    if (!track) {
+      const side = depth >= 0 ? 1 : -1;
+      const atDoor = side === 1 && depth <= this.config.doorZonePx && this.withinLine(pos);
+      this.tracks.set(id, { side, anchor: pos, last: pos, inAt: atDoor ? now : null });
+      if (!atDoor) return null;
+      this.counts.entries++;
+      return 'in';
+    }
+
+    track.last = pos;
+    if (Math.abs(depth) < this.config.hysteresisPx) return null;
+    const side = depth > 0 ? 1 : -1;
+    if (side === track.side) {
+      track.anchor = pos;
+      return null;
+    }
+
+    // Walking round the end of the line changes side without passing through the door.
+    const from = track.anchor;
+    track.side = side;
+    track.anchor = pos;
+    const d0 = this.depth(from);
+    const f = d0 / (d0 - depth);
+    if (!this.withinLine({ x: from.x + (pos.x - from.x) * f, y: from.y + (pos.y - from.y) * f })) return null;
+
+    if (side === 1) {
+      track.inAt = now;
+      this.counts.entries++;
+      return 'in';
+    }
+    this.countExit(track, now);
+    return 'out';
+  }
+
+  /** The track is gone; `lastSeen` is when it was last observed. */
+  vanish(id: string, lastSeen: number): Crossing | null {
+    const track = this.tracks.get(id);
+    this.tracks.delete(id);
+    if (!track || track.side !== 1) return null;
+    const depth = this.depth(track.last);
+    if (depth > this.config.doorZonePx || !this.withinLine(track.last)) return null;
+    this.countExit(track, lastSeen);
+    return 'out';
+  }
+
+  totals(): EntranceCounts {
+    return { ...this.counts };
+  }
+
+  private countExit(track: LineTrack, now: number) {
+    this.counts.exits++;
+    if (track.inAt !== null && now - track.inAt < this.config.quickExitMs) this.counts.quickExits++;
+    track.inAt = null;
+  }
+
+  // Signed distance from the line, positive inside the store.
+  private depth(p: Point) {
+    const { a, b, inward } = this.line;
+    return (inward * cross(a, b, p)) / Math.hypot(b.x - a.x, b.y - a.y);
+  }
+
+  private withinLine(p: Point) {
+    const { a, b } = this.line;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy);
+    return t >= 0 && t <= 1;
+  }
+}
+
+interface DeviceCounter {
+  entries: number;
+  shortDwells: number;
+  carriedEntries: number;
+  carriedShortDwells: number;
+}
+
+export type CounterReadings = Record<string, { entries: number; shortDwells: number }>;
+
+/** Where a day's device counting stands, in plain JSON. */
+export interface BackendDayState {
+  baselines: CounterReadings;
+  devices: Record<string, DeviceCounter>;
+}
+
+/**
+ * Sums the devices' cumulative `entry_number` / `short_dwell_number`. A counter
+ * that goes down was reset on the device (e.g. a restart); what it had counted
+ * before is carried over instead of being lost. After startDay() the totals
+ * count from the readings the day started with rather than from device boot.
+ */
+export class BackendCounters {
+  private devices = new Map<string, DeviceCounter>();
+  private baselines: CounterReadings | null = null;
+
+  observe(deviceId: string, entries: number, shortDwells: number) {
+    const prev = this.devices.get(deviceId);
+    if (!prev) {
+      let base = { entries: 0, shortDwells: 0 };
+      if (this.baselines) {
+        // A device first seen today counts from here; one reading below its
+        // baseline restarted since, so everything it has counted is today's.
+        const saved = this.baselines[deviceId] ?? { entries, shortDwells };
+        if (entries >= saved.entries && shortDwells >= saved.shortDwells) base = saved;
+        this.baselines[deviceId] = base;
+      }
+      this.devices.set(deviceId, { entries, shortDwells, carriedEntries: -base.entries, carriedShortDwells: -base.shortDwells });
+      return;
+    }
+    if (entries < prev.entries) prev.carriedEntries += prev.entries;
+    if (shortDwells < prev.shortDwells) prev.carriedShortDwells += prev.shortDwells;
+    prev.entries = entries;
+    prev.shortDwells = shortDwells;
+  }
+
+  /**
+   * Starts a business day: the totals drop to zero at the devices' current
+   * readings, or at `baselines` when resuming a day that started earlier.
+   */
+  startDay(baselines?: CounterReadings) {
+    if (baselines) {
+      this.baselines = { ...baselines };
+      this.devices.clear();
+      return;
+    }
+    this.baselines = {};
+    this.devices.forEach((d, id) => {
+      this.baselines![id] = { entries: d.entries, shortDwells: d.shortDwells };
+      d.carriedEntries = -d.entries;
+      d.carriedShortDwells = -d.shortDwells;
+    });
+  }
+
+  /** Today's baselines and the readings seen so far, for resuming the day elsewhere or after a reload. */
+  dayState(): BackendDayState {
+    const devices: Record<string, DeviceCounter> = {};
+    this.devices.forEach((d, id) => (devices[id] = { ...d }));
+    return { baselines: { ...this.baselines }, devices };
+  }
+
+  /** Carries on with a day from dayState(); the totals stand until the devices report again. */
+  resumeDay(state: BackendDayState) {
+    this.startDay(state.baselines);
+    Object.entries(state.devices).forEach(([id, d]) => this.devices.set(id, { ...d }));
+  }
+
+  totals() {
+    let entries = 0;
+    let quickExits = 0;
+    this.devices.forEach(d => {
+      entries += d.carriedEntries + d.entries;
+      quickExits += d.carriedShortDwells + d.shortDwells;
+    });
+    return { entries, quickExits };
+  }
+
+  clear() {
+    this.devices.clear();
+    this.baselines = null;
+  }
+}
@@ -0,0 +1,169 @@
+import { PlanData, WebSocketMessage, WebSocketResponse } from '../types';
+
+// Frames that cannot be used at all.
+export type RejectReason =
+  | 'invalid_json'
+  | 'not_an_object'
+  | 'unsupported_type'
+  | 'missing_device_id'
+  | 'missing_data'
+  | 'missing_plan_data';
+
+// Problems we can fix up in place; the frame is still processed.
+export type RepairReason =
+  | 'track_dropped_no_id'
+  | 'track_dropped_no_position'
+  | 'track_duplicate_id'
+  | 'track_id_coerced'
+  | 'position_discarded'
+  | 'orientation_defaulted'
+  | 'bbox_discarded'
+  | 'demographics_defaulted'
+  | 'counters_defaulted'
+  | 'video_image_discarded'
+  | 'area_defaulted';
+
+export type ValidationResult =
+  | { ok: true; message: WebSocketMessage; repairs: RepairReason[] }
+  | { ok: false; reason: RejectReason; detail: string; deviceId?: string };
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const finiteTuple = (v: unknown, len: number): v is number[] =>
+  Array.isArray(v) && v.length >= len && v.slice(0, len).every(n => typeof n === 'number' && Number.isFinite(n));
+
+const validateTrack = (raw: unknown, repairs: Set<RepairReason>): PlanData | null => {
+  if (!isObject(raw)) {
+    repairs.add('track_dropped_no_id');
+    return null;
+  }
+
+  let trackId = raw.track_id;
+  if (typeof trackId === 'number' && Number.isFinite(trackId)) {
+    trackId = String(trackId);
+    repairs.add('track_id_coerced');
+  }
+  if (typeof trackId !== 'string' || trackId === '') {
+    repairs.add('track_dropped_no_id');
+    return null;
+  }
+
+  const hasPosition = finiteTuple(raw.position, 2);
+  const hasBbox = finiteTuple(raw.bbox, 4);
+  // A bbox alone is still usable once the camera is calibrated.
+  if (!hasPosition && !hasBbox) {
+    repairs.add('track_dropped_no_position');
+    return null;
+  }
+  if (!hasPosition) repairs.add('position_discarded');
+  if (raw.bbox !== undefined && !hasBbox) repairs.add('bbox_discarded');
+
+  let orientation = raw.orientation;
+  if (!finiteTuple(orientation, 2) || (orientation[0] === 0 && orientation[1] === 0)) {
+    orientation = [1, 0];
+    repairs.add('orientation_defaulted');
+  }
+
+  let gender = raw.gender;
+  let age = raw.age;
+  if (typeof gender !== 'string') {
+    gender = 'unknown';
+    repairs.add('demographics_defaulted');
+  }
+  if (typeof age === 'number') age = String(age);
+  if (typeof age !== 'string') {
+    age = 'unknown';
+    repairs.add('demographics_defaulted');
+  }
+
+  return {
+    track_id: trackId,
+    position: hasPosition ? (raw.position as number[]).slice(0, 2) : [],
+    orientation: (orientation as number[]).slice(0, 2),
+    bbox: hasBbox ? (raw.bbox as number[]).slice(0, 4) : [],
+    gender: gender as string,
+    age: age as string,
+  };
+};
+
+/**
+ * Parses and checks one websocket payload against WebSocketMessage /
+ * WebSocketResponse / PlanData. Anything we can safely fix is repaired and
+ * tagged; anything that would make the scene wrong is rejected with a reason.
+ */
+export const validateFrame = (raw: string): ValidationResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    return { ok: false, reason: 'invalid_json', detail: (e as Error).message };
+  }
+
+  if (!isObject(parsed)) return { ok: false, reason: 'not_an_object', detail: `got ${Array.isArray(parsed) ? 'array' : typeof parsed}` };
+  const deviceId = typeof parsed.deviceId === 'string' ? parsed.deviceId : undefined;
+  if (parsed.type !== 'device_data') {
+    return { ok: false, reason: 'unsupported_type', detail: `type ${JSON.stringify(parsed.type)}`, deviceId };
+  }
+  if (!deviceId) return { ok: false, reason: 'missing_device_id', detail: 'deviceId must be a non-empty string' };
+
+  const data = parsed.data;
+  if (!isObject(data)) return { ok: false, reason: 'missing_data', detail: 'data must be an object', deviceId };
+  // Without plan_data we can't tell who is in the room; treating it as empty would fake everyone's exit.
+  if (!Array.isArray(data.plan_data)) {
+    return { ok: false, reason: 'missing_plan_data', detail: 'data.plan_data must be an array', deviceId };
+  }
+
+  const repairs = new Set<RepairReason>();
+  const seen = new Set<string>();
+  const plan_data: PlanData[] = [];
+  data.plan_data.forEach(t => {
+    const track = validateTrack(t, repairs);
+    if (!track) return;
+    if (seen.has(track.track_id)) {
+      repairs.add('track_duplicate_id');
+      return;
+    }
+    seen.add(track.track_id);
+    plan_data.push(track);
+  });
+
+  const counter = (v: unknown) => {
+    if (typeof v === 'number' && Number.isFinite(v) && v >= 0) return v;
+    repairs.add('counters_defaulted');
+    return 0;
+  };
+
+  let video_image: WebSocketResponse['video_image'] = [];
+  if (Array.isArray(data.video_image)) {
+    video_image = data.video_image.filter(isObject) as Record<string, string>[];
+    if (video_image.length !== data.video_image.length) repairs.add('video_image_discarded');
+  } else if (data.video_image !== undefined) {
+    repairs.add('video_image_discarded');
+  }
+
+  let area = data.area;
+  if (typeof area !== 'string') {
+    area = '';
+    if (data.area !== undefined) repairs.add('area_defaulted');
+  }
+
+  const sentAt = typeof parsed.sentAt === 'number' && Number.isFinite(parsed.sentAt) ? parsed.sentAt : undefined;
+
+  return {
+    ok: true,
+    repairs: [...repairs],
+    message: {
+      type: 'device_data',
+      deviceId,
+      sentAt,
+      data: {
+        area: area as string,
+        entry_number: counter(data.entry_number),
+        short_dwell_number: counter(data.short_dwell_number),
+        video_image,
+        plan_data,
+      },
+    },
+  };
+};
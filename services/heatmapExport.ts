@@ -0,0 +1,70 @@
+import { StoreConfig } from '../types';
+import { HeatScale, heatColor, heatOpacity } from './heatmapStore';
+
+export const heatmapToCsv = (grid: Float32Array, cols: number) => {
+  const lines = ['cell_x,cell_y,intensity'];
+  for (let i = 0; i < grid.length; i++) {
+    lines.push(`${i % cols},${Math.floor(i / cols)},${grid[i].toFixed(3)}`);
+  }
+  return lines.join('\n');
+};
+
+/** Renders the heatmap under a plain outline of the floor plan and returns it as a PNG. */
+export const heatmapToPng = (
+  grid: Float32Array,
+  cols: number,
+  cellSize: number,
+  store: StoreConfig,
+  scale: HeatScale
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = store.width;
+  canvas.height = store.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas 2D context unavailable'));
+
+  ctx.fillStyle = '#020205';
+  ctx.fillRect(0, 0, store.width, store.height);
+
+  for (let i = 0; i < grid.length; i++) {
+    const v = grid[i];
+    if (v < 0.01) continue;
+    ctx.globalAlpha = heatOpacity(v, scale);
+    ctx.fillStyle = heatColor(v, scale);
+    ctx.fillRect((i % cols) * cellSize, Math.floor(i / cols) * cellSize, cellSize, cellSize);
+  }
+  ctx.globalAlpha = 1;
+
+  ctx.strokeStyle = '#06b6d4';
+  ctx.lineWidth = 2.5;
+  ctx.strokeRect(2, 2, store.width - 4, store.height - 4);
+
+  ctx.lineWidth = 1.2;
+  ctx.font = 'bold 9px monospace';
+  ctx.textAlign = 'center';
+  store.racks.forEach(r => {
+    ctx.strokeStyle = '#06b6d4';
+    ctx.strokeRect(r.pos.x - r.w / 2, r.pos.y - r.h / 2, r.w, r.h);
+    ctx.fillStyle = '#06b6d4';
+    ctx.fillText(r.label, r.pos.x, r.pos.y + 3);
+  });
+
+  ctx.lineWidth = 1.5;
+  store.islands.forEach(isl => {
+    ctx.strokeStyle = '#10b981';
+    ctx.strokeRect(isl.rect.x, isl.rect.y, isl.rect.w, isl.rect.h);
+    ctx.fillStyle = '#10b981';
+    ctx.fillText(isl.label, isl.rect.x + isl.rect.w / 2, isl.rect.y + isl.rect.h + 15);
+  });
+
+  ctx.strokeStyle = '#06b6d4';
+  ctx.lineWidth = 8;
+  ctx.beginPath();
+  ctx.moveTo(store.entrance.x - 70, store.entrance.y);
+  ctx.lineTo(store.entrance.x + 70, store.entrance.y);
+  ctx.stroke();
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+  );
+};
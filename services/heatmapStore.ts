@@ -0,0 +1,153 @@
+import { idbDelete, idbGet, idbPut } from './db';
+import { zonedDayKey, zonedHour } from './businessDay';
+
+export type HeatmapView = 'last5m' | 'last15m' | 'hourly' | 'today';
+
+export const HEATMAP_VIEWS: { id: HeatmapView; label: string }[] = [
+  { id: 'last5m', label: '5 MIN' },
+  { id: 'last15m', label: '15 MIN' },
+  { id: 'hourly', label: 'HOUR' },
+  { id: 'today', label: 'TODAY' },
+];
+
+// Decay time constants: after one window length a deposit has faded to ~5%.
+const TAU_5M_MS = (5 * 60 * 1000) / 3;
+const TAU_15M_MS = (15 * 60 * 1000) / 3;
+
+interface HeatmapRecord {
+  key: string;
+  storeId: string;
+  day: string;
+  cols: number;
+  rows: number;
+  today: Float32Array;
+  hourly: Float32Array[];
+  savedAt: number;
+}
+
+const recordKey = (storeId: string, day: string) => `${storeId}|${day}`;
+
+/**
+ * All heatmap views for one store. Cell values are person-seconds spent in the
+ * cell; the 5/15 minute views decay exponentially, the hourly and daily ones
+ * only accumulate and are persisted per store and day.
+ */
+export class HeatmapLayers {
+  readonly size: number;
+  day: string;
+  private decay5: Float32Array;
+  private decay15: Float32Array;
+  private today: Float32Array;
+  private hourly: Float32Array[];
+  // Nothing is written until the stored day has been merged in, so a fresh
+  // instance can never overwrite saved data with an empty grid.
+  private restored = false;
+
+  /**
+   * `day` is the store's business day (see businessDayOf); the calendar day when
+   * omitted. Hourly grids follow the wall clock in the store's `timeZone`.
+   */
+  constructor(readonly storeId: string, readonly cols: number, readonly rows: number, readonly persistent: boolean, readonly timeZone: string, day = zonedDayKey(Date.now(), timeZone)) {
+    this.size = cols * rows;
+    this.day = day;
+    this.decay5 = new Float32Array(this.size);
+    this.decay15 = new Float32Array(this.size);
+    this.today = new Float32Array(this.size);
+    this.hourly = Array.from({ length: 24 }, () => new Float32Array(this.size));
+  }
+
+  deposit(idx: number, seconds: number, now = Date.now()) {
+    if (idx < 0 || idx >= this.size) return;
+    this.decay5[idx] += seconds;
+    this.decay15[idx] += seconds;
+    this.today[idx] += seconds;
+    this.hourly[zonedHour(now, this.timeZone)][idx] += seconds;
+  }
+
+  decay(dtMs: number) {
+    const k5 = Math.exp(-dtMs / TAU_5M_MS);
+    const k15 = Math.exp(-dtMs / TAU_15M_MS);
+    for (let i = 0; i < this.size; i++) {
+      this.decay5[i] *= k5;
+      this.decay15[i] *= k15;
+    }
+  }
+
+  view(view: HeatmapView, hour = zonedHour(Date.now(), this.timeZone)): Float32Array {
+    switch (view) {
+      case 'last5m': return this.decay5;
+      case 'last15m': return this.decay15;
+      case 'hourly': return this.hourly[hour];
+      case 'today': return this.today;
+    }
+  }
+
+  /** Flushes the finished day and starts `day`; returns the save, or null if the day hasn't changed. */
+  rollover(day: string): Promise<void> | null {
+    if (day === this.day) return null;
+    // save() captures the current grids synchronously, before they are replaced below.
+    const saved = this.save();
+    this.day = day;
+    this.today = new Float32Array(this.size);
+    this.hourly = Array.from({ length: 24 }, () => new Float32Array(this.size));
+    return saved;
+  }
+
+  save(): Promise<void> {
+    if (!this.persistent || !this.restored) return Promise.resolve();
+    const record: HeatmapRecord = {
+      key: recordKey(this.storeId, this.day),
+      storeId: this.storeId,
+      day: this.day,
+      cols: this.cols,
+      rows: this.rows,
+      today: this.today,
+      hourly: this.hourly,
+      savedAt: Date.now(),
+    };
+    return idbPut('heatmaps', record).then(() => undefined);
+  }
+
+  /** Adds the stored grids for the current day, so deposits made while loading aren't lost. */
+  async restore() {
+    if (!this.persistent) return;
+    const record = await idbGet<HeatmapRecord>('heatmaps', recordKey(this.storeId, this.day));
+    // A layout resize changes the grid; an old-sized grid can't be mapped onto it.
+    if (record && record.day === this.day && record.cols === this.cols && record.rows === this.rows) {
+      for (let i = 0; i < this.size; i++) this.today[i] += record.today[i];
+      record.hourly.forEach((grid, h) => {
+        for (let i = 0; i < this.size; i++) this.hourly[h][i] += grid[i];
+      });
+    }
+    this.restored = true;
+  }
+}
+
+/** Deletes the store's saved heatmaps of business days before `cutoffDay`. */
+export const pruneHeatmaps = (storeId: string, cutoffDay: string) =>
+  idbDelete('heatmaps', IDBKeyRange.bound(recordKey(storeId, ''), recordKey(storeId, cutoffDay), false, true));
+
+export interface HeatScale {
+  max: number;
+  mid: number; // cyan -> amber
+  high: number; // amber -> red
+}
+
+/**
+ * Colour thresholds from the data itself: the 95th percentile of non-empty
+ * cells is "hot", so a single hotspot doesn't wash the rest of the map out.
+ */
+export const autoHeatScale = (grid: Float32Array): HeatScale => {
+  const values: number[] = [];
+  for (let i = 0; i < grid.length; i++) if (grid[i] > 0.01) values.push(grid[i]);
+  if (values.length === 0) return { max: 1, mid: 0.4, high: 0.75 };
+  values.sort((a, b) => a - b);
+  const p95 = values[Math.min(values.length - 1, Math.floor(values.length * 0.95))];
+  const max = Math.max(p95, 0.5);
+  return { max, mid: max * 0.4, high: max * 0.75 };
+};
+
+export const heatColor = (v: number, scale: HeatScale) =>
+  v > scale.high ? '#ef4444' : v > scale.mid ? '#f59e0b' : '#06b6d4';
+
+export const heatOpacity = (v: number, scale: HeatScale) => Math.min(v / scale.max, 0.9);
@@ -0,0 +1,131 @@
+import { CameraCalibration, PlanData, Point } from '../types';
+
+/** 3x3 projective transform, row-major, normalised so h[8] === 1. */
+export type Homography = number[];
+
+export const MIN_CALIBRATION_POINTS = 4;
+
+const mul3 = (a: number[], b: number[]) => {
+  const out = new Array(9).fill(0);
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      for (let k = 0; k < 3; k++) out[r * 3 + c] += a[r * 3 + k] * b[k * 3 + c];
+    }
+  }
+  return out;
+};
+
+// Hartley normalisation: centroid at the origin, mean distance sqrt(2).
+const normaliser = (pts: Point[]) => {
+  const cx = pts.reduce((s, p) => s + p.x, 0) / pts.length;
+  const cy = pts.reduce((s, p) => s + p.y, 0) / pts.length;
+  const meanDist = pts.reduce((s, p) => s + Math.hypot(p.x - cx, p.y - cy), 0) / pts.length || 1;
+  const k = Math.SQRT2 / meanDist;
+  return {
+    T: [k, 0, -k * cx, 0, k, -k * cy, 0, 0, 1],
+    Tinv: [1 / k, 0, cx, 0, 1 / k, cy, 0, 0, 1],
+    apply: (p: Point) => ({ x: k * (p.x - cx), y: k * (p.y - cy) }),
+  };
+};
+
+// Gaussian elimination with partial pivoting; returns null for singular systems.
+const solve = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    if (Math.abs(M[pivot][col]) < 1e-12) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+  return M.map((row, i) => row[n] / row[i]);
+};
+
+/**
+ * Least-squares DLT estimate of the homography mapping `src` onto `dst`
+ * (h33 fixed to 1). Needs at least four pairs, no three of them collinear.
+ */
+export const computeHomography = (src: Point[], dst: Point[]): Homography | null => {
+  if (src.length !== dst.length || src.length < MIN_CALIBRATION_POINTS) return null;
+
+  const ns = normaliser(src);
+  const nd = normaliser(dst);
+  const ata = Array.from({ length: 8 }, () => new Array(8).fill(0));
+  const atb = new Array(8).fill(0);
+
+  src.forEach((sp, i) => {
+    const s = ns.apply(sp);
+    const d = nd.apply(dst[i]);
+    const rows: [number[], number][] = [
+      [[s.x, s.y, 1, 0, 0, 0, -d.x * s.x, -d.x * s.y], d.x],
+      [[0, 0, 0, s.x, s.y, 1, -d.y * s.x, -d.y * s.y], d.y],
+    ];
+    rows.forEach(([row, rhs]) => {
+      for (let r = 0; r < 8; r++) {
+        atb[r] += row[r] * rhs;
+        for (let c = 0; c < 8; c++) ata[r][c] += row[r] * row[c];
+      }
+    });
+  });
+
+  const h = solve(ata, atb);
+  if (!h) return null;
+
+  const H = mul3(nd.Tinv, mul3([...h, 1], ns.T));
+  if (Math.abs(H[8]) < 1e-12) return null;
+  return H.map(v => v / H[8]);
+};
+
+export const applyHomography = (H: Homography, p: Point): Point => {
+  const w = H[6] * p.x + H[7] * p.y + H[8];
+  return {
+    x: (H[0] * p.x + H[1] * p.y + H[2]) / w,
+    y: (H[3] * p.x + H[4] * p.y + H[5]) / w,
+  };
+};
+
+/** Per-pair distance (plan px) between the projected image point and its plan point. */
+export const reprojectionErrors = (H: Homography, src: Point[], dst: Point[]) =>
+  src.map((p, i) => {
+    const q = applyHomography(H, p);
+    return Math.hypot(q.x - dst[i].x, q.y - dst[i].y);
+  });
+
+export const rmsError = (errors: number[]) =>
+  errors.length === 0 ? 0 : Math.sqrt(errors.reduce((s, e) => s + e * e, 0) / errors.length);
+
+export const calibrationQuality = (rms: number) => (rms < 10 ? 'GOOD' : rms < 25 ? 'FAIR' : 'POOR');
+
+const isFiniteTuple = (v: unknown, len: number): v is number[] =>
+  Array.isArray(v) && v.length >= len && v.slice(0, len).every(n => typeof n === 'number' && Number.isFinite(n));
+
+// Bottom-centre of an [x1, y1, x2, y2] box: where the person touches the floor.
+export const bboxFootPoint = (bbox: number[]): Point => ({ x: (bbox[0] + bbox[2]) / 2, y: Math.max(bbox[1], bbox[3]) });
+
+const projectRaw = (p: PlanData, calibration?: CameraCalibration): Point | null => {
+  const hasPosition = isFiniteTuple(p.position, 2);
+  if (!calibration) return hasPosition ? { x: p.position[0], y: p.position[1] } : null;
+
+  if (calibration.source === 'bbox' && isFiniteTuple(p.bbox, 4)) {
+    return applyHomography(calibration.homography, bboxFootPoint(p.bbox));
+  }
+  if (hasPosition) return applyHomography(calibration.homography, { x: p.position[0], y: p.position[1] });
+  if (isFiniteTuple(p.bbox, 4)) return applyHomography(calibration.homography, bboxFootPoint(p.bbox));
+  return null;
+};
+
+/**
+ * Resolves a track's floor-plan position. Uncalibrated devices are trusted to
+ * send plan coordinates already; calibrated ones are projected from the bbox
+ * foot point (or the raw position, depending on the calibration's source).
+ */
+export const projectTrack = (p: PlanData, calibration?: CameraCalibration): Point | null => {
+  const pos = projectRaw(p, calibration);
+  // A degenerate homography can send points to infinity; never let that reach the heatmap.
+  return pos && Number.isFinite(pos.x) && Number.isFinite(pos.y) ? pos : null;
+};
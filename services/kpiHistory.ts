@@ -0,0 +1,152 @@
+import { KpiBucket, KpiResolution } from '../types';
+import { idbDelete, idbGet, idbGetAll, idbPut } from './db';
+import { startOfLocalHour, startOfMinute } from './time';
+
+export type KpiMetric = 'entries' | 'quickExits' | 'occupancy' | 'avgDwell' | 'femaleShare';
+
+export const KPI_METRICS: { id: KpiMetric; label: string; unit: string }[] = [
+  { id: 'entries', label: 'Entries', unit: '' },
+  { id: 'quickExits', label: 'Quick Exits', unit: '' },
+  { id: 'occupancy', label: 'Avg Occupancy', unit: '' },
+  { id: 'avgDwell', label: 'Avg Dwell', unit: 's' },
+  { id: 'femaleShare', label: 'Female Share', unit: '%' },
+];
+
+const emptyBucket = (storeId: string, resolution: KpiResolution, start: number): KpiBucket => ({
+  storeId,
+  resolution,
+  start,
+  entries: 0,
+  quickExits: 0,
+  completedVisits: 0,
+  dwellTotalMs: 0,
+  samples: 0,
+  occupancySum: 0,
+  occupancyMax: 0,
+  femaleSum: 0,
+  maleSum: 0,
+});
+
+const mergeInto = (target: KpiBucket, b: KpiBucket): KpiBucket => ({
+  ...target,
+  entries: target.entries + b.entries,
+  quickExits: target.quickExits + b.quickExits,
+  completedVisits: target.completedVisits + b.completedVisits,
+  dwellTotalMs: target.dwellTotalMs + b.dwellTotalMs,
+  samples: target.samples + b.samples,
+  occupancySum: target.occupancySum + b.occupancySum,
+  occupancyMax: Math.max(target.occupancyMax, b.occupancyMax),
+  femaleSum: target.femaleSum + b.femaleSum,
+  maleSum: target.maleSum + b.maleSum,
+});
+
+/** Value of a metric for one bucket, or null when the bucket has nothing to say about it. */
+export const kpiValue = (b: KpiBucket, metric: KpiMetric): number | null => {
+  switch (metric) {
+    case 'entries': return b.entries;
+    case 'quickExits': return b.quickExits;
+    case 'occupancy': return b.samples > 0 ? b.occupancySum / b.samples : null;
+    case 'avgDwell': return b.completedVisits > 0 ? b.dwellTotalMs / b.completedVisits / 1000 : null;
+    case 'femaleShare': {
+      const total = b.femaleSum + b.maleSum;
+      return total > 0 ? (b.femaleSum / total) * 100 : null;
+    }
+  }
+};
+
+/**
+ * Accumulates one store's live KPIs into 1-minute buckets. Finished buckets
+ * are handed out through `takeFinished` and persisted with `saveKpiMinute`.
+ */
+export class KpiRecorder {
+  private bucket: KpiBucket | null = null;
+  private finished: KpiBucket[] = [];
+  private counters: { entries: number; quickExits: number } | null = null;
+
+  constructor(private storeId: string) {}
+
+  private current(now: number) {
+    const start = startOfMinute(now);
+    if (this.bucket && this.bucket.start !== start) {
+      this.finished.push(this.bucket);
+      this.bucket = null;
+    }
+    this.bucket ??= emptyBucket(this.storeId, 'minute', start);
+    return this.bucket;
+  }
+
+  /**
+   * Backend counters are cumulative; only their increase is recorded. The first
+   * reading is the baseline, and a counter going backwards means it was reset.
+   */
+  observeCounters(entries: number, quickExits: number, now = Date.now()) {
+    const b = this.current(now);
+    if (this.counters) {
+      b.entries += entries >= this.counters.entries ? entries - this.counters.entries : entries;
+      b.quickExits += quickExits >= this.counters.quickExits ? quickExits - this.counters.quickExits : quickExits;
+    }
+    this.counters = { entries, quickExits };
+  }
+
+  addVisit(dwellMs: number, now = Date.now()) {
+    const b = this.current(now);
+    b.completedVisits += 1;
+    b.dwellTotalMs += dwellMs;
+  }
+
+  sample(occupancy: number, female: number, male: number, now = Date.now()) {
+    const b = this.current(now);
+    b.samples += 1;
+    b.occupancySum += occupancy;
+    b.occupancyMax = Math.max(b.occupancyMax, occupancy);
+    b.femaleSum += female;
+    b.maleSum += male;
+  }
+
+  takeFinished(now = Date.now()) {
+    this.current(now);
+    const done = this.finished;
+    this.finished = [];
+    return done;
+  }
+
+  /** Hands out everything including the partial current minute, e.g. before switching stores. */
+  flush() {
+    const done = this.bucket ? [...this.finished, this.bucket] : this.finished;
+    this.bucket = null;
+    this.finished = [];
+    return done;
+  }
+}
+
+// Minute writes read-modify-write their minute and hour buckets, so they are serialised.
+let writeChain: Promise<void> = Promise.resolve();
+
+/**
+ * Adds a minute to what is stored for it: a minute can be handed out in more
+ * than one part, e.g. flushed on a store switch and finished after switching back.
+ */
+export const saveKpiMinute = (b: KpiBucket) => {
+  writeChain = writeChain
+    .then(async () => {
+      const minute = await idbGet<KpiBucket>('kpis', [b.storeId, 'minute', b.start]);
+      await idbPut('kpis', minute ? mergeInto(minute, b) : b);
+      const hourStart = startOfLocalHour(b.start);
+      const hour = await idbGet<KpiBucket>('kpis', [b.storeId, 'hour', hourStart]);
+      await idbPut('kpis', mergeInto(hour ?? emptyBucket(b.storeId, 'hour', hourStart), b));
+    })
+    .catch(e => console.error('Failed to save KPI bucket', e));
+  return writeChain;
+};
+
+/** Buckets with `from <= start < to`, oldest first. */
+export const loadKpiBuckets = (storeId: string, resolution: KpiResolution, from: number, to: number) =>
+  idbGetAll<KpiBucket>('kpis', IDBKeyRange.bound([storeId, resolution, from], [storeId, resolution, to], false, true));
+
+export const pruneKpis = (storeId: string, retention: { minuteRetentionDays: number; hourRetentionDays: number }, now = Date.now()) => {
+  const day = 24 * 60 * 60 * 1000;
+  return Promise.all([
+    idbDelete('kpis', IDBKeyRange.bound([storeId, 'minute', 0], [storeId, 'minute', now - retention.minuteRetentionDays * day])),
+    idbDelete('kpis', IDBKeyRange.bound([storeId, 'hour', 0], [storeId, 'hour', now - retention.hourRetentionDays * day])),
+  ]);
+};
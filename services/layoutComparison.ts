@@ -0,0 +1,121 @@
+import { DayArchive, DayTotals, Zone } from '../types';
+
+export interface DateRange {
+  from: string; // business day keys, both included
+  to: string;
+}
+
+export interface ZoneAverage {
+  key: string; // the zone id, which a rack keeps when it is moved or relabelled
+  label: string;
+  kind: Zone['kind'];
+  visits: number; // per archived day
+  dwellMs: number; // per archived day
+}
+
+export interface PeriodSummary {
+  days: number; // archived days in the range
+  totals: DayTotals; // summed over those days
+  quickExitRate: number | null; // quick exits / entries
+  avgDwellMs: number | null; // per completed visit
+  zones: ZoneAverage[];
+  zoneIds: string[]; // zones of the period's layout
+  cols: number; // the heatmap grid of the period's layout
+  rows: number;
+  heatmap: Float32Array | null; // person-seconds per cell, averaged over heatmapDays
+  heatmapDays: number;
+}
+
+export interface ZoneChange {
+  key: string;
+  label: string;
+  kind: Zone['kind'];
+  before: ZoneAverage | null; // null when the period has no archived days or no such zone
+  after: ZoneAverage | null;
+  status: 'added' | 'removed' | 'kept'; // between the two periods' layouts
+}
+
+/**
+ * Sums a range of archived days. Counts are compared per day, so ranges of
+ * different length (or with days missing) stay comparable. Only heatmaps on
+ * the period layout's grid are averaged; a day recorded with another plan
+ * size can't be mapped onto it. Every zone of the layout is listed, with no
+ * traffic if none was recorded.
+ */
+export const summarizePeriod = (archives: DayArchive[], layoutZones: Zone[], cols: number, rows: number): PeriodSummary => {
+  const totals: DayTotals = { totalCustomers: 0, quickExits: 0, totalDwellTimeMs: 0, completedVisits: 0 };
+  const zones = new Map<string, ZoneAverage>(layoutZones.map(z => [z.id, { key: z.id, label: z.label, kind: z.kind, visits: 0, dwellMs: 0 }]));
+  const heatmap = new Float32Array(cols * rows);
+  let heatmapDays = 0;
+
+  archives.forEach(a => {
+    totals.totalCustomers += a.totals.totalCustomers;
+    totals.quickExits += a.totals.quickExits;
+    totals.totalDwellTimeMs += a.totals.totalDwellTimeMs;
+    totals.completedVisits += a.totals.completedVisits;
+    a.zones.forEach(z => {
+      const zone = zones.get(z.zoneId) ?? { key: z.zoneId, label: z.label, kind: z.kind, visits: 0, dwellMs: 0 };
+      zone.visits += z.visits;
+      zone.dwellMs += z.dwellMs;
+      zones.set(z.zoneId, zone);
+    });
+    if (a.heatmap.cols === cols && a.heatmap.rows === rows) {
+      for (let i = 0; i < heatmap.length; i++) heatmap[i] += a.heatmap.grid[i];
+      heatmapDays++;
+    }
+  });
+
+  const days = archives.length;
+  if (days > 0) {
+    zones.forEach(z => {
+      z.visits /= days;
+      z.dwellMs /= days;
+    });
+  }
+  if (heatmapDays > 0) for (let i = 0; i < heatmap.length; i++) heatmap[i] /= heatmapDays;
+
+  return {
+    days,
+    totals,
+    quickExitRate: totals.totalCustomers > 0 ? totals.quickExits / totals.totalCustomers : null,
+    avgDwellMs: totals.completedVisits > 0 ? totals.totalDwellTimeMs / totals.completedVisits : null,
+    zones: [...zones.values()],
+    zoneIds: layoutZones.map(z => z.id),
+    cols,
+    rows,
+    heatmap: heatmapDays > 0 ? heatmap : null,
+    heatmapDays,
+  };
+};
+
+/**
+ * Every zone of either period, racks first, in the after period's order. A
+ * zone only in the after layout was added, one only in the before layout removed.
+ */
+export const zoneChanges = (before: PeriodSummary, after: PeriodSummary): ZoneChange[] => {
+  const keys = [...new Set([...after.zones.map(z => z.key), ...before.zones.map(z => z.key)])];
+  return keys
+    .map(key => {
+      const b = before.zones.find(z => z.key === key) ?? null;
+      const a = after.zones.find(z => z.key === key) ?? null;
+      const zone = (a ?? b)!;
+      const inBefore = before.zoneIds.includes(key);
+      const inAfter = after.zoneIds.includes(key);
+      const status: ZoneChange['status'] = inAfter && !inBefore ? 'added' : inBefore && !inAfter ? 'removed' : 'kept';
+      return {
+        key,
+        label: zone.label,
+        kind: zone.kind,
+        before: before.days > 0 ? b : null,
+        after: after.days > 0 ? a : null,
+        status,
+      };
+    })
+    .sort((x, y) => (x.kind === y.kind ? 0 : x.kind === 'rack' ? -1 : 1));
+};
+
+/** After minus before, per cell; null unless both periods have a heatmap on the same grid. */
+export const heatmapDifference = (before: PeriodSummary, after: PeriodSummary) => {
+  if (!before.heatmap || !after.heatmap || before.cols !== after.cols || before.rows !== after.rows) return null;
+  return after.heatmap.map((v, i) => v - before.heatmap![i]);
+};
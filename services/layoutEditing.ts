@@ -0,0 +1,133 @@
+import { StoreConfig } from '../types';
+
+export type LayoutSelection =
+  | { kind: 'rack'; index: number }
+  | { kind: 'island'; index: number }
+  | { kind: 'entrance' };
+
+export type DragMode = 'move' | 'resize';
+
+const SNAP = 5;
+const MIN_SIZE = 10;
+
+export const snap = (v: number) => Math.round(v / SNAP) * SNAP;
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+/**
+ * Applies a pointer drag of (dx, dy) plan pixels to the selected item of the
+ * layout as it was when the drag started. Racks are centre-anchored, islands
+ * are top-left anchored; resize always keeps the top-left corner fixed.
+ */
+export const applyDrag = (
+  base: StoreConfig,
+  sel: LayoutSelection,
+  mode: DragMode,
+  dx: number,
+  dy: number
+): StoreConfig => {
+  if (sel.kind === 'entrance') {
+    return {
+      ...base,
+      entrance: {
+        x: clamp(snap(base.entrance.x + dx), 0, base.width),
+        y: clamp(snap(base.entrance.y + dy), 0, base.height),
+      },
+    };
+  }
+
+  if (sel.kind === 'rack') {
+    const racks = base.racks.map((r, i) => {
+      if (i !== sel.index) return r;
+      if (mode === 'move') {
+        return { ...r, pos: { x: snap(r.pos.x + dx), y: snap(r.pos.y + dy) } };
+      }
+      const left = r.pos.x - r.w / 2;
+      const top = r.pos.y - r.h / 2;
+      const w = Math.max(MIN_SIZE, snap(r.w + dx));
+      const h = Math.max(MIN_SIZE, snap(r.h + dy));
+      return { ...r, w, h, pos: { x: left + w / 2, y: top + h / 2 } };
+    });
+    return { ...base, racks };
+  }
+
+  const islands = base.islands.map((isl, i) => {
+    if (i !== sel.index) return isl;
+    if (mode === 'move') {
+      const mx = snap(isl.rect.x + dx) - isl.rect.x;
+      const my = snap(isl.rect.y + dy) - isl.rect.y;
+      return {
+        ...isl,
+        rect: { ...isl.rect, x: isl.rect.x + mx, y: isl.rect.y + my },
+        grid: isl.grid.map(p => ({ x: p.x + mx, y: p.y + my })),
+      };
+    }
+    return {
+      ...isl,
+      rect: { ...isl.rect, w: Math.max(MIN_SIZE, snap(isl.rect.w + dx)), h: Math.max(MIN_SIZE, snap(isl.rect.h + dy)) },
+    };
+  });
+  return { ...base, islands };
+};
+
+// Time-based, so a new rack never takes over the id (and history) of one removed earlier.
+const newZoneId = (prefix: string) => `${prefix}-${Date.now().toString(36)}`;
+
+export const addRack = (store: StoreConfig): StoreConfig => ({
+  ...store,
+  racks: [...store.racks, { id: newZoneId('r'), pos: { x: snap(store.width / 2), y: snap(store.height / 2) }, w: 100, h: 60, label: 'NEW RACK' }],
+});
+
+export const addIsland = (store: StoreConfig): StoreConfig => {
+  const x = snap(store.width / 2 - 100);
+  const y = snap(store.height / 2 - 100);
+  return {
+    ...store,
+    islands: [...store.islands, { id: newZoneId('isl'), rect: { x, y, w: 200, h: 200 }, grid: [{ x: x + 100, y: y + 100 }], label: 'NEW ISLAND' }],
+  };
+};
+
+export const removeItem = (store: StoreConfig, sel: LayoutSelection): StoreConfig => {
+  if (sel.kind === 'rack') return { ...store, racks: store.racks.filter((_, i) => i !== sel.index) };
+  if (sel.kind === 'island') return { ...store, islands: store.islands.filter((_, i) => i !== sel.index) };
+  return store;
+};
+
+export const relabelItem = (store: StoreConfig, sel: LayoutSelection, label: string): StoreConfig => {
+  if (sel.kind === 'rack') {
+    return { ...store, racks: store.racks.map((r, i) => (i === sel.index ? { ...r, label } : r)) };
+  }
+  if (sel.kind === 'island') {
+    return { ...store, islands: store.islands.map((isl, i) => (i === sel.index ? { ...isl, label } : isl)) };
+  }
+  return store;
+};
+
+export const resizeItem = (store: StoreConfig, sel: LayoutSelection, w: number, h: number): StoreConfig => {
+  const size = { w: Math.max(MIN_SIZE, w), h: Math.max(MIN_SIZE, h) };
+  if (sel.kind === 'rack') {
+    return { ...store, racks: store.racks.map((r, i) => (i === sel.index ? { ...r, ...size } : r)) };
+  }
+  if (sel.kind === 'island') {
+    return { ...store, islands: store.islands.map((isl, i) => (i === sel.index ? { ...isl, rect: { ...isl.rect, ...size } } : isl)) };
+  }
+  return store;
+};
+
+export const itemLabel = (store: StoreConfig, sel: LayoutSelection) => {
+  if (sel.kind === 'rack') return store.racks[sel.index]?.label ?? '';
+  if (sel.kind === 'island') return store.islands[sel.index]?.label ?? '';
+  return 'ENTRANCE';
+};
+
+export const itemSize = (store: StoreConfig, sel: LayoutSelection) => {
+  if (sel.kind === 'rack') {
+    const r = store.racks[sel.index];
+    return r ? { w: r.w, h: r.h } : null;
+  }
+  if (sel.kind === 'island') {
+    const isl = store.islands[sel.index];
+    return isl ? { w: isl.rect.w, h: isl.rect.h } : null;
+  }
+  return null;
+};
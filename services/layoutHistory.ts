@@ -0,0 +1,33 @@
+import { LayoutFile, LayoutVersion } from '../types';
+import { idbGet, idbGetAll, idbPut } from './db';
+import { withZoneIds } from './layoutLoader';
+
+/**
+ * Keeps a layout revision with the business day it took effect, so past days
+ * can be drawn with the racks as they stood then. A revision whose file has
+ * no effectiveFrom keeps the day it was first recorded.
+ */
+export const recordLayout = async (layout: LayoutFile, today: string) => {
+  const { store, revision } = layout;
+  const existing = await idbGet<LayoutVersion>('layouts', [store.id, revision]);
+  const version: LayoutVersion = {
+    storeId: store.id,
+    revision,
+    effectiveFrom: layout.effectiveFrom ?? existing?.effectiveFrom ?? today,
+    store,
+    recordedAt: Date.now(),
+  };
+  await idbPut('layouts', version);
+};
+
+/** The store's recorded layouts in the order they took effect. */
+export const loadLayoutHistory = async (storeId: string) => {
+  const versions = await idbGetAll<LayoutVersion>('layouts', IDBKeyRange.bound([storeId, 0], [storeId, Infinity]));
+  // Revisions recorded before racks had ids.
+  versions.forEach(v => { v.store = withZoneIds(v.store); });
+  return versions.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom) || a.revision - b.revision);
+};
+
+/** The layout in effect on `day`; for days before the first recorded one, the earliest known layout. */
+export const layoutOn = (history: LayoutVersion[], day: string): LayoutVersion | undefined =>
+  history.filter(v => v.effectiveFrom <= day).pop() ?? history[0];
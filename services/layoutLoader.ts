@@ -0,0 +1,250 @@
+import { LayoutFile, StoreConfig } from '../types';
+import { isDayKey, isValidTimeZone, parseClockTime } from './businessDay';
+
+export const LAYOUT_SCHEMA_VERSION = 1;
+
+export class LayoutValidationError extends Error {
+  constructor(public source: string, public errors: string[]) {
+    super(`${source}: ${errors.length} layout error(s)\n  ${errors.join('\n  ')}`);
+    this.name = 'LayoutValidationError';
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+/**
+ * Checks a parsed layout file against LayoutFile/StoreConfig and collects every
+ * problem with its JSON path, so a broken file reports all issues at once.
+ */
+export const validateLayoutFile = (data: unknown): string[] => {
+  const errors: string[] = [];
+  const expectNumber = (v: unknown, path: string, positive = false) => {
+    if (!isNumber(v)) errors.push(`${path} must be a number`);
+    else if (positive && v <= 0) errors.push(`${path} must be greater than 0`);
+  };
+  const expectString = (v: unknown, path: string) => {
+    if (typeof v !== 'string' || v.trim() === '') errors.push(`${path} must be a non-empty string`);
+  };
+  // Ids left out are filled in positionally by withZoneIds(), so those count too.
+  const zoneIds = new Set<string>();
+  const expectZoneId = (v: unknown, path: string, fallback: string) => {
+    if (v === undefined) {
+      if (zoneIds.has(fallback)) errors.push(`${path} is missing and its default ${JSON.stringify(fallback)} is already used by another rack or island`);
+      zoneIds.add(fallback);
+    } else if (typeof v !== 'string' || v.trim() === '') errors.push(`${path} must be a non-empty string when present`);
+    else if (zoneIds.has(v)) errors.push(`${path} ${JSON.stringify(v)} is already used by another rack or island`);
+    else zoneIds.add(v);
+  };
+  const expectPoint = (v: unknown, path: string) => {
+    if (!isObject(v)) {
+      errors.push(`${path} must be an object with x and y`);
+      return;
+    }
+    expectNumber(v.x, `${path}.x`);
+    expectNumber(v.y, `${path}.y`);
+  };
+
+  if (!isObject(data)) return ['layout file must be a JSON object'];
+  if (data.schemaVersion !== LAYOUT_SCHEMA_VERSION) {
+    errors.push(`schemaVersion must be ${LAYOUT_SCHEMA_VERSION} (got ${JSON.stringify(data.schemaVersion)})`);
+  }
+  expectNumber(data.revision, 'revision', true);
+  if (data.effectiveFrom !== undefined && (typeof data.effectiveFrom !== 'string' || !isDayKey(data.effectiveFrom))) {
+    errors.push(`effectiveFrom must be a "YYYY-MM-DD" date when present (got ${JSON.stringify(data.effectiveFrom)})`);
+  }
+
+  const store = data.store;
+  if (!isObject(store)) return [...errors, 'store must be an object'];
+
+  expectString(store.id, 'store.id');
+  expectString(store.name, 'store.name');
+  expectNumber(store.width, 'store.width', true);
+  expectNumber(store.height, 'store.height', true);
+  expectPoint(store.entrance, 'store.entrance');
+
+  if (!Array.isArray(store.racks)) {
+    errors.push('store.racks must be an array');
+  } else {
+    store.racks.forEach((r, i) => {
+      const path = `store.racks[${i}]`;
+      if (!isObject(r)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      expectZoneId(r.id, `${path}.id`, `r-${i}`);
+      expectPoint(r.pos, `${path}.pos`);
+      expectNumber(r.w, `${path}.w`, true);
+      expectNumber(r.h, `${path}.h`, true);
+      expectString(r.label, `${path}.label`);
+    });
+  }
+
+  if (!Array.isArray(store.islands)) {
+    errors.push('store.islands must be an array');
+  } else {
+    store.islands.forEach((isl, i) => {
+      const path = `store.islands[${i}]`;
+      if (!isObject(isl)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      expectZoneId(isl.id, `${path}.id`, `isl-${i}`);
+      if (!isObject(isl.rect)) {
+        errors.push(`${path}.rect must be an object`);
+      } else {
+        expectNumber(isl.rect.x, `${path}.rect.x`);
+        expectNumber(isl.rect.y, `${path}.rect.y`);
+        expectNumber(isl.rect.w, `${path}.rect.w`, true);
+        expectNumber(isl.rect.h, `${path}.rect.h`, true);
+      }
+      if (!Array.isArray(isl.grid)) errors.push(`${path}.grid must be an array`);
+      else isl.grid.forEach((p, j) => expectPoint(p, `${path}.grid[${j}]`));
+      expectString(isl.label, `${path}.label`);
+    });
+  }
+
+  if (store.hotspots !== undefined && !Array.isArray(store.hotspots)) {
+    errors.push('store.hotspots must be an array when present');
+  }
+
+  if (store.timezone !== undefined && (typeof store.timezone !== 'string' || !isValidTimeZone(store.timezone))) {
+    errors.push(`store.timezone must be an IANA timezone such as "Asia/Bangkok" (got ${JSON.stringify(store.timezone)})`);
+  }
+  const hours = store.openingHours;
+  if (hours !== undefined && !isObject(hours)) {
+    errors.push('store.openingHours must be an object with open and close when present');
+  } else if (hours !== undefined) {
+    (['open', 'close'] as const).forEach(k => {
+      if (typeof hours[k] !== 'string' || parseClockTime(hours[k]) === null) errors.push(`store.openingHours.${k} must be a "HH:MM" time`);
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Gives racks and islands without an id (layouts written before ids existed)
+ * the positional id their zones had until then, so their history still matches.
+ */
+export const withZoneIds = (store: StoreConfig): StoreConfig => ({
+  ...store,
+  racks: store.racks.map((r, i) => (r.id ? r : { ...r, id: `r-${i}` })),
+  islands: store.islands.map((isl, i) => (isl.id ? isl : { ...isl, id: `isl-${i}` })),
+});
+
+export const parseLayoutFile = (data: unknown, source: string): LayoutFile => {
+  const errors = validateLayoutFile(data);
+  if (errors.length > 0) throw new LayoutValidationError(source, errors);
+  const layout = data as LayoutFile;
+  return { ...layout, store: withZoneIds({ ...layout.store, hotspots: layout.store.hotspots ?? [] }) };
+};
+
+export const parseLayoutJson = (text: string, source: string): LayoutFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new LayoutValidationError(source, [`invalid JSON: ${(e as Error).message}`]);
+  }
+  return parseLayoutFile(data, source);
+};
+
+// Pretty-prints with one rack/island per line so layout diffs stay readable.
+export const serializeLayout = (layout: LayoutFile) => {
+  const { store } = layout;
+  const rows = (items: unknown[]) =>
+    items.length === 0 ? '[]' : `[\n${items.map(i => `      ${JSON.stringify(i)}`).join(',\n')}\n    ]`;
+  return `{
+  "schemaVersion": ${layout.schemaVersion},
+  "revision": ${layout.revision},${layout.effectiveFrom ? `
+  "effectiveFrom": ${JSON.stringify(layout.effectiveFrom)},` : ''}
+  "store": {
+    "id": ${JSON.stringify(store.id)},
+    "name": ${JSON.stringify(store.name)},
+    "width": ${store.width},
+    "height": ${store.height},
+    "entrance": ${JSON.stringify(store.entrance)},
+    "racks": ${rows(store.racks)},
+    "islands": ${rows(store.islands)},
+    "hotspots": ${rows(store.hotspots)}${store.timezone ? `,
+    "timezone": ${JSON.stringify(store.timezone)}` : ''}${store.openingHours ? `,
+    "openingHours": ${JSON.stringify(store.openingHours)}` : ''}
+  }
+}
+`;
+};
+
+export interface BundledLayouts {
+  layouts: LayoutFile[];
+  errors: LayoutValidationError[];
+}
+
+// Layout files shipped in /layouts, bundled at build time by Vite.
+export const loadBundledLayouts = (): BundledLayouts => {
+  const modules = import.meta.glob('../layouts/*.json', { eager: true, import: 'default' });
+  const layouts: LayoutFile[] = [];
+  const errors: LayoutValidationError[] = [];
+
+  Object.entries(modules)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([path, data]) => {
+      try {
+        layouts.push(parseLayoutFile(data, path.replace('../', '')));
+      } catch (e) {
+        if (e instanceof LayoutValidationError) errors.push(e);
+        else throw e;
+      }
+    });
+
+  errors.forEach(e => console.error(e.message));
+  return { layouts, errors };
+};
+
+const SAVED_LAYOUTS_KEY = 'retail-twin.layouts';
+
+// Layouts edited in the app, persisted in localStorage until exported and committed.
+export const loadSavedLayouts = (): BundledLayouts => {
+  const layouts: LayoutFile[] = [];
+  const errors: LayoutValidationError[] = [];
+  let saved: unknown[] = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(SAVED_LAYOUTS_KEY) ?? '[]');
+  } catch {
+    errors.push(new LayoutValidationError('saved layouts', ['localStorage entry is not valid JSON']));
+  }
+
+  saved.forEach((data, i) => {
+    try {
+      layouts.push(parseLayoutFile(data, `saved layout #${i + 1}`));
+    } catch (e) {
+      if (e instanceof LayoutValidationError) errors.push(e);
+      else throw e;
+    }
+  });
+
+  errors.forEach(e => console.error(e.message));
+  return { layouts, errors };
+};
+
+export const saveLayouts = (layouts: LayoutFile[]) =>
+  localStorage.setItem(SAVED_LAYOUTS_KEY, JSON.stringify(layouts));
+
+export const clearSavedLayout = (storeId: string) => {
+  const { layouts } = loadSavedLayouts();
+  saveLayouts(layouts.filter(l => l.store.id !== storeId));
+};
+
+// Saved edits win over the bundled file unless a newer revision has shipped since.
+export const mergeLayouts = (bundled: LayoutFile[], saved: LayoutFile[]): LayoutFile[] => {
+  const merged = bundled.map(b => {
+    const local = saved.find(s => s.store.id === b.store.id);
+    return local && local.revision >= b.revision ? local : b;
+  });
+  saved.forEach(s => {
+    if (!merged.some(m => m.store.id === s.store.id)) merged.push(s);
+  });
+  return merged;
+};
@@ -0,0 +1,334 @@
+import { AgentState, Customer, TrajectoryPoint, Zone, ZoneAttention } from '../types';
+import { Gaze } from './attention';
+import { genderLetter } from './demographics';
+import { HeatScale, heatColor, heatOpacity } from './heatmapStore';
+
+// The SVG heatmap used to sit in a group with opacity 0.6; keep the same look.
+const HEATMAP_ALPHA = 0.6;
+const CONE_LENGTH = 90;
+const CONE_HALF_ANGLE = (35 * Math.PI) / 180;
+// Opacity of everyone else while one agent is being inspected.
+const DIMMED_ALPHA = 0.2;
+
+const hexToRgb = (hex: string) => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+/**
+ * Prepares a plan-sized canvas for a new frame: matches its backing store to
+ * the on-screen size, clears it and maps plan coordinates onto it.
+ */
+export const beginPlanFrame = (canvas: HTMLCanvasElement, planWidth: number, planHeight: number) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const dpr = window.devicePixelRatio || 1;
+  const w = Math.max(1, Math.round(canvas.clientWidth * dpr));
+  const h = Math.max(1, Math.round(canvas.clientHeight * dpr));
+  if (canvas.width !== w || canvas.height !== h) {
+    canvas.width = w;
+    canvas.height = h;
+  }
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, w, h);
+  ctx.setTransform(w / planWidth, 0, 0, h / planHeight, 0, 0);
+  return ctx;
+};
+
+/** Paints one pixel per heatmap cell; the result is scaled up with smoothing off when drawn. */
+export const paintHeatmap = (target: HTMLCanvasElement, grid: Float32Array, cols: number, rows: number, scale: HeatScale) => {
+  if (target.width !== cols || target.height !== rows) {
+    target.width = cols;
+    target.height = rows;
+  }
+  const ctx = target.getContext('2d');
+  if (!ctx) return;
+  const image = ctx.createImageData(cols, rows);
+  const min = scale.max * 0.02;
+  for (let i = 0; i < grid.length && i < cols * rows; i++) {
+    const v = grid[i];
+    if (!(v > min)) continue;
+    const [r, g, b] = hexToRgb(heatColor(v, scale));
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    image.data[i * 4 + 3] = Math.round(heatOpacity(v, scale) * HEATMAP_ALPHA * 255);
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/** paintHeatmap for a signed difference: orange where there was more traffic, cyan where there was less. */
+export const paintHeatmapDifference = (target: HTMLCanvasElement, diff: Float32Array, cols: number, rows: number, maxAbs: number) => {
+  if (target.width !== cols || target.height !== rows) {
+    target.width = cols;
+    target.height = rows;
+  }
+  const ctx = target.getContext('2d');
+  if (!ctx) return;
+  const image = ctx.createImageData(cols, rows);
+  const more = hexToRgb('#f97316');
+  const less = hexToRgb('#06b6d4');
+  for (let i = 0; i < diff.length && i < cols * rows; i++) {
+    const v = diff[i];
+    if (!(Math.abs(v) > maxAbs * 0.02)) continue;
+    const [r, g, b] = v > 0 ? more : less;
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    image.data[i * 4 + 3] = Math.round(Math.min(Math.abs(v) / maxAbs, 0.9) * HEATMAP_ALPHA * 255);
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+export const drawHeatmap = (ctx: CanvasRenderingContext2D, heatmap: HTMLCanvasElement, cols: number, rows: number, cellSize: number) => {
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(heatmap, 0, 0, cols * cellSize, rows * cellSize);
+};
+
+export const drawTrails = (ctx: CanvasRenderingContext2D, agents: Iterable<Customer>, selectedId?: string | null) => {
+  ctx.lineWidth = 0.8;
+  ctx.setLineDash([4, 4]);
+  for (const c of agents) {
+    if (c.path.length === 0) continue;
+    ctx.globalAlpha = selectedId && c.id !== selectedId ? 0.12 * DIMMED_ALPHA : 0.12;
+    ctx.strokeStyle = c.color;
+    ctx.beginPath();
+    ctx.moveTo(c.path[0].x, c.path[0].y);
+    for (let i = 1; i < c.path.length; i++) ctx.lineTo(c.path[i].x, c.path[i].y);
+    ctx.lineTo(c.pos.x, c.pos.y);
+    ctx.stroke();
+  }
+  ctx.setLineDash([]);
+  ctx.globalAlpha = 1;
+};
+
+// Privacy mode keeps only the id, so a wall screen never shows who is who.
+export const agentLabel = (c: Customer, hideDemographics = false) =>
+  hideDemographics ? `ID_${c.id.slice(-4)}` : `${genderLetter(c.gender)}_${c.age || 'Unk'}_${c.id.slice(-4)}`;
+
+/**
+ * Draws every agent; ids in `flagged` get a blinking alert ring and the
+ * hovered one (e.g. from the video panel) a white one. While an agent is
+ * selected everyone else is dimmed.
+ */
+export const drawAgents = (ctx: CanvasRenderingContext2D, agents: Iterable<Customer>, flagged?: ReadonlySet<string>, now = 0, selectedId?: string | null, hoveredId?: string | null, hideDemographics = false) => {
+  const blinkOn = Math.floor(now / 400) % 2 === 0;
+  ctx.font = '900 9px monospace';
+  ctx.textBaseline = 'alphabetic';
+  for (const c of agents) {
+    const { x, y } = c.pos;
+    const angle = (c.angle * Math.PI) / 180;
+    const alpha = selectedId && c.id !== selectedId ? DIMMED_ALPHA : 1;
+    ctx.globalAlpha = alpha;
+
+    // Vision cone
+    const cone = ctx.createRadialGradient(x, y, 0, x, y, CONE_LENGTH);
+    cone.addColorStop(0, `${c.color}40`);
+    cone.addColorStop(1, `${c.color}00`);
+    ctx.fillStyle = cone;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.arc(x, y, CONE_LENGTH, angle - CONE_HALF_ANGLE, angle + CONE_HALF_ANGLE);
+    ctx.closePath();
+    ctx.fill();
+
+    // Agent dot
+    ctx.beginPath();
+    ctx.arc(x, y, 5.5, 0, Math.PI * 2);
+    ctx.fillStyle = '#000';
+    ctx.fill();
+    ctx.lineWidth = 2.5;
+    ctx.strokeStyle = c.color;
+    ctx.stroke();
+
+    if (c.state === AgentState.BROWSING) {
+      ctx.beginPath();
+      ctx.arc(x, y, 11, 0, Math.PI * 2);
+      ctx.lineWidth = 1.2;
+      ctx.strokeStyle = '#f59e0b';
+      ctx.setLineDash([3, 2]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    if (blinkOn && flagged?.has(c.id)) {
+      ctx.beginPath();
+      ctx.arc(x, y, 17, 0, Math.PI * 2);
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = '#ef4444';
+      ctx.stroke();
+    }
+
+    if (c.id === hoveredId) {
+      ctx.globalAlpha = 1;
+      ctx.beginPath();
+      ctx.arc(x, y, 14, 0, Math.PI * 2);
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = '#ffffff';
+      ctx.stroke();
+      ctx.globalAlpha = alpha;
+    }
+
+    // Label tag
+    ctx.globalAlpha = 0.85 * alpha;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(x + 10, y - 15, 65, 14);
+    ctx.globalAlpha = alpha;
+    ctx.lineWidth = 0.5;
+    ctx.strokeStyle = c.color;
+    ctx.strokeRect(x + 10, y - 15, 65, 14);
+    ctx.fillStyle = c.color;
+    ctx.fillText(agentLabel(c, hideDemographics), x + 14, y - 5);
+  }
+  ctx.globalAlpha = 1;
+};
+
+/**
+ * Highlights the inspected agent: its whole sampled trajectory with a tick
+ * every `tickMs`, and crosshair lines across the plan that follow it.
+ */
+export const drawSelection = (
+  ctx: CanvasRenderingContext2D,
+  agent: Customer,
+  trajectory: readonly TrajectoryPoint[],
+  planWidth: number,
+  planHeight: number,
+  tickMs = 10_000
+) => {
+  const { x, y } = agent.pos;
+  ctx.strokeStyle = '#e0f2fe';
+  ctx.lineWidth = 0.6;
+  ctx.globalAlpha = 0.35;
+  ctx.setLineDash([6, 6]);
+  ctx.beginPath();
+  ctx.moveTo(0, y);
+  ctx.lineTo(planWidth, y);
+  ctx.moveTo(x, 0);
+  ctx.lineTo(x, planHeight);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.globalAlpha = 1;
+
+  if (trajectory.length > 0) {
+    ctx.strokeStyle = agent.color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(trajectory[0].x, trajectory[0].y);
+    trajectory.forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.lineTo(x, y);
+    ctx.stroke();
+
+    ctx.fillStyle = agent.color;
+    let nextTick = trajectory[0].t;
+    trajectory.forEach(p => {
+      if (p.t < nextTick) return;
+      ctx.fillRect(p.x - 2, p.y - 2, 4, 4);
+      nextTick = p.t + tickMs;
+    });
+  }
+
+  ctx.beginPath();
+  ctx.arc(x, y, 22, 0, Math.PI * 2);
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = '#e0f2fe';
+  ctx.stroke();
+};
+
+/** Attention overlay: zones shaded by their share of facing time, and each shopper's line of sight. */
+export const drawAttention = (ctx: CanvasRenderingContext2D, zones: Zone[], stats: ZoneAttention[], gazes: Gaze[]) => {
+  const maxShare = Math.max(...stats.map(s => s.share), 0);
+  zones.forEach(z => {
+    const stat = stats.find(s => s.zoneId === z.id);
+    if (!stat || maxShare === 0) return;
+    ctx.globalAlpha = 0.08 + 0.5 * (stat.share / maxShare);
+    ctx.fillStyle = '#a855f7';
+    ctx.fillRect(z.rect.x, z.rect.y, z.rect.w, z.rect.h);
+  });
+
+  ctx.lineWidth = 1.5;
+  gazes.forEach(g => {
+    ctx.globalAlpha = g.zoneId ? 0.9 : 0.25;
+    ctx.strokeStyle = '#c084fc';
+    ctx.beginPath();
+    ctx.moveTo(g.from.x, g.from.y);
+    ctx.lineTo(g.to.x, g.to.y);
+    ctx.stroke();
+    if (!g.zoneId) return;
+    ctx.beginPath();
+    ctx.arc(g.to.x, g.to.y, 3, 0, Math.PI * 2);
+    ctx.fillStyle = '#c084fc';
+    ctx.fill();
+  });
+  ctx.globalAlpha = 1;
+};
+
+/** Overview tiles: agents as plain dots, sized in plan px so they stay visible when the plan is shrunk. */
+export const drawAgentDots = (ctx: CanvasRenderingContext2D, agents: Iterable<Customer>, radiusPx: number) => {
+  for (const c of agents) {
+    ctx.beginPath();
+    ctx.arc(c.pos.x, c.pos.y, radiusPx, 0, Math.PI * 2);
+    ctx.fillStyle = c.color;
+    ctx.fill();
+  }
+};
+
+/** Raw stream positions next to the filtered ones, with each agent's velocity projected one second ahead. */
+export const drawMotionDebug = (ctx: CanvasRenderingContext2D, agents: Iterable<Customer>) => {
+  ctx.font = '700 8px monospace';
+  for (const c of agents) {
+    ctx.strokeStyle = '#f59e0b';
+    ctx.lineWidth = 1;
+    c.measured.forEach((p, i) => {
+      ctx.globalAlpha = 0.25 + (0.75 * (i + 1)) / c.measured.length;
+      ctx.strokeRect(p.x - 2.5, p.y - 2.5, 5, 5);
+    });
+    ctx.globalAlpha = 1;
+
+    ctx.setLineDash([2, 2]);
+    ctx.beginPath();
+    ctx.moveTo(c.target.x, c.target.y);
+    ctx.lineTo(c.pos.x, c.pos.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = '#10b981';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(c.pos.x, c.pos.y);
+    ctx.lineTo(c.pos.x + c.velocity.x, c.pos.y + c.velocity.y);
+    ctx.stroke();
+
+    ctx.fillStyle = '#10b981';
+    ctx.fillText(`${Math.round(c.speed)} px/s`, c.pos.x + 10, c.pos.y + 14);
+  }
+};
+
+export interface FrameTimingSnapshot {
+  fps: number;
+  avgFrameMs: number; // time spent in our own per-frame work
+  maxFrameMs: number;
+  agents: number;
+}
+
+/** Rolling one-second window of frame intervals and per-frame work time. */
+export class FrameTiming {
+  private frames: { at: number; workMs: number }[] = [];
+  private agents = 0;
+
+  record(at: number, workMs: number, agents: number) {
+    this.frames.push({ at, workMs });
+    this.agents = agents;
+    while (this.frames.length > 0 && at - this.frames[0].at > 1000) this.frames.shift();
+  }
+
+  snapshot(): FrameTimingSnapshot {
+    const n = this.frames.length;
+    const span = n > 1 ? this.frames[n - 1].at - this.frames[0].at : 0;
+    return {
+      fps: span > 0 ? ((n - 1) * 1000) / span : 0,
+      avgFrameMs: n > 0 ? this.frames.reduce((s, f) => s + f.workMs, 0) / n : 0,
+      maxFrameMs: this.frames.reduce((m, f) => Math.max(m, f.workMs), 0),
+      agents: this.agents,
+    };
+  }
+}
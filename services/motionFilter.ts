@@ -0,0 +1,82 @@
+import { MotionConfig, Point } from '../types';
+
+// Position/velocity estimate along one axis with its 2x2 covariance.
+class AxisFilter {
+  private p00: number;
+  private p01 = 0;
+  private p11: number;
+  v = 0;
+
+  constructor(public p: number, positionVar: number, velocityVar: number) {
+    this.p00 = positionVar;
+    this.p11 = velocityVar;
+  }
+
+  /** Constant-velocity prediction with white-noise acceleration of std-dev `accel`. */
+  predict(dt: number, accel: number) {
+    const q = accel * accel;
+    this.p += this.v * dt;
+    const p00 = this.p00 + dt * (2 * this.p01 + dt * this.p11) + (q * dt ** 4) / 4;
+    const p01 = this.p01 + dt * this.p11 + (q * dt ** 3) / 2;
+    this.p00 = p00;
+    this.p01 = p01;
+    this.p11 += q * dt * dt;
+  }
+
+  update(z: number, noise: number) {
+    const s = this.p00 + noise * noise;
+    const k0 = this.p00 / s;
+    const k1 = this.p01 / s;
+    const residual = z - this.p;
+    this.p += k0 * residual;
+    this.v += k1 * residual;
+    const p00 = (1 - k0) * this.p00;
+    const p01 = (1 - k0) * this.p01;
+    this.p11 -= k1 * this.p01;
+    this.p00 = p00;
+    this.p01 = p01;
+  }
+}
+
+// Walking pace is unknown when a track appears; start with a wide velocity prior.
+const INITIAL_VELOCITY_VAR = 150 * 150;
+
+/**
+ * Constant-velocity Kalman filter for one track on the plan. Measurements
+ * arrive at frame rate; `estimate` extrapolates to any later time, up to
+ * `maxPredictMs` past the last measurement, so agents keep moving through
+ * short gaps in the stream instead of freezing and jumping.
+ */
+export class MotionFilter {
+  private x: AxisFilter;
+  private y: AxisFilter;
+
+  constructor(pos: Point, private t: number, config: MotionConfig) {
+    const r2 = config.measurementNoisePx ** 2;
+    this.x = new AxisFilter(pos.x, r2, INITIAL_VELOCITY_VAR);
+    this.y = new AxisFilter(pos.y, r2, INITIAL_VELOCITY_VAR);
+  }
+
+  update(pos: Point, now: number, config: MotionConfig) {
+    const dt = Math.max(0, now - this.t) / 1000;
+    this.x.predict(dt, config.accelNoisePxS2);
+    this.y.predict(dt, config.accelNoisePxS2);
+    this.x.update(pos.x, config.measurementNoisePx);
+    this.y.update(pos.y, config.measurementNoisePx);
+    this.t = now;
+  }
+
+  estimate(now: number, config: MotionConfig): { pos: Point; velocity: Point } {
+    const ahead = now - this.t;
+    // Past the prediction window the person is assumed to have stopped where we last expected them.
+    const dt = Math.min(Math.max(ahead, 0), config.maxPredictMs) / 1000;
+    const moving = ahead <= config.maxPredictMs;
+    return {
+      pos: { x: this.x.p + this.x.v * dt, y: this.y.p + this.y.v * dt },
+      velocity: moving ? { x: this.x.v, y: this.y.v } : { x: 0, y: 0 },
+    };
+  }
+}
+
+/** Signed difference b - a in degrees, taking the short way around the circle. */
+export const shortestAngleDelta = (a: number, b: number) => ((((b - a) % 360) + 540) % 360) - 180;
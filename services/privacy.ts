@@ -0,0 +1,127 @@
+import { Alert, PrivacySettings, VisitRecord, WebSocketMessage } from '../types';
+
+const PRIVACY_KEY = 'retail-twin.privacy';
+const SALT_KEY = 'retail-twin.privacy-salt';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SUPPRESSED = 'suppressed';
+
+export const loadPrivacySettings = (defaults: PrivacySettings): PrivacySettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRIVACY_KEY) ?? '{}') as Partial<PrivacySettings>;
+    return { ...defaults, ...saved, retention: { ...defaults.retention, ...saved.retention } };
+  } catch {
+    console.error('Ignoring unreadable privacy settings in localStorage');
+    return defaults;
+  }
+};
+
+export const savePrivacySettings = (settings: PrivacySettings) => localStorage.setItem(PRIVACY_KEY, JSON.stringify(settings));
+
+/** A random per-browser salt, so hashed ids can't be matched against other installs or guessed from small tracker ids. */
+export const loadHashSalt = () => {
+  const saved = localStorage.getItem(SALT_KEY);
+  if (saved) return saved;
+  const salt = [...crypto.getRandomValues(new Uint8Array(16))].map(b => b.toString(16).padStart(2, '0')).join('');
+  localStorage.setItem(SALT_KEY, salt);
+  return salt;
+};
+
+// cyrb53: a fast 53-bit string hash. It runs synchronously and without a
+// secure context (SubtleCrypto needs one, and wall screens are often plain http).
+const hash53 = (s: string, seed: number) => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < s.length; i++) {
+    const ch = s.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+/** Stable pseudonym for a track id: the same id and salt always give the same value. */
+export const pseudonymize = (id: string, salt: string) =>
+  `v_${hash53(`${salt}|${id}`, 1).toString(36).padStart(11, '0')}${hash53(`${salt}|${id}`, 2).toString(36).padStart(11, '0')}`;
+
+export const protectVisit = (record: VisitRecord, salt: string): VisitRecord => ({
+  ...record,
+  trackId: pseudonymize(record.trackId, salt),
+  fragments: record.fragments.map(f => pseudonymize(f, salt)),
+});
+
+/** Track alerts carry the id in their key, subject and (leading) message; see AlertEngine. */
+export const protectAlert = (alert: Alert, salt: string): Alert => {
+  if (alert.subject.kind !== 'track') return alert;
+  const raw = alert.subject.id;
+  const hashed = pseudonymize(raw, salt);
+  return {
+    ...alert,
+    id: `${alert.ruleId}-${hashed}-${alert.raisedAt}`,
+    subject: { ...alert.subject, id: hashed },
+    message: alert.message.startsWith(raw) ? hashed + alert.message.slice(raw.length) : alert.message,
+  };
+};
+
+/**
+ * The raw frame as it may be recorded: track ids hashed and, unless frames are
+ * shown raw, the camera pictures dropped. Returns null for frames that can't be
+ * parsed, since their ids can't be hashed.
+ */
+export const protectFrame = (raw: string, settings: PrivacySettings, salt: string): string | null => {
+  if (!settings.hashTrackIds && settings.frameDisplay === 'raw') return raw;
+  let message: WebSocketMessage;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  const data = message?.data;
+  if (!data || typeof data !== 'object') return raw;
+  const protectedData = { ...data };
+  if (settings.hashTrackIds && Array.isArray(data.plan_data)) {
+    protectedData.plan_data = data.plan_data.map(p =>
+      p && typeof p === 'object' && p.track_id != null ? { ...p, track_id: pseudonymize(String(p.track_id), salt) } : p
+    );
+  }
+  if (settings.frameDisplay !== 'raw' && 'video_image' in data) protectedData.video_image = [];
+  return JSON.stringify({ ...message, data: protectedData });
+};
+
+/** Recorded frames for export with every tracker gender/age reading blanked. */
+export const stripFrameDemographics = (raw: string) => {
+  try {
+    const message = JSON.parse(raw) as WebSocketMessage;
+    if (!Array.isArray(message?.data?.plan_data)) return raw;
+    const plan_data = message.data.plan_data.map(p => (p && typeof p === 'object' ? { ...p, gender: 'unknown', age: 'unknown' } : p));
+    return JSON.stringify({ ...message, data: { ...message.data, plan_data } });
+  } catch {
+    return raw;
+  }
+};
+
+export type ExportedVisit = Omit<VisitRecord, 'gender'> & { gender: VisitRecord['gender'] | typeof SUPPRESSED };
+
+/**
+ * k-anonymity for visit exports: visits whose gender + age band group has
+ * fewer than `k` members get both suppressed. The tracker's exact age is
+ * finer than any band, so it is dropped whenever k > 1.
+ */
+export const kAnonymizeVisits = (records: VisitRecord[], k: number): { visits: ExportedVisit[]; suppressed: number } => {
+  if (k <= 1) return { visits: records, suppressed: 0 };
+  const groupOf = (r: VisitRecord) => `${r.gender}|${r.ageBand}`;
+  const sizes = new Map<string, number>();
+  records.forEach(r => sizes.set(groupOf(r), (sizes.get(groupOf(r)) ?? 0) + 1));
+  let suppressed = 0;
+  const visits = records.map((r): ExportedVisit => {
+    if ((sizes.get(groupOf(r)) ?? 0) >= k) return { ...r, age: '' };
+    suppressed += 1;
+    return { ...r, gender: SUPPRESSED, age: '', ageBand: SUPPRESSED };
+  });
+  return { visits, suppressed };
+};
+
+/** Anything that ended before this is past its retention window. */
+export const retentionCutoff = (days: number, now = Date.now()) => now - days * DAY_MS;
@@ -0,0 +1,93 @@
+import { ValidationResult } from './frameValidator';
+
+const RATE_WINDOW_MS = 10_000;
+const MAX_PAYLOAD_PREVIEW = 2000;
+
+export interface DeviceActivity {
+  deviceId: string;
+  lastSeen: number;
+  frames: number;
+  rejected: number;
+}
+
+export interface BadFrame {
+  at: number;
+  reason: string;
+  detail: string;
+  payload: string;
+}
+
+export interface DiagnosticsSnapshot {
+  totalMessages: number;
+  messagesPerSec: number;
+  avgFrameBytes: number;
+  maxFrameBytes: number;
+  rejected: Record<string, number>;
+  repaired: Record<string, number>;
+  lastBad: BadFrame | null;
+  devices: DeviceActivity[];
+}
+
+/** Rolling counters about the raw stream, read by the diagnostics drawer. */
+export class ProtocolDiagnostics {
+  private arrivals: { at: number; bytes: number }[] = [];
+  private totalMessages = 0;
+  private maxFrameBytes = 0;
+  private rejected: Record<string, number> = {};
+  private repaired: Record<string, number> = {};
+  private lastBad: BadFrame | null = null;
+  private devices = new Map<string, DeviceActivity>();
+
+  record(raw: string, result: ValidationResult, now = Date.now()) {
+    const bytes = raw.length;
+    this.totalMessages += 1;
+    this.maxFrameBytes = Math.max(this.maxFrameBytes, bytes);
+    this.arrivals.push({ at: now, bytes });
+    while (this.arrivals.length > 0 && now - this.arrivals[0].at > RATE_WINDOW_MS) this.arrivals.shift();
+
+    const deviceId = result.ok ? result.message.deviceId : result.deviceId;
+    if (deviceId) {
+      const d = this.devices.get(deviceId) ?? { deviceId, lastSeen: now, frames: 0, rejected: 0 };
+      d.lastSeen = now;
+      d.frames += 1;
+      if (!result.ok) d.rejected += 1;
+      this.devices.set(deviceId, d);
+    }
+
+    if (result.ok) {
+      result.repairs.forEach(r => { this.repaired[r] = (this.repaired[r] ?? 0) + 1; });
+      if (result.repairs.length > 0) {
+        this.lastBad = { at: now, reason: `repaired: ${result.repairs.join(', ')}`, detail: '', payload: raw.slice(0, MAX_PAYLOAD_PREVIEW) };
+      }
+      return;
+    }
+
+    this.rejected[result.reason] = (this.rejected[result.reason] ?? 0) + 1;
+    this.lastBad = { at: now, reason: result.reason, detail: result.detail, payload: raw.slice(0, MAX_PAYLOAD_PREVIEW) };
+  }
+
+  reset() {
+    this.arrivals = [];
+    this.totalMessages = 0;
+    this.maxFrameBytes = 0;
+    this.rejected = {};
+    this.repaired = {};
+    this.lastBad = null;
+    this.devices.clear();
+  }
+
+  snapshot(now = Date.now()): DiagnosticsSnapshot {
+    const recent = this.arrivals.filter(a => now - a.at <= RATE_WINDOW_MS);
+    const span = recent.length > 1 ? Math.max(1000, now - recent[0].at) : RATE_WINDOW_MS;
+    return {
+      totalMessages: this.totalMessages,
+      messagesPerSec: (recent.length / span) * 1000,
+      avgFrameBytes: recent.length > 0 ? recent.reduce((s, a) => s + a.bytes, 0) / recent.length : 0,
+      maxFrameBytes: this.maxFrameBytes,
+      rejected: { ...this.rejected },
+      repaired: { ...this.repaired },
+      lastBad: this.lastBad,
+      devices: [...this.devices.values()].map(d => ({ ...d })).sort((a, b) => b.lastSeen - a.lastSeen),
+    };
+  }
+}
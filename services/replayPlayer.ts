@@ -0,0 +1,128 @@
+import { RecordedFrame } from '../types';
+
+export const REPLAY_SPEEDS = [1, 2, 4, 8, 16] as const;
+
+export interface ReplayStatus {
+  playing: boolean;
+  speed: number;
+  positionMs: number;
+  durationMs: number;
+}
+
+interface ReplayHandlers {
+  onFrame: (raw: string) => void;
+  onSeek: () => void; // fired before frames are re-fed after a jump
+  onStatus: (status: ReplayStatus) => void;
+}
+
+/**
+ * Feeds recorded frames back at their original spacing, scaled by `speed`.
+ * Scheduling is done per frame with setTimeout; the wall clock anchor is reset
+ * whenever speed or position changes so timing never drifts.
+ */
+export class ReplayPlayer {
+  private cursor = 0;
+  private playing = false;
+  private speed = 1;
+  private positionMs = 0;
+  private anchorWall = 0;
+  private anchorPos = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  readonly durationMs: number;
+
+  constructor(private frames: RecordedFrame[], private handlers: ReplayHandlers) {
+    this.durationMs = frames.length > 0 ? frames[frames.length - 1].t : 0;
+    this.emitStatus();
+  }
+
+  play() {
+    if (this.playing) return;
+    if (this.cursor >= this.frames.length) this.seek(0);
+    this.playing = true;
+    this.reanchor();
+    this.schedule();
+    this.emitStatus();
+  }
+
+  pause() {
+    this.positionMs = this.currentPosition();
+    this.playing = false;
+    this.clearTimer();
+    this.emitStatus();
+  }
+
+  setSpeed(speed: number) {
+    this.positionMs = this.currentPosition();
+    this.speed = speed;
+    this.reanchor();
+    if (this.playing) this.schedule();
+    this.emitStatus();
+  }
+
+  // Jumps to `ms` and re-feeds the frame just before it so the scene isn't empty.
+  seek(ms: number) {
+    this.clearTimer();
+    const target = Math.max(0, Math.min(ms, this.durationMs));
+    this.handlers.onSeek();
+
+    let idx = this.frames.findIndex(f => f.t > target);
+    if (idx === -1) idx = this.frames.length;
+    if (idx > 0) this.handlers.onFrame(this.frames[idx - 1].raw);
+
+    this.cursor = idx;
+    this.positionMs = target;
+    this.reanchor();
+    if (this.playing) this.schedule();
+    this.emitStatus();
+  }
+
+  dispose() {
+    this.clearTimer();
+    this.playing = false;
+  }
+
+  private currentPosition() {
+    if (!this.playing) return this.positionMs;
+    return Math.min(this.durationMs, this.anchorPos + (performance.now() - this.anchorWall) * this.speed);
+  }
+
+  private reanchor() {
+    this.anchorWall = performance.now();
+    this.anchorPos = this.positionMs;
+  }
+
+  private schedule() {
+    this.clearTimer();
+    const next = this.frames[this.cursor];
+    if (!next) {
+      this.positionMs = this.durationMs;
+      this.playing = false;
+      this.emitStatus();
+      return;
+    }
+
+    const delay = Math.max(0, (next.t - this.currentPosition()) / this.speed);
+    this.timer = setTimeout(() => {
+      this.handlers.onFrame(next.raw);
+      this.cursor += 1;
+      this.positionMs = next.t;
+      this.reanchor();
+      this.emitStatus();
+      this.schedule();
+    }, delay);
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private emitStatus() {
+    this.handlers.onStatus({
+      playing: this.playing,
+      speed: this.speed,
+      positionMs: this.positionMs,
+      durationMs: this.durationMs,
+    });
+  }
+}
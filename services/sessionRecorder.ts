@@ -0,0 +1,172 @@
+import { RecordedFrame, RecordingSession } from '../types';
+import { idbDelete, idbGet, idbGetAll, idbPut, idbPutMany } from './db';
+import { validateFrame } from './frameValidator';
+
+const FLUSH_INTERVAL_MS = 1000;
+// Frames kept in memory while writes fail; beyond this the oldest are dropped.
+const MAX_BUFFERED_FRAMES = 20_000;
+const EXPORT_FORMAT = 'retail-twin-recording';
+const EXPORT_VERSION = 1;
+
+interface RecordingExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  session: RecordingSession;
+  frames: { t: number; raw: string }[];
+}
+
+const framesRange = (sessionId: string) =>
+  IDBKeyRange.bound([sessionId, 0], [sessionId, Number.MAX_SAFE_INTEGER]);
+
+/**
+ * Captures raw device_data payloads as they arrive. Frames are buffered and
+ * written in batches so a busy stream doesn't open a transaction per message.
+ * A batch that can't be written goes back into the buffer and is retried with
+ * the next one; `error` says why until a write succeeds.
+ */
+export class SessionRecorder {
+  private session: RecordingSession | null = null;
+  private buffer: RecordedFrame[] = [];
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private failure: string | null = null;
+  private dropped = 0;
+
+  get active() {
+    return this.session !== null;
+  }
+
+  get current() {
+    return this.session;
+  }
+
+  /** Why the recording isn't being saved, or how many frames it lost; null while all is well. */
+  get error() {
+    if (this.failure) return this.dropped > 0 ? `${this.failure} (${this.dropped} frames lost)` : this.failure;
+    return this.dropped > 0 ? `${this.dropped} recorded frames lost` : null;
+  }
+
+  async start(storeId: string, name?: string) {
+    if (this.session) await this.stop();
+    const now = Date.now();
+    this.session = {
+      id: `rec-${now.toString(36)}`,
+      name: name || `${storeId} ${new Date(now).toLocaleString()}`,
+      storeId,
+      startedAt: now,
+      endedAt: now,
+      frameCount: 0,
+    };
+    this.failure = null;
+    this.dropped = 0;
+    await idbPut('sessions', this.session);
+    this.flushTimer = setInterval(() => { void this.flush(); }, FLUSH_INTERVAL_MS);
+    return this.session;
+  }
+
+  append(raw: string) {
+    if (!this.session) return;
+    const now = Date.now();
+    this.buffer.push({
+      sessionId: this.session.id,
+      seq: this.session.frameCount,
+      t: now - this.session.startedAt,
+      raw,
+    });
+    this.session.frameCount += 1;
+    this.session.endedAt = now;
+  }
+
+  async stop() {
+    if (!this.session) return null;
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    this.flushTimer = null;
+    await this.flush();
+    const finished = this.session;
+    this.session = null;
+    return finished;
+  }
+
+  private async flush() {
+    if (!this.session) return;
+    const batch = this.buffer;
+    this.buffer = [];
+    try {
+      await idbPutMany('frames', batch);
+      await idbPut('sessions', { ...this.session });
+      this.failure = null;
+    } catch (e) {
+      // Frames appended during the write stay after the batch; frames are keyed by seq, so a retry is harmless.
+      const pending = [...batch, ...this.buffer];
+      const overflow = Math.max(0, pending.length - MAX_BUFFERED_FRAMES);
+      this.dropped += overflow;
+      this.buffer = pending.slice(overflow);
+      this.failure = `Recording not saved: ${(e as Error).message}`;
+      console.error('Failed to save recorded frames', e);
+    }
+  }
+}
+
+export const listSessions = async () => {
+  const sessions = await idbGetAll<RecordingSession>('sessions');
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const loadFrames = (sessionId: string) =>
+  idbGetAll<RecordedFrame>('frames', framesRange(sessionId));
+
+export const deleteSession = async (sessionId: string) => {
+  await idbDelete('frames', framesRange(sessionId));
+  await idbDelete('sessions', sessionId);
+};
+
+/** Deletes recordings that ended before `cutoff`, except the one being recorded. */
+export const pruneSessions = async (cutoff: number, activeId?: string) => {
+  const expired = (await listSessions()).filter(s => s.endedAt < cutoff && s.id !== activeId);
+  for (const s of expired) await deleteSession(s.id);
+  return expired.length;
+};
+
+/** `mapRaw` rewrites each frame on the way out, e.g. to strip demographics. */
+export const exportSession = async (sessionId: string, mapRaw: (raw: string) => string = raw => raw): Promise<Blob> => {
+  const session = await idbGet<RecordingSession>('sessions', sessionId);
+  if (!session) throw new Error(`Recording ${sessionId} not found`);
+  const frames = await loadFrames(sessionId);
+  const payload: RecordingExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    session,
+    frames: frames.map(f => ({ t: f.t, raw: mapRaw(f.raw) })),
+  };
+  return new Blob([JSON.stringify(payload)], { type: 'application/json' });
+};
+
+/**
+ * Frames are checked with validateFrame like live ones; those it rejects (or
+ * without a time) are left out and counted in `skipped`. Only the session's
+ * store and name are taken from the file; its times come from the frames kept.
+ */
+export const importSession = async (file: File): Promise<{ session: RecordingSession; skipped: number }> => {
+  const parsed = JSON.parse(await file.text()) as Partial<RecordingExport>;
+  if (parsed.format !== EXPORT_FORMAT || !parsed.session || !Array.isArray(parsed.frames)) {
+    throw new Error(`${file.name} is not a recording export`);
+  }
+  const { storeId, name } = parsed.session as Partial<Record<keyof RecordingSession, unknown>>;
+  if (typeof storeId !== 'string' || storeId === '') throw new Error(`${file.name} does not say which store it was recorded in`);
+  const frames = (parsed.frames as unknown[]).filter((f): f is RecordingExport['frames'][number] => {
+    const frame = f as Partial<RecordingExport['frames'][number]> | null;
+    return typeof frame?.t === 'number' && Number.isFinite(frame.t) && typeof frame.raw === 'string' && validateFrame(frame.raw).ok;
+  });
+  if (frames.length === 0) throw new Error(`${file.name} contains no valid frames`);
+  // Imported sessions get a fresh id so they never clobber a local recording.
+  const session: RecordingSession = {
+    id: `imp-${Date.now().toString(36)}`,
+    name: typeof name === 'string' && name.trim() !== '' ? name : `${storeId} (imported ${file.name})`,
+    storeId,
+    startedAt: frames.reduce((min, f) => Math.min(min, f.t), Infinity),
+    endedAt: frames.reduce((max, f) => Math.max(max, f.t), -Infinity),
+    frameCount: frames.length,
+  };
+  await idbPut('sessions', session);
+  await idbPutMany('frames', frames.map((f, seq) => ({ sessionId: session.id, seq, t: f.t, raw: f.raw })));
+  return { session, skipped: parsed.frames.length - frames.length };
+};
@@ -0,0 +1,245 @@
+import { AlertRule, BusinessDay, CameraCalibration, DayArchive, DayTotals, DemographicsConfig, DeviceConfig, EntranceCounterConfig, MotionConfig, StoreConfig, StoreSummary, WebSocketResponse } from '../types';
+import { AgentSimulation } from './agentSimulation';
+import { AlertEngine } from './alertEngine';
+import { BackendCounters, EntranceCounter, entranceLine } from './entranceCounter';
+import { DaySnapshot, businessDayOf, isOpenAt } from './businessDay';
+import { DemographicsTally } from './demographics';
+import { projectTrack } from './homography';
+import { ProjectedTrack, TrackFusion } from './trackFusion';
+
+interface MonitorConfig {
+  devices: DeviceConfig[];
+  fusion: { mergeRadiusPx: number; staleMs: number };
+  motion: MotionConfig;
+  entrance: EntranceCounterConfig;
+  demographics: DemographicsConfig;
+  gridSize: number; // heatmap cell size in plan px, as in the full view
+}
+
+// A device that stalls mustn't have its tracks heat the map for the whole gap.
+const MAX_HEAT_GAP_MS = 1000;
+
+/**
+ * A cut-down copy of the live pipeline for one store, kept for every store
+ * at once so the overview wall can show them side by side: fusion, motion,
+ * entrance counting and the store's alert rules. It has no stitching, zone
+ * engagement or persistence; those belong to the store in the full view.
+ * Alerts raised here are for display only, so zone loitering (which needs
+ * engagement) never fires.
+ *
+ * It also keeps each store's business day: totals, entrance counts,
+ * demographics and a heatmap, counted whether or not the store is selected.
+ * The day is archived from here when it rolls over, and the full view carries
+ * on from it when the store is selected.
+ */
+export class StoreMonitor {
+  readonly simulation: AgentSimulation;
+  private fusion: TrackFusion;
+  private backend = new BackendCounters();
+  private entrance: EntranceCounter;
+  private alertEngine = new AlertEngine();
+  private entryTimes = new Map<string, number>();
+  private deviceLastSeen = new Map<string, number>();
+  private watchingSince = Date.now();
+  private lastActivity = Date.now();
+  private lastFrameAt: number | null = null;
+  private businessDay: BusinessDay;
+  private visits = { totalDwellTimeMs: 0, completedVisits: 0 };
+  private demographics: DemographicsTally;
+  private heat: Float32Array;
+  private cols: number;
+  private rows: number;
+  private unarchived: DayArchive | null = null;
+
+  /**
+   * `saved` is the store's day as it stood before a reload: the monitor
+   * carries on with it if it is still today, and otherwise keeps it as an
+   * archive for takeUnarchivedDay() and starts today from zero.
+   */
+  constructor(private store: StoreConfig, private config: MonitorConfig, saved?: DaySnapshot) {
+    const storeDevices = config.devices.filter(d => d.storeId === store.id);
+    this.fusion = new TrackFusion(config.devices, config.fusion, storeDevices.length > 1);
+    this.simulation = new AgentSimulation(config.motion);
+    const now = Date.now();
+    this.businessDay = businessDayOf(now, store);
+    this.cols = Math.ceil(store.width / config.gridSize);
+    this.rows = Math.ceil(store.height / config.gridSize);
+    this.heat = new Float32Array(this.cols * this.rows);
+    const today = saved?.day.key === this.businessDay.key ? saved : undefined;
+    if (saved && !today) {
+      const { cols, rows, grid } = saved.heatmap;
+      this.unarchived = {
+        storeId: store.id,
+        ...saved.day,
+        archivedAt: now,
+        totals: saved.totals,
+        entrance: saved.entrance,
+        demographics: new DemographicsTally(config.demographics, saved.demographics).cumulative(),
+        zones: [],
+        attention: [],
+        heatmap: { cols, rows, grid: Float32Array.from(grid) },
+      };
+    }
+    if (today) this.backend.resumeDay(today.counters);
+    else this.backend.startDay({});
+    this.entrance = new EntranceCounter(entranceLine(store, config.entrance.halfWidthPx), config.entrance, today?.entrance);
+    this.demographics = new DemographicsTally(config.demographics, today?.demographics);
+    if (today) {
+      this.visits = { totalDwellTimeMs: today.totals.totalDwellTimeMs, completedVisits: today.totals.completedVisits };
+      if (today.heatmap.cols === this.cols && today.heatmap.rows === this.rows) this.heat.set(today.heatmap.grid);
+    }
+  }
+
+  /** The layout was edited; the entrance line and, on a resize, the heatmap grid depend on it. */
+  setStore(store: StoreConfig) {
+    this.store = store;
+    this.entrance.setLine(entranceLine(store, this.config.entrance.halfWidthPx));
+    const cols = Math.ceil(store.width / this.config.gridSize);
+    const rows = Math.ceil(store.height / this.config.gridSize);
+    // An old-sized grid can't be mapped onto the new one.
+    if (cols !== this.cols || rows !== this.rows) {
+      this.cols = cols;
+      this.rows = rows;
+      this.heat = new Float32Array(cols * rows);
+    }
+  }
+
+  /**
+   * Starts the next business day once `now` is past the current one, and
+   * returns the finished day's archive. Zone and attention stats need zone
+   * engagement, which only the full view runs, so they are left empty.
+   */
+  rollover(now = Date.now()): DayArchive | null {
+    const next = businessDayOf(now, this.store);
+    if (next.key === this.businessDay.key) return null;
+    const archive: DayArchive = {
+      storeId: this.store.id,
+      ...this.businessDay,
+      archivedAt: now,
+      totals: this.dayTotals(),
+      entrance: this.entrance.totals(),
+      demographics: this.demographics.cumulative(),
+      zones: [],
+      attention: [],
+      heatmap: { cols: this.cols, rows: this.rows, grid: this.heat },
+    };
+    this.businessDay = next;
+    this.backend.startDay();
+    this.entrance = new EntranceCounter(entranceLine(this.store, this.config.entrance.halfWidthPx), this.config.entrance);
+    this.visits = { totalDwellTimeMs: 0, completedVisits: 0 };
+    this.demographics = new DemographicsTally(this.config.demographics);
+    this.heat = new Float32Array(this.cols * this.rows);
+    return archive;
+  }
+
+  /** The saved day the monitor found already over when it started, once. */
+  takeUnarchivedDay() {
+    const archive = this.unarchived;
+    this.unarchived = null;
+    return archive;
+  }
+
+  ingest(deviceId: string, data: WebSocketResponse, calibration: CameraCalibration | undefined, now: number, perfNow: number) {
+    const heatSeconds = this.lastFrameAt === null ? 0 : Math.min(Math.max(now - this.lastFrameAt, 0), MAX_HEAT_GAP_MS) / 1000;
+    this.lastFrameAt = now;
+    this.deviceLastSeen.set(deviceId, now);
+    if (this.config.devices.find(d => d.deviceId === deviceId)?.countsEntries !== false) {
+      this.backend.observe(deviceId, data.entry_number, data.short_dwell_number);
+    }
+
+    const projected: ProjectedTrack[] = [];
+    const heldIds = new Set<string>();
+    data.plan_data.forEach(p => {
+      const pos = projectTrack(p, calibration);
+      if (pos) projected.push({ plan: p, pos });
+      else {
+        heldIds.add(p.track_id);
+        heldIds.add(`${deviceId}:${p.track_id}`);
+      }
+    });
+    const fused = this.fusion.ingest(deviceId, projected, now);
+    if (fused.length > 0) this.lastActivity = now;
+
+    const { entered, exited } = this.simulation.sync(fused, heldIds, perfNow, now);
+    fused.forEach(t => {
+      this.entrance.observe(t.id, t.pos, now);
+      const x = Math.floor(t.pos.x / this.config.gridSize);
+      const y = Math.floor(t.pos.y / this.config.gridSize);
+      if (x >= 0 && x < this.cols && y >= 0 && y < this.rows) this.heat[y * this.cols + x] += heatSeconds;
+    });
+    entered.forEach(c => {
+      this.entryTimes.set(c.id, now);
+      this.demographics.observe(c);
+    });
+    exited.forEach(c => {
+      this.entrance.vanish(c.id, now);
+      const entryTime = this.entryTimes.get(c.id);
+      this.demographics.exit(c, now - (entryTime ?? now));
+      if (entryTime !== undefined) {
+        this.visits.totalDwellTimeMs += now - entryTime;
+        this.visits.completedVisits++;
+      }
+      this.entryTimes.delete(c.id);
+    });
+  }
+
+  evaluateAlerts(rules: AlertRule[], now = Date.now()) {
+    const agents = [...this.simulation.values()];
+    const deviceIds = new Set([...this.config.devices.filter(d => d.storeId === this.store.id).map(d => d.deviceId), ...this.deviceLastSeen.keys()]);
+    const { updated } = this.alertEngine.evaluate(rules, {
+      storeId: this.store.id,
+      occupancy: agents.length,
+      tracks: agents.map(c => ({ id: c.id, visitMs: now - (this.entryTimes.get(c.id) ?? now), zoneId: null, zoneMs: 0 })),
+      idleMs: now - this.lastActivity,
+      open: isOpenAt(now, this.store),
+      devices: [...deviceIds].map(id => ({ deviceId: id, silentMs: now - (this.deviceLastSeen.get(id) ?? this.watchingSince) })),
+    }, [], now);
+    // Nobody acknowledges these; drop them from the feed as soon as they clear.
+    this.alertEngine.acknowledge(updated.map(a => a.id), now);
+  }
+
+  /** The day so far, for saving across a reload. */
+  daySnapshot(): DaySnapshot {
+    return {
+      day: this.businessDay,
+      counters: this.backend.dayState(),
+      totals: this.dayTotals(),
+      entrance: this.entrance.totals(),
+      demographics: this.demographics.snapshot(),
+      // Person-seconds to the millisecond keep the saved grid small.
+      heatmap: { cols: this.cols, rows: this.rows, grid: Array.from(this.heat, v => Math.round(v * 1000) / 1000) },
+    };
+  }
+
+  /** Today's device counting, for the full view to carry on with. */
+  backendDayState() {
+    return this.backend.dayState();
+  }
+
+  dayTotals(): DayTotals {
+    const backend = this.backend.totals();
+    return { totalCustomers: backend.entries, quickExits: backend.quickExits, ...this.visits };
+  }
+
+  entranceTotals() {
+    return this.entrance.totals();
+  }
+
+  /** A copy of the day's tally, for the full view to carry on with. */
+  dayDemographics() {
+    return this.demographics.clone();
+  }
+
+  summary(): StoreSummary {
+    const backend = this.backend.totals();
+    return {
+      storeId: this.store.id,
+      occupancy: this.simulation.size,
+      entries: backend.entries,
+      quickExits: backend.quickExits,
+      lineEntries: this.entrance.totals().entries,
+      lastFrameAt: this.lastFrameAt,
+      alerts: this.alertEngine.alerts(),
+    };
+  }
+}
@@ -0,0 +1,7 @@
+export const startOfMinute = (ts: number) => ts - (ts % 60_000);
+
+export const startOfLocalHour = (ts: number) => {
+  const d = new Date(ts);
+  d.setMinutes(0, 0, 0);
+  return d.getTime();
+};
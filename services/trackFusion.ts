@@ -0,0 +1,102 @@
+import { DeviceConfig, PlanData, Point } from '../types';
+
+export interface ProjectedTrack {
+  plan: PlanData;
+  pos: Point; // already on the floor plan
+}
+
+export interface FusedTrack extends ProjectedTrack {
+  id: string;
+  sources: string[]; // `${deviceId}:${track_id}` of every camera seeing this person
+  devices: string[];
+}
+
+interface DeviceFrame {
+  tracks: ProjectedTrack[];
+  receivedAt: number;
+}
+
+type Area = NonNullable<DeviceConfig['area']>;
+
+const inArea = (p: Point, area?: Area) =>
+  !area || (p.x >= area.x && p.x <= area.x + area.w && p.y >= area.y && p.y <= area.y + area.h);
+
+/** Resolves which store a frame belongs to: explicit device config first, then the frame's area. */
+export const routeDevice = (deviceId: string, area: string | undefined, devices: DeviceConfig[], storeIds: string[]) => {
+  const configured = devices.find(d => d.deviceId === deviceId);
+  if (configured) return configured.storeId;
+  if (area && storeIds.includes(area)) return area;
+  return null;
+};
+
+/**
+ * Merges the latest frame of every camera covering one store into a single
+ * set of people. Tracks from different cameras that sit within `mergeRadiusPx`
+ * of each other, inside both cameras' areas, are treated as one person.
+ * Fused ids stay stable for as long as any contributing track survives.
+ * Ids carry their device prefix once the store has more than one camera,
+ * configured or routed by area, so two cameras' track "1" stay two people.
+ */
+export class TrackFusion {
+  private frames = new Map<string, DeviceFrame>();
+  private fusedIds = new Map<string, string>();
+  private seenDevices = new Set<string>();
+
+  constructor(
+    private devices: DeviceConfig[],
+    private config: { mergeRadiusPx: number; staleMs: number },
+    private namespaced: boolean
+  ) {}
+
+  ingest(deviceId: string, tracks: ProjectedTrack[], now: number): FusedTrack[] {
+    const area = this.areaOf(deviceId);
+    this.seenDevices.add(deviceId);
+    const namespaced = this.namespaced || this.seenDevices.size > 1;
+    this.frames.set(deviceId, { tracks: tracks.filter(t => inArea(t.pos, area)), receivedAt: now });
+    this.frames.forEach((f, id) => {
+      if (now - f.receivedAt > this.config.staleMs) this.frames.delete(id);
+    });
+
+    const clusters: { members: { deviceId: string; key: string; track: ProjectedTrack }[] }[] = [];
+
+    this.frames.forEach((frame, devId) => {
+      frame.tracks.forEach(track => {
+        const key = `${devId}:${track.plan.track_id}`;
+        const match = clusters.find(c =>
+          !c.members.some(m => m.deviceId === devId) &&
+          c.members.some(m =>
+            Math.hypot(m.track.pos.x - track.pos.x, m.track.pos.y - track.pos.y) <= this.config.mergeRadiusPx &&
+            inArea(track.pos, this.areaOf(m.deviceId)) &&
+            inArea(m.track.pos, this.areaOf(devId))
+          )
+        );
+        if (match) match.members.push({ deviceId: devId, key, track });
+        else clusters.push({ members: [{ deviceId: devId, key, track }] });
+      });
+    });
+
+    const nextIds = new Map<string, string>();
+    const used = new Set<string>();
+    const fused = clusters.map(({ members }) => {
+      const inherited = members.map(m => this.fusedIds.get(m.key)).find(id => id && !used.has(id));
+      const first = members[0];
+      const raw = first.track.plan.track_id;
+      const id = inherited ?? (namespaced || used.has(raw) ? first.key : raw);
+      used.add(id);
+      members.forEach(m => nextIds.set(m.key, id));
+
+      const pos = {
+        x: members.reduce((s, m) => s + m.track.pos.x, 0) / members.length,
+        y: members.reduce((s, m) => s + m.track.pos.y, 0) / members.length,
+      };
+      return { id, pos, plan: first.track.plan, sources: members.map(m => m.key), devices: members.map(m => m.deviceId) };
+    });
+
+    this.fusedIds = nextIds;
+    return fused;
+  }
+
+  private areaOf(deviceId: string) {
+    return this.devices.find(d => d.deviceId === deviceId)?.area;
+  }
+}
@@ -0,0 +1,170 @@
+import { Point, StitchConfig, StitchMerge } from '../types';
+import { FusedTrack } from './trackFusion';
+
+const STITCHING_KEY = 'retail-twin.stitching';
+// Below this displacement the direction to the successor is noise; compare headings instead.
+const MIN_MOVE_PX = 20;
+
+export const loadStitchingEnabled = () => localStorage.getItem(STITCHING_KEY) !== 'off';
+
+export const saveStitchingEnabled = (enabled: boolean) => localStorage.setItem(STITCHING_KEY, enabled ? 'on' : 'off');
+
+interface VisitorState {
+  pos: Point;
+  heading: number; // radians
+  gender: string;
+  age: string;
+  lastSeen: number;
+}
+
+export interface StitchResult {
+  tracks: FusedTrack[]; // ids replaced by visitor ids
+  held: Set<string>; // visitor ids that must not exit this frame
+  expired: Map<string, number>; // visitors given up on, with when they were last seen
+  merged: StitchMerge[];
+}
+
+const known = (v: string) => v !== '' && v.toLowerCase() !== 'unknown';
+
+const angleBetween = (a: number, b: number) => {
+  const d = Math.abs(a - b) % (2 * Math.PI);
+  return ((d > Math.PI ? 2 * Math.PI - d : d) * 180) / Math.PI;
+};
+
+const stateOf = (t: FusedTrack, now: number): VisitorState => ({
+  pos: { ...t.pos },
+  heading: Math.atan2(t.plan.orientation[1], t.plan.orientation[0]),
+  gender: t.plan.gender.toLowerCase(),
+  age: t.plan.age,
+  lastSeen: now,
+});
+
+/**
+ * Sits between fusion and the agent simulation and keeps one visitor id per
+ * person when the tracker loses someone and picks them up under a new id.
+ * A visitor whose tracks all vanish is held for `maxGapMs`; a new track that
+ * appears close by, in a plausible direction and with the same gender/age
+ * takes over the visitor id. Every merge is kept with the visitor for auditing.
+ */
+export class TrackStitcher {
+  private byTrack = new Map<string, string>(); // fused track id -> visitor id
+  private active = new Map<string, VisitorState>();
+  private lost = new Map<string, VisitorState>();
+  private fragments = new Map<string, string[]>();
+  private merges = new Map<string, StitchMerge[]>();
+
+  constructor(private config: StitchConfig) {}
+
+  apply(fused: FusedTrack[], heldIds: Set<string>, now: number): StitchResult {
+    const expired = new Map<string, number>();
+    this.lost.forEach((s, id) => {
+      if (now - s.lastSeen <= this.config.maxGapMs) return;
+      this.lost.delete(id);
+      expired.set(id, s.lastSeen);
+    });
+
+    // Visitors none of whose tracks are in this frame (or held) start waiting for a successor.
+    const present = new Set([...fused.map(t => t.id), ...heldIds]);
+    const stillHere = new Set<string>();
+    this.byTrack.forEach((visitorId, trackId) => {
+      if (present.has(trackId)) stillHere.add(visitorId);
+      else this.byTrack.delete(trackId);
+    });
+    this.active.forEach((s, id) => {
+      if (stillHere.has(id)) return;
+      this.active.delete(id);
+      this.lost.set(id, s);
+    });
+
+    const newcomers = fused.filter(t => !this.byTrack.has(t.id));
+    const merged = this.matchNewcomers(newcomers, now);
+    newcomers.forEach(t => {
+      if (this.byTrack.has(t.id)) return;
+      const visitorId = this.freshVisitorId(t.id);
+      this.byTrack.set(t.id, visitorId);
+      this.fragments.set(visitorId, [t.id]);
+    });
+
+    const tracks = fused.map(t => {
+      const visitorId = this.byTrack.get(t.id)!;
+      this.active.set(visitorId, stateOf(t, now));
+      return { ...t, id: visitorId };
+    });
+
+    const held = new Set([...heldIds].map(id => this.byTrack.get(id) ?? id));
+    this.lost.forEach((_, id) => held.add(id));
+    return { tracks, held, expired, merged };
+  }
+
+  fragmentsOf(visitorId: string): readonly string[] {
+    return this.fragments.get(visitorId) ?? [visitorId];
+  }
+
+  /** How each of a visitor's fragments was joined to the one before, in order. */
+  mergesOf(visitorId: string): readonly StitchMerge[] {
+    return this.merges.get(visitorId) ?? [];
+  }
+
+  /** Tracker ids that made up a visitor; forgets them, so call once the visitor has left. */
+  release(visitorId: string) {
+    const fragments = this.fragments.get(visitorId) ?? [visitorId];
+    this.fragments.delete(visitorId);
+    this.merges.delete(visitorId);
+    return fragments;
+  }
+
+  private matchNewcomers(newcomers: FusedTrack[], now: number) {
+    const { maxGapMs, maxDistancePx, maxHeadingDeg } = this.config;
+    const candidates: { track: FusedTrack; visitorId: string; prev: VisitorState; next: VisitorState; score: number; gapMs: number; distancePx: number; headingDeg: number }[] = [];
+
+    newcomers.forEach(track => {
+      const next = stateOf(track, now);
+      this.lost.forEach((prev, visitorId) => {
+        if (known(prev.gender) && known(next.gender) && prev.gender !== next.gender) return;
+        if (known(prev.age) && known(next.age) && prev.age !== next.age) return;
+        const gapMs = now - prev.lastSeen;
+        const distancePx = Math.hypot(next.pos.x - prev.pos.x, next.pos.y - prev.pos.y);
+        if (gapMs > maxGapMs || distancePx > maxDistancePx) return;
+        const direction = distancePx >= MIN_MOVE_PX ? Math.atan2(next.pos.y - prev.pos.y, next.pos.x - prev.pos.x) : next.heading;
+        const headingDeg = angleBetween(prev.heading, direction);
+        if (headingDeg > maxHeadingDeg) return;
+        const score = distancePx / maxDistancePx + gapMs / maxGapMs + headingDeg / maxHeadingDeg;
+        candidates.push({ track, visitorId, prev, next, score, gapMs, distancePx, headingDeg });
+      });
+    });
+
+    // Best pairs first; each lost visitor and each new track is used once.
+    const merged: StitchMerge[] = [];
+    candidates
+      .sort((a, b) => a.score - b.score)
+      .forEach(c => {
+        if (this.byTrack.has(c.track.id) || !this.lost.has(c.visitorId)) return;
+        this.lost.delete(c.visitorId);
+        this.byTrack.set(c.track.id, c.visitorId);
+        const fragments = this.fragments.get(c.visitorId) ?? [c.visitorId];
+        const merge: StitchMerge = {
+          visitorId: c.visitorId,
+          fromTrackId: fragments[fragments.length - 1],
+          toTrackId: c.track.id,
+          at: now,
+          gapMs: c.gapMs,
+          distancePx: Math.round(c.distancePx),
+          headingDeg: Math.round(c.headingDeg),
+          score: c.score,
+          from: { gender: c.prev.gender, age: c.prev.age },
+          to: { gender: c.next.gender, age: c.next.age },
+        };
+        this.fragments.set(c.visitorId, [...fragments, c.track.id]);
+        this.merges.set(c.visitorId, [...this.mergesOf(c.visitorId), merge]);
+        merged.push(merge);
+      });
+    return merged;
+  }
+
+  // A tracker can reuse an id that is still taken by a stitched visitor.
+  private freshVisitorId(trackId: string) {
+    let id = trackId;
+    for (let n = 2; this.active.has(id) || this.lost.has(id) || this.fragments.has(id); n++) id = `${trackId}#${n}`;
+    return id;
+  }
+}
@@ -0,0 +1,94 @@
+import { WebSocketResponse } from '../types';
+import { FusedTrack } from './trackFusion';
+
+export interface VideoBox {
+  trackId: string; // the device's own track_id
+  agentId: string | null; // the visitor on the plan, once the track has been placed
+  bbox: [number, number, number, number]; // [x1, y1, x2, y2] in image pixels
+}
+
+export interface CameraFeed {
+  key: string; // `${deviceId}/${camera}`
+  deviceId: string;
+  camera: string;
+  url: string;
+  size: { w: number; h: number } | null; // from the image header, so boxes can be drawn without showing the picture
+  receivedAt: number;
+  boxes: VideoBox[];
+}
+
+// Start-of-frame markers carry the picture size; C4, C8 and CC are other segments in the same range.
+const isStartOfFrame = (marker: number) => marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+// Enough of the file for the headers in front of the frame, EXIF included.
+const HEADER_CHARS = 88_000;
+
+/**
+ * Width and height of a base64 JPEG (or PNG, which the mock server sends),
+ * read from its headers without decoding the picture.
+ */
+export const pictureSize = (base64: string): { w: number; h: number } | null => {
+  let bytes: string;
+  try {
+    bytes = atob(base64.slice(0, HEADER_CHARS - (HEADER_CHARS % 4)));
+  } catch {
+    return null;
+  }
+  const at = (i: number) => bytes.charCodeAt(i);
+  const u32 = (i: number) => ((at(i) << 24) | (at(i + 1) << 16) | (at(i + 2) << 8) | at(i + 3)) >>> 0;
+  // PNG: the IHDR chunk right after the signature.
+  if (bytes.startsWith('\x89PNG') && bytes.length >= 24) return { w: u32(16), h: u32(20) };
+  if (at(0) !== 0xff || at(1) !== 0xd8) return null;
+  let i = 2;
+  while (i + 9 < bytes.length) {
+    if (at(i) !== 0xff) return null;
+    const marker = at(i + 1);
+    if (marker === 0xff) {
+      i++;
+      continue;
+    }
+    if (isStartOfFrame(marker)) return { w: (at(i + 7) << 8) | at(i + 8), h: (at(i + 5) << 8) | at(i + 6) };
+    i += 2 + ((at(i + 2) << 8) | at(i + 3));
+  }
+  return null;
+};
+
+/**
+ * The latest picture of every camera in `video_image`, each stored with the
+ * boxes of the frame it came in so the overlay never drifts from the image.
+ * plan_data doesn't say which of a device's cameras saw a track, so a
+ * device's boxes are drawn on each of its cameras.
+ */
+export class VideoFeeds {
+  private feeds = new Map<string, CameraFeed>();
+
+  /** `tracks` are the fused (and stitched) tracks of the same frame; returns whether a picture arrived. */
+  ingest(deviceId: string, data: WebSocketResponse, tracks: FusedTrack[], now: number) {
+    if (!data.video_image || data.video_image.length === 0) return false;
+    const agentOf = new Map<string, string>();
+    tracks.forEach(t => t.sources.forEach(source => agentOf.set(source, t.id)));
+    const boxes: VideoBox[] = data.plan_data
+      .filter(p => p.bbox.length >= 4)
+      .map(p => ({
+        trackId: p.track_id,
+        agentId: agentOf.get(`${deviceId}:${p.track_id}`) ?? null,
+        bbox: [p.bbox[0], p.bbox[1], p.bbox[2], p.bbox[3]],
+      }));
+
+    let received = false;
+    data.video_image.forEach(image => Object.entries(image).forEach(([camera, base64]) => {
+      if (!base64) return;
+      const key = `${deviceId}/${camera}`;
+      this.feeds.set(key, { key, deviceId, camera, url: `data:image/jpeg;base64,${base64}`, size: pictureSize(base64), receivedAt: now, boxes });
+      received = true;
+    }));
+    return received;
+  }
+
+  list(): CameraFeed[] {
+    return [...this.feeds.values()].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  clear() {
+    this.feeds.clear();
+  }
+}
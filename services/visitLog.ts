@@ -0,0 +1,95 @@
+import { CompletedVisit, Customer, TrajectoryPoint, VisitRecord, VisitZoneTime, Zone } from '../types';
+import { idbDelete, idbGetAll, idbPut } from './db';
+import { ExportedVisit } from './privacy';
+
+export const pathLength = (trajectory: TrajectoryPoint[]) => {
+  let length = 0;
+  for (let i = 1; i < trajectory.length; i++) {
+    length += Math.hypot(trajectory[i].x - trajectory[i - 1].x, trajectory[i].y - trajectory[i - 1].y);
+  }
+  return length;
+};
+
+/** Total stop time per zone, in the order the zones were first visited. */
+export const visitZoneTimes = (visit: CompletedVisit, zones: Zone[]): VisitZoneTime[] => {
+  const byZone = new Map<string, VisitZoneTime>();
+  visit.zones.forEach(stop => {
+    const entry = byZone.get(stop.zoneId) ?? {
+      zoneId: stop.zoneId,
+      label: zones.find(z => z.id === stop.zoneId)?.label ?? stop.zoneId,
+      dwellMs: 0,
+    };
+    entry.dwellMs += stop.leftAt - stop.enteredAt;
+    byZone.set(stop.zoneId, entry);
+  });
+  return [...byZone.values()];
+};
+
+export interface VisitMeta {
+  deviceIds: string[];
+  fragments: string[];
+  enteredAt: number; // when the track first appeared; can precede the first trajectory sample
+  ageBand: string;
+}
+
+/** Combines a finished trajectory with what the dashboard knew about the agent. */
+export const buildVisitRecord = (visit: CompletedVisit, agent: Customer, { deviceIds, fragments, enteredAt, ageBand }: VisitMeta, zones: Zone[]): VisitRecord => ({
+  storeId: visit.storeId,
+  trackId: visit.id,
+  deviceId: deviceIds[0] ?? null,
+  deviceIds,
+  enteredAt,
+  exitedAt: visit.exitedAt,
+  dwellMs: visit.exitedAt - enteredAt,
+  gender: agent.gender,
+  age: agent.age ?? '',
+  ageBand,
+  zones: visitZoneTimes(visit, zones),
+  pathLengthPx: Math.round(pathLength(visit.trajectory)),
+  fragments,
+});
+
+export const saveVisitRecord = (record: VisitRecord) => idbPut('visits', record);
+
+/** Visits of one store that ended in `from <= exitedAt < to`, oldest first. */
+export const loadVisitRecords = (storeId: string, from: number, to: number) =>
+  idbGetAll<VisitRecord>('visits', IDBKeyRange.bound([storeId, from], [storeId, to], false, true));
+
+/** Deletes the store's visits that ended before `cutoff`. */
+export const pruneVisits = (storeId: string, cutoff: number) =>
+  idbDelete('visits', IDBKeyRange.bound([storeId, 0], [storeId, cutoff], false, true));
+
+const csvCell = (value: string | number) => {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const isoTime = (ts: number) => new Date(ts).toISOString();
+
+export const visitsToCsv = (records: ExportedVisit[]) => {
+  const header = ['track_id', 'store_id', 'device_id', 'device_ids', 'entered_at', 'exited_at', 'dwell_s', 'gender', 'age', 'age_band', 'zones', 'zone_times_s', 'path_length_px', 'fragments'];
+  const rows = records.map(r => [
+    r.trackId,
+    r.storeId,
+    r.deviceId ?? '',
+    r.deviceIds.join(';'),
+    isoTime(r.enteredAt),
+    isoTime(r.exitedAt),
+    (r.dwellMs / 1000).toFixed(1),
+    r.gender,
+    r.age,
+    r.ageBand,
+    r.zones.map(z => z.label).join(';'),
+    r.zones.map(z => (z.dwellMs / 1000).toFixed(1)).join(';'),
+    r.pathLengthPx,
+    r.fragments.join(';'),
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const visitsToJson = (records: ExportedVisit[]) =>
+  JSON.stringify(
+    records.map(r => ({ ...r, enteredAt: isoTime(r.enteredAt), exitedAt: isoTime(r.exitedAt) })),
+    null,
+    2
+  );
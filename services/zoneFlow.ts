@@ -0,0 +1,223 @@
+import { CompletedVisit, FlowConfig, Point, TrajectoryPoint, Zone, ZoneStop } from '../types';
+import { nearestZone } from './engagement';
+
+// Pseudo-zones that open and close every route.
+export const ENTRANCE_NODE = 'entrance';
+export const EXIT_NODE = 'exit';
+
+/**
+ * Turns a sampled trajectory into the ordered zones the shopper stopped at.
+ * Time near a zone shorter than `minZoneMs` is treated as walking past; coming
+ * back to a zone without stopping anywhere else in between continues the same stop.
+ */
+export const trajectoryToZones = (trajectory: TrajectoryPoint[], zones: Zone[], reachPx: number, minZoneMs: number): ZoneStop[] => {
+  const runs: ZoneStop[] = [];
+  let current: ZoneStop | null = null;
+  trajectory.forEach(p => {
+    const zoneId = nearestZone(p, zones, reachPx)?.id ?? null;
+    if (current && current.zoneId === zoneId) {
+      current.leftAt = p.t;
+      return;
+    }
+    if (current) current.leftAt = p.t;
+    current = zoneId ? { zoneId, enteredAt: p.t, leftAt: p.t } : null;
+    if (current) runs.push(current);
+  });
+
+  const stops: ZoneStop[] = [];
+  runs
+    .filter(r => r.leftAt - r.enteredAt >= minZoneMs)
+    .forEach(r => {
+      const last = stops[stops.length - 1];
+      if (last && last.zoneId === r.zoneId) last.leftAt = r.leftAt;
+      else stops.push({ ...r });
+    });
+  return stops;
+};
+
+/**
+ * Keeps the full sampled trajectory of every open visit and converts it into
+ * a zone sequence when the track leaves. Completed visits are kept in memory,
+ * newest last, up to `maxVisits`.
+ */
+export class VisitTracker {
+  private open = new Map<string, TrajectoryPoint[]>();
+  private done: CompletedVisit[] = [];
+
+  constructor(
+    private storeId: string,
+    private zones: Zone[],
+    private reachPx: number,
+    private config: FlowConfig
+  ) {}
+
+  setZones(zones: Zone[]) {
+    this.zones = zones;
+  }
+
+  sample(trackId: string, pos: Point, now: number) {
+    let trajectory = this.open.get(trackId);
+    if (!trajectory) {
+      trajectory = [];
+      this.open.set(trackId, trajectory);
+    }
+    const last = trajectory[trajectory.length - 1];
+    if (!last || now - last.t >= this.config.sampleMs) trajectory.push({ x: pos.x, y: pos.y, t: now });
+  }
+
+  finish(trackId: string, now: number): CompletedVisit | null {
+    const trajectory = this.open.get(trackId);
+    this.open.delete(trackId);
+    if (!trajectory || trajectory.length === 0) return null;
+
+    const visit: CompletedVisit = {
+      id: trackId,
+      storeId: this.storeId,
+      enteredAt: trajectory[0].t,
+      exitedAt: now,
+      trajectory,
+      zones: trajectoryToZones(trajectory, this.zones, this.reachPx, this.config.minZoneMs),
+    };
+    this.done.push(visit);
+    if (this.done.length > this.config.maxVisits) this.done.splice(0, this.done.length - this.config.maxVisits);
+    return visit;
+  }
+
+  trajectoryOf(trackId: string): readonly TrajectoryPoint[] {
+    return this.open.get(trackId) ?? [];
+  }
+
+  /** The visit so far for a track that is still in the store, as if it ended at `now`. */
+  inProgress(trackId: string, now: number): CompletedVisit | null {
+    const trajectory = this.open.get(trackId);
+    if (!trajectory || trajectory.length === 0) return null;
+    return {
+      id: trackId,
+      storeId: this.storeId,
+      enteredAt: trajectory[0].t,
+      exitedAt: now,
+      trajectory,
+      zones: trajectoryToZones(trajectory, this.zones, this.reachPx, this.config.minZoneMs),
+    };
+  }
+
+  completed(): readonly CompletedVisit[] {
+    return this.done;
+  }
+}
+
+export const routeOf = (visit: CompletedVisit) => [ENTRANCE_NODE, ...visit.zones.map(z => z.zoneId), EXIT_NODE];
+
+export interface FlowNode {
+  id: string;
+  label: string;
+}
+
+const nodeLabel = (id: string, zones: Zone[]) =>
+  id === ENTRANCE_NODE ? 'ENTRANCE' : id === EXIT_NODE ? 'EXIT' : zones.find(z => z.id === id)?.label ?? id;
+
+export interface TransitionMatrix {
+  nodes: FlowNode[]; // entrance, zones that saw traffic, exit
+  counts: number[][]; // counts[from][to]
+  total: number;
+}
+
+export const transitionMatrix = (visits: readonly CompletedVisit[], zones: Zone[]): TransitionMatrix => {
+  const pairs = new Map<string, number>();
+  const used = new Set<string>();
+  visits.forEach(v => {
+    const route = routeOf(v);
+    for (let i = 1; i < route.length; i++) {
+      const key = `${route[i - 1]}>${route[i]}`;
+      pairs.set(key, (pairs.get(key) ?? 0) + 1);
+      used.add(route[i - 1]);
+      used.add(route[i]);
+    }
+  });
+
+  const ids = [ENTRANCE_NODE, ...zones.map(z => z.id).filter(id => used.has(id)), EXIT_NODE];
+  const counts = ids.map(from => ids.map(to => pairs.get(`${from}>${to}`) ?? 0));
+  return {
+    nodes: ids.map(id => ({ id, label: nodeLabel(id, zones) })),
+    counts,
+    total: visits.length,
+  };
+};
+
+export interface RouteSummary {
+  route: string[]; // node ids, entrance to exit
+  labels: string[];
+  count: number;
+  share: number; // of all visits, 0..1
+  avgDurationMs: number;
+}
+
+export const topRoutes = (visits: readonly CompletedVisit[], zones: Zone[], limit: number): RouteSummary[] => {
+  const groups = new Map<string, { route: string[]; count: number; durationMs: number }>();
+  visits.forEach(v => {
+    const route = routeOf(v);
+    const key = route.join('>');
+    const g = groups.get(key) ?? { route, count: 0, durationMs: 0 };
+    g.count++;
+    g.durationMs += v.exitedAt - v.enteredAt;
+    groups.set(key, g);
+  });
+
+  return [...groups.values()]
+    .sort((a, b) => b.count - a.count || a.route.length - b.route.length)
+    .slice(0, limit)
+    .map(g => ({
+      route: g.route,
+      labels: g.route.map(id => nodeLabel(id, zones)),
+      count: g.count,
+      share: visits.length > 0 ? g.count / visits.length : 0,
+      avgDurationMs: g.durationMs / g.count,
+    }));
+};
+
+export interface SankeyNode extends FlowNode {
+  key: string; // `${column}:${id}`
+  column: number;
+  count: number;
+}
+
+export interface SankeyLink {
+  source: string; // node key
+  target: string;
+  count: number;
+}
+
+/**
+ * Layers routes by step: column 0 is the entrance, columns 1..maxSteps the
+ * n-th zone visited, and the last column the exit. Steps past `maxSteps` are
+ * folded into the link to the exit.
+ */
+export const sankeyFlows = (visits: readonly CompletedVisit[], zones: Zone[], maxSteps: number) => {
+  const nodes = new Map<string, SankeyNode>();
+  const links = new Map<string, SankeyLink>();
+  const exitColumn = maxSteps + 1;
+
+  const node = (column: number, id: string) => {
+    const key = `${column}:${id}`;
+    let n = nodes.get(key);
+    if (!n) {
+      n = { key, id, column, label: nodeLabel(id, zones), count: 0 };
+      nodes.set(key, n);
+    }
+    return n;
+  };
+
+  visits.forEach(v => {
+    const steps = v.zones.slice(0, maxSteps).map(z => z.zoneId);
+    const path = [node(0, ENTRANCE_NODE), ...steps.map((id, i) => node(i + 1, id)), node(exitColumn, EXIT_NODE)];
+    path.forEach(n => n.count++);
+    for (let i = 1; i < path.length; i++) {
+      const key = `${path[i - 1].key}>${path[i].key}`;
+      const link = links.get(key) ?? { source: path[i - 1].key, target: path[i].key, count: 0 };
+      link.count++;
+      links.set(key, link);
+    }
+  });
+
+  return { nodes: [...nodes.values()], links: [...links.values()], columns: exitColumn + 1 };
+};
@@ -12,7 +12,8 @@ export enum AgentState {
 
 export enum Gender {
   MALE = 'MALE',
-  FEMALE = 'FEMALE'
+  FEMALE = 'FEMALE',
+  UNKNOWN = 'UNKNOWN' // the tracker gave no (or an unrecognised) reading
 }
 
 export interface Customer {
@@ -31,6 +32,8 @@ export interface Customer {
   color: string;
   gender: Gender;
   age?: string; // Added for external data
+  velocity: Point; // filtered estimate, plan px/s
+  measured: Point[]; // recent raw positions from the stream, newest last
 }
 
 export interface Hotspot {
@@ -40,6 +43,7 @@ export interface Hotspot {
 }
 
 export interface StoreRack {
+  id: string; // stable zone id; stats, alerts and comparisons follow it through moves and relabels
   pos: Point;
   w: number;
   h: number;
@@ -47,6 +51,7 @@ export interface StoreRack {
 }
 
 export interface StoreIsland {
+  id: string; // stable zone id, as for racks
   rect: { x: number; y: number; w: number; h: number };
   grid: Point[];
   label: string;
@@ -61,6 +66,21 @@ export interface StoreConfig {
   racks: StoreRack[];
   islands: StoreIsland[];
   hotspots: Hotspot[];
+  timezone?: string; // IANA name, e.g. "Asia/Bangkok"; the browser's own when absent
+  openingHours?: OpeningHours; // the business day ends at closing, or at midnight when absent
+}
+
+export interface OpeningHours {
+  open: string; // "HH:MM" in the store's timezone
+  close: string; // at or before `open` when the store closes after midnight
+}
+
+// Versioned layout file as stored under /layouts
+export interface LayoutFile {
+  schemaVersion: number;
+  revision: number;
+  effectiveFrom?: string; // business day the revision took effect, e.g. "2024-05-31"
+  store: StoreConfig;
 }
 
 // WebSocket Data Types
@@ -85,4 +105,373 @@ export interface WebSocketMessage {
   type: string;
   deviceId: string;
   data: WebSocketResponse;
+  sentAt?: number; // epoch ms on the gateway's clock, when it stamps frames
+}
+
+// Session Recording
+export interface RecordingSession {
+  id: string;
+  name: string;
+  storeId: string;
+  startedAt: number; // epoch ms
+  endedAt: number;
+  frameCount: number;
+}
+
+export interface RecordedFrame {
+  sessionId: string;
+  seq: number;
+  t: number; // ms since session start
+  raw: string; // untouched websocket payload
+}
+
+// Engagement Analytics
+export interface Zone {
+  id: string;
+  label: string; // display label, numbered within its rack label group
+  kind: 'rack' | 'island';
+  rect: { x: number; y: number; w: number; h: number }; // top-left based
+}
+
+export interface EngagementConfig {
+  zoneReachPx: number; // max distance from a zone's edge to count as "at" it
+  stillRadiusPx: number; // movement tolerated while still counting as stationary
+  browseThresholdMs: number; // stationary time in a zone before a track is BROWSING
+}
+
+export interface ZoneEngagement {
+  zoneId: string;
+  label: string;
+  kind: Zone['kind'];
+  visits: number;
+  stops: number;
+  passBys: number;
+  dwellMs: number;
+  occupants: number;
+  stopRate: number; // stops / decided visits, 0..1
+}
+
+// Camera Calibration
+export interface CameraCalibration {
+  deviceId: string;
+  storeId: string;
+  source: 'bbox' | 'position'; // which image coordinate gets projected onto the plan
+  imagePoints: Point[];
+  planPoints: Point[];
+  homography: number[]; // 3x3 row-major, image -> plan
+  rmsError: number; // plan px
+  createdAt: number;
+}
+
+// Device routing
+export interface DeviceConfig {
+  deviceId: string;
+  storeId: string;
+  area?: { x: number; y: number; w: number; h: number }; // camera coverage on the plan
+  countsEntries?: boolean; // whether its entry/short-dwell counters add to the store total (default true)
+}
+
+// Zone Flow
+export interface TrajectoryPoint {
+  x: number;
+  y: number;
+  t: number; // epoch ms
+}
+
+export interface ZoneStop {
+  zoneId: string;
+  enteredAt: number; // epoch ms
+  leftAt: number;
+}
+
+export interface CompletedVisit {
+  id: string; // track id
+  storeId: string;
+  enteredAt: number; // epoch ms
+  exitedAt: number;
+  trajectory: TrajectoryPoint[];
+  zones: ZoneStop[]; // ordered, consecutive repeats of the same zone merged
+}
+
+export interface FlowConfig {
+  sampleMs: number; // trajectory sampling interval
+  minZoneMs: number; // time near a zone before it counts as a step of the route
+  maxVisits: number; // completed visits kept in memory per store
+}
+
+// Alerts
+export type AlertRuleType = 'max_occupancy' | 'dwell_limit' | 'zone_loitering' | 'no_activity' | 'device_offline';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface AlertRule {
+  id: string;
+  storeId: string;
+  type: AlertRuleType;
+  label: string;
+  enabled: boolean;
+  severity: AlertSeverity;
+  threshold: number; // people for max_occupancy, seconds for every other type
+  aloneOnly?: boolean; // dwell_limit: only while the track is the only person inside
+  zoneId?: string; // zone_loitering: one zone, or every zone when unset
+  deviceId?: string; // device_offline: one device, or every device routed to the store when unset
+  sound: boolean;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  storeId: string;
+  type: AlertRuleType;
+  severity: AlertSeverity;
+  message: string;
+  subject: { kind: 'store' | 'track' | 'zone' | 'device'; id: string };
+  zoneId?: string; // zone involved, flashed on the map
+  raisedAt: number; // epoch ms
+  clearedAt?: number;
+  acknowledgedAt?: number;
+}
+
+// KPI History
+export type KpiResolution = 'minute' | 'hour';
+
+export interface KpiBucket {
+  storeId: string;
+  resolution: KpiResolution;
+  start: number; // epoch ms at the start of the bucket
+  entries: number; // increase of the backend entry counter within the bucket
+  quickExits: number;
+  completedVisits: number;
+  dwellTotalMs: number; // summed over visits that ended within the bucket
+  samples: number; // occupancy / gender samples taken
+  occupancySum: number;
+  occupancyMax: number;
+  femaleSum: number;
+  maleSum: number;
+}
+
+// Visit Log
+export interface VisitZoneTime {
+  zoneId: string;
+  label: string;
+  dwellMs: number; // total time stopped at the zone during the visit
+}
+
+export interface VisitRecord {
+  storeId: string;
+  trackId: string;
+  deviceId: string | null; // first camera that saw the visitor
+  deviceIds: string[]; // every camera that saw them
+  enteredAt: number; // epoch ms
+  exitedAt: number;
+  dwellMs: number;
+  gender: Gender;
+  age: string; // as reported by the tracker
+  ageBand: string; // configured age band, 'unknown' when the age can't be read
+  zones: VisitZoneTime[]; // in order of first stop
+  pathLengthPx: number; // plan px walked, from the sampled trajectory
+  fragments: string[]; // tracker ids stitched into this visit, in order
+}
+
+// Track Stitching
+export interface StitchConfig {
+  maxGapMs: number; // how long a vanished track waits for a successor
+  maxDistancePx: number; // between where it vanished and where the successor appeared
+  maxHeadingDeg: number; // between its last heading and the direction to the successor
+}
+
+export interface StitchMerge {
+  visitorId: string;
+  fromTrackId: string; // fragment that vanished
+  toTrackId: string; // fragment that continued the visit
+  at: number; // epoch ms
+  gapMs: number;
+  distancePx: number;
+  headingDeg: number; // between the last heading and the direction to the successor
+  score: number; // lower is a closer match; each criterion adds up to 1
+  from: { gender: string; age: string }; // the readings each fragment was matched on
+  to: { gender: string; age: string };
+}
+
+// Demographics
+export interface AgeBand {
+  label: string;
+  min: number; // covers ages from `min` up to the next band's `min`
+}
+
+export interface DemographicsConfig {
+  ageBands: AgeBand[]; // ascending by `min`
+  quickExitMs: number; // visits shorter than this count as quick exits
+}
+
+export interface DemographicCell {
+  gender: Gender;
+  band: string; // AgeBand label or 'unknown'
+  visitors: number;
+  completed: number;
+  dwellTotalMs: number;
+  quickExits: number;
+}
+
+// Motion Smoothing
+export interface MotionConfig {
+  measurementNoisePx: number; // std-dev of position jitter in incoming frames
+  accelNoisePxS2: number; // std-dev of unmodelled acceleration; higher follows turns faster
+  maxPredictMs: number; // how long to keep extrapolating when a track's frames stop
+  headingTauMs: number; // time constant for turning the vision cone towards a new heading
+  displayTauMs: number; // smoothing of the drawn position over filter corrections
+}
+
+// Track Inspector
+export interface AttributeSample {
+  t: number; // epoch ms of the frame where the tracker's reading changed
+  gender: string;
+  age: string;
+}
+
+export interface TrackSnapshot {
+  id: string;
+  state: AgentState;
+  zoneId: string | null;
+  speed: number; // plan px/s
+  enteredAt: number | null;
+  trajectory: TrajectoryPoint[];
+  zones: VisitZoneTime[];
+  attributes: AttributeSample[];
+  fragments: string[];
+  merges: StitchMerge[];
+  devices: string[];
+}
+
+// Entrance Counting
+export interface EntranceCounterConfig {
+  halfWidthPx: number; // the counting line runs this far either side of store.entrance
+  hysteresisPx: number; // a track must be this far past the line before its side changes
+  doorZonePx: number; // tracks that appear or vanish this close inside the line count as crossing it
+  quickExitMs: number; // out-crossings this soon after the in-crossing are quick exits
+  toleranceRatio: number; // backend/local differences above this share are flagged
+}
+
+export interface EntranceCounts {
+  entries: number;
+  exits: number;
+  quickExits: number;
+}
+
+// Connection
+export interface ConnectionSettings {
+  url: string;
+  token: string; // sent as ?token= since browsers can't set headers on a websocket
+  deviceFilter: string[]; // empty = every device
+}
+
+export interface ConnectionConfig {
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  backoffFactor: number;
+  jitterRatio: number; // each delay is randomised by ± this share, so clients don't reconnect in lockstep
+  stableAfterMs: number; // a connection up this long, or one that delivered a device frame, starts the backoff over
+  pingIntervalMs: number;
+  silenceTimeoutMs: number; // no message at all (not even a pong) for this long drops the socket
+  staleAfterMs: number; // connected but no device_data for this long
+  staleReconnectMs: number; // stale for this long forces a reconnect
+}
+
+export type ConnectionState = 'connecting' | 'open' | 'stale' | 'reconnecting' | 'closed';
+
+export interface ConnectionHealth {
+  state: ConnectionState;
+  messagesPerSec: number;
+  lastFrameAt: number | null;
+  reconnects: number;
+  latencyMs: number | null;
+  rttMs: number | null;
+  nextRetryAt: number | null;
+  lastError: string | null;
+}
+
+// Store Overview
+export interface StoreSummary {
+  storeId: string;
+  occupancy: number;
+  entries: number; // device counters
+  quickExits: number; // device counters
+  lineEntries: number; // entrance line crossings
+  lastFrameAt: number | null;
+  alerts: Alert[]; // active and unacknowledged
+}
+
+// Attention
+export type GazeMode = 'cone' | 'ray';
+
+export interface AttentionConfig {
+  mode: GazeMode; // whole vision cone, or only its center ray
+  coneLengthPx: number;
+  coneHalfAngleDeg: number;
+  coneRays: number; // rays sampled across the cone in 'cone' mode
+  minGlanceMs: number; // uninterrupted facing time that counts as a glance
+}
+
+export interface ZoneAttention {
+  zoneId: string;
+  label: string;
+  kind: Zone['kind'];
+  facingMs: number; // person-time spent facing the zone
+  share: number; // facingMs / all facing time, 0..1
+  glances: number;
+  viewers: number; // distinct tracks that glanced at it
+  avgFirstGlanceMs: number | null; // from a track appearing to its first glance here
+  lookers: number; // tracks facing it right now
+}
+
+// Privacy
+export type FrameDisplay = 'raw' | 'blur' | 'silhouette' | 'hidden';
+
+export interface RetentionPolicy {
+  visitsDays: number;
+  recordingsDays: number;
+  alertsDays: number;
+  historyDays: number; // heatmaps and day archives, counted in business days
+}
+
+export interface PrivacySettings {
+  frameDisplay: FrameDisplay; // how live camera frames are shown
+  hideDemographics: boolean; // drop gender/age from on-screen tags
+  hashTrackIds: boolean; // pseudonymize track ids before visits, alerts and recordings are stored
+  retention: RetentionPolicy;
+  minGroupSize: number; // k: smallest gender/age group an export may contain
+}
+
+// Business Day
+export interface DayTotals {
+  totalCustomers: number;
+  quickExits: number;
+  totalDwellTimeMs: number;
+  completedVisits: number;
+}
+
+export interface BusinessDay {
+  key: string; // date the day opened on in the store's timezone, e.g. "2024-05-31"
+  start: number; // epoch ms of the previous closing (or midnight)
+  end: number;
+}
+
+export interface DayArchive extends BusinessDay {
+  storeId: string;
+  archivedAt: number;
+  totals: DayTotals;
+  entrance: EntranceCounts;
+  demographics: DemographicCell[]; // the day's unique visitors
+  zones: ZoneEngagement[];
+  attention: ZoneAttention[];
+  heatmap: { cols: number; rows: number; grid: Float32Array }; // person-seconds per cell over the day
+}
+
+// Layout History
+export interface LayoutVersion {
+  storeId: string;
+  revision: number;
+  effectiveFrom: string; // business day key; the day it was first recorded when the file has none
+  store: StoreConfig;
+  recordedAt: number;
 }